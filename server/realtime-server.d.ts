@@ -0,0 +1,7 @@
+import type { WebSocketServer } from 'ws';
+
+export declare const DEFAULT_PORT: number;
+
+export declare function startRealtimeServer(options?: {
+  port?: number;
+}): WebSocketServer;
@@ -0,0 +1,84 @@
+// Stand-in for the realtime collaboration backend. It relays board actions
+// between connected clients and tracks who is viewing which board. State is
+// kept in memory only.
+//
+//   yarn realtime            # listens on ws://localhost:4001
+//   PORT=5000 yarn realtime
+import process from 'node:process';
+import { pathToFileURL } from 'node:url';
+import { WebSocketServer } from 'ws';
+
+export const DEFAULT_PORT = 4001;
+
+function parseMessage(data) {
+  try {
+    const message = JSON.parse(String(data));
+    return message && typeof message.type === 'string' ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+export function startRealtimeServer({ port = DEFAULT_PORT } = {}) {
+  const wss = new WebSocketServer({ port });
+  /** @type {Map<import('ws').WebSocket, { clientId: string, user: unknown, boardId: string | null }>} */
+  const clients = new Map();
+
+  const send = (socket, message) => {
+    if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const broadcastPresence = () => {
+    const viewers = [...clients.values()].filter((c) => c.clientId);
+    clients.forEach((_, socket) => send(socket, { type: 'presence', viewers }));
+  };
+
+  wss.on('connection', (socket) => {
+    clients.set(socket, { clientId: '', user: null, boardId: null });
+
+    socket.on('message', (data) => {
+      const message = parseMessage(data);
+      const client = clients.get(socket);
+      if (!message || !client) return;
+
+      switch (message.type) {
+        case 'hello':
+          client.clientId = String(message.clientId ?? '');
+          client.user = message.user ?? null;
+          broadcastPresence();
+          break;
+        case 'presence':
+          client.boardId = message.boardId ?? null;
+          broadcastPresence();
+          break;
+        case 'action':
+          clients.forEach((_, other) => {
+            if (other !== socket) {
+              send(other, {
+                type: 'action',
+                action: message.action,
+                clientId: client.clientId,
+              });
+            }
+          });
+          break;
+      }
+    });
+
+    socket.on('close', () => {
+      clients.delete(socket);
+      broadcastPresence();
+    });
+  });
+
+  return wss;
+}
+
+if (
+  process.argv[1] &&
+  import.meta.url === pathToFileURL(process.argv[1]).href
+) {
+  const port = Number(process.env.PORT) || DEFAULT_PORT;
+  startRealtimeServer({ port });
+  console.log(`Realtime server listening on ws://localhost:${port}`);
+}
@@ -0,0 +1,53 @@
+type BoardColumnPagerProps = {
+  columnNames: string[];
+  activeIndex: number;
+  onSelect: (index: number) => void;
+};
+
+/**
+ * Previous/next buttons and one dot per column for the single-column board
+ * on small screens, where only one column is on screen at a time.
+ */
+export function BoardColumnPager({
+  columnNames,
+  activeIndex,
+  onSelect,
+}: BoardColumnPagerProps) {
+  const last = columnNames.length - 1;
+
+  return (
+    <nav className="app-board-pager" aria-label="Columns">
+      <button
+        type="button"
+        className="app-board-pager-step"
+        aria-label="Previous column"
+        disabled={activeIndex <= 0}
+        onClick={() => onSelect(activeIndex - 1)}
+      >
+        ‹
+      </button>
+      <ol className="app-board-pager-dots">
+        {columnNames.map((name, index) => (
+          <li key={index}>
+            <button
+              type="button"
+              className="app-board-pager-dot"
+              aria-label={`Show ${name}`}
+              aria-current={index === activeIndex ? 'true' : undefined}
+              onClick={() => onSelect(index)}
+            />
+          </li>
+        ))}
+      </ol>
+      <button
+        type="button"
+        className="app-board-pager-step"
+        aria-label="Next column"
+        disabled={activeIndex >= last}
+        onClick={() => onSelect(activeIndex + 1)}
+      >
+        ›
+      </button>
+    </nav>
+  );
+}
@@ -1,33 +1,55 @@
 import { useDraggable, useDroppable } from '@dnd-kit/core';
 import { TaskCard } from '@components/ui/TaskCard';
 import { encodeTaskId } from './boardDndUtils';
-import type { Task } from '@/types/types';
+import type { BoardLabel, Member, Task } from '@/types/types';
 
 type DraggableTaskCardProps = {
-  boardIndex: number;
-  columnName: string;
+  boardId: string;
+  columnId: string;
   task: Task;
+  /** The task's labels, colored from the board's catalog. */
+  labels: BoardLabel[];
+  assignees: Member[];
   subtaskSummary: string;
   onOpenDetails: () => void;
+  /** Set once a drag has taken the task away from its original place. */
+  collapsed?: boolean;
+  /**
+   * Hidden by a board filter. The card keeps its place in the list, so drop
+   * indices still count every task in the column, but cannot be dragged or
+   * dropped on.
+   */
+  filteredOut?: boolean;
 };
 
 export function DraggableTaskCard({
-  boardIndex,
-  columnName,
+  boardId,
+  columnId,
   task,
+  labels,
+  assignees,
   subtaskSummary,
   onOpenDetails,
+  collapsed = false,
+  filteredOut = false,
 }: DraggableTaskCardProps) {
-  const id = encodeTaskId(boardIndex, columnName, task.title);
+  const id = encodeTaskId(boardId, columnId, task.id);
 
   const {
     attributes,
     listeners,
     setNodeRef: setDragRef,
     isDragging,
-  } = useDraggable({ id });
+  } = useDraggable({
+    id,
+    attributes: { roleDescription: 'draggable task' },
+    disabled: filteredOut,
+  });
 
-  const { setNodeRef: setDropRef } = useDroppable({ id });
+  const { setNodeRef: setDropRef } = useDroppable({
+    id,
+    disabled: filteredOut,
+  });
 
   const setRef = (node: HTMLElement | null) => {
     setDragRef(node);
@@ -39,7 +61,15 @@ export function DraggableTaskCard({
       ref={setRef}
       title={task.title}
       subtitle={subtaskSummary}
-      style={{ opacity: isDragging ? 0.5 : 1 }}
+      priority={task.priority}
+      dueDate={task.dueDate}
+      labels={labels}
+      assignees={assignees}
+      commentCount={task.comments?.length}
+      // While dragged, the card stays as the gap at its original place (so
+      // the drag overlay can measure it) until the drop target moves away.
+      className={isDragging ? 'app-board-task-dragging' : ''}
+      style={{ display: collapsed || filteredOut ? 'none' : undefined }}
       onClick={onOpenDetails}
       {...listeners}
       {...attributes}
@@ -1,5 +1,9 @@
-import { useDroppable } from '@dnd-kit/core';
-import { encodeColumnId } from './boardDndUtils';
+import { useDraggable, useDroppable } from '@dnd-kit/core';
+import {
+  COLUMN_DND_DATA,
+  encodeColumnId,
+  isColumnDndData,
+} from './boardDndUtils';
 import type { ReactNode } from 'react';
 
 const COLUMN_DOT_COLORS = [
@@ -11,33 +15,71 @@ const COLUMN_DOT_COLORS = [
 ];
 
 type DroppableColumnProps = {
-  boardIndex: number;
+  boardId: string;
+  columnId: string;
   columnName: string;
   columnIndex: number;
   taskCount: number;
+  /** Where a column being dragged over this one would land. */
+  dropIndicator?: 'before' | 'after' | null;
   children: ReactNode;
 };
 
 export function DroppableColumn({
-  boardIndex,
+  boardId,
+  columnId,
   columnName,
   columnIndex,
   taskCount,
+  dropIndicator = null,
   children,
 }: DroppableColumnProps) {
-  const id = encodeColumnId(boardIndex, columnName);
-  const { setNodeRef, isOver } = useDroppable({ id });
+  const id = encodeColumnId(boardId, columnId);
+  const {
+    setNodeRef: setDropRef,
+    isOver,
+    active,
+  } = useDroppable({ id, data: COLUMN_DND_DATA });
+
+  // The header is the handle; the whole column is what gets measured.
+  const {
+    attributes,
+    listeners,
+    setNodeRef: setDragRef,
+    setActivatorNodeRef,
+    isDragging,
+  } = useDraggable({
+    id,
+    data: COLUMN_DND_DATA,
+    attributes: { roleDescription: 'draggable column' },
+  });
+
+  const setRef = (node: HTMLElement | null) => {
+    setDragRef(node);
+    setDropRef(node);
+  };
+
+  const showTaskDropOutline = isOver && !isColumnDndData(active?.data);
 
   return (
     <section
-      ref={setNodeRef}
+      ref={setRef}
       className="app-board-column"
+      data-drop-indicator={dropIndicator ?? undefined}
       style={{
-        outline: isOver ? '2px dashed var(--accent, #635FC7)' : undefined,
+        outline: showTaskDropOutline
+          ? '2px dashed var(--accent, #635FC7)'
+          : undefined,
         outlineOffset: 4,
+        opacity: isDragging ? 0.5 : 1,
       }}
     >
-      <div className="app-board-column-header">
+      <div
+        ref={setActivatorNodeRef}
+        className="app-board-column-header"
+        {...listeners}
+        {...attributes}
+      >
         <span
           className="app-board-column-dot"
           style={{
@@ -0,0 +1,39 @@
+import { useDroppable } from '@dnd-kit/core';
+import {
+  DROP_PLACEHOLDER_ID,
+  encodeTaskId,
+  type PlaceholderDndData,
+  type TaskDropTarget,
+} from './boardDndUtils';
+
+type TaskDropPlaceholderProps = {
+  boardId: string;
+  target: TaskDropTarget;
+  height: number;
+};
+
+/**
+ * The gap where a dragged task will land. It is a drop target itself so that
+ * hovering the gap keeps the task where it is instead of falling through to
+ * the column.
+ */
+export function TaskDropPlaceholder({
+  boardId,
+  target,
+  height,
+}: TaskDropPlaceholderProps) {
+  const data: PlaceholderDndData = { type: 'placeholder', target };
+  const { setNodeRef } = useDroppable({
+    id: encodeTaskId(boardId, target.columnId, DROP_PLACEHOLDER_ID),
+    data,
+  });
+
+  return (
+    <li
+      ref={setNodeRef}
+      className="app-board-task-placeholder"
+      style={{ height }}
+      aria-hidden
+    />
+  );
+}
@@ -0,0 +1,125 @@
+import type {
+  Active,
+  Announcements,
+  Over,
+  ScreenReaderInstructions,
+} from '@dnd-kit/core';
+import type { Board } from '@/types/types';
+import {
+  decodeColumnId,
+  decodeTaskId,
+  getTaskDropTarget,
+  isColumnDndData,
+} from './boardDndUtils';
+
+export const boardScreenReaderInstructions: ScreenReaderInstructions = {
+  draggable:
+    'To pick up a task or column, press space or enter. Use the arrow keys ' +
+    'to move it: tasks move up and down within a column and left and right ' +
+    'between columns, columns move left and right. Press space or enter ' +
+    'again to drop it, or escape to cancel.',
+};
+
+/**
+ * Screen-reader messages for board drags, naming tasks and columns instead
+ * of reading out the encoded drag ids.
+ */
+export function createBoardAnnouncements(board: Board): Announcements {
+  const findColumn = (id: Active['id']) => {
+    const ref = decodeColumnId(String(id));
+    const index = board.columns.findIndex((c) => c.id === ref?.columnId);
+    return index === -1 ? null : { column: board.columns[index], index };
+  };
+
+  const findTask = (id: Active['id']) => {
+    const ref = decodeTaskId(String(id));
+    for (const column of board.columns) {
+      const index = column.tasks.findIndex((t) => t.id === ref?.taskId);
+      if (index !== -1) return { task: column.tasks[index], column, index };
+    }
+    return null;
+  };
+
+  /** "position 2 of 3" for a column drag, or null when over nothing. */
+  const describeColumnTarget = (over: Over | null) => {
+    const to = over ? findColumn(over.id) : null;
+    return to && `position ${to.index + 1} of ${board.columns.length}`;
+  };
+
+  /** "Done, position 2 of 3" for a task drag, or null when over nothing. */
+  const describeTaskTarget = (
+    active: Active,
+    taskId: string,
+    over: Over | null
+  ) => {
+    if (!over) return null;
+    // Keyboard drags have no pointer; the middle of the card stands in.
+    const rect = active.rect.current.translated;
+    const target = getTaskDropTarget(
+      board,
+      taskId,
+      over,
+      rect ? rect.top + rect.height / 2 : null
+    );
+    const column = board.columns.find((c) => c.id === target?.columnId);
+    if (!target || !column) return null;
+
+    const count = column.tasks.filter((t) => t.id !== taskId).length + 1;
+    return `${column.name}, position ${target.index + 1} of ${count}`;
+  };
+
+  return {
+    onDragStart({ active }) {
+      if (isColumnDndData(active.data)) {
+        const found = findColumn(active.id);
+        if (!found) return undefined;
+        return `Picked up column ${found.column.name}, position ${found.index + 1} of ${board.columns.length}.`;
+      }
+      const found = findTask(active.id);
+      if (!found) return undefined;
+      return `Picked up task "${found.task.title}" in ${found.column.name}, position ${found.index + 1} of ${found.column.tasks.length}.`;
+    },
+    onDragOver({ active, over }) {
+      if (isColumnDndData(active.data)) {
+        const found = findColumn(active.id);
+        if (!found) return undefined;
+        const target = describeColumnTarget(over);
+        return target
+          ? `Column ${found.column.name} will be placed at ${target}.`
+          : `Column ${found.column.name} is no longer over a drop position.`;
+      }
+      const found = findTask(active.id);
+      if (!found) return undefined;
+      const target = describeTaskTarget(active, found.task.id, over);
+      return target
+        ? `Task "${found.task.title}" will be placed in ${target}.`
+        : `Task "${found.task.title}" is no longer over a column.`;
+    },
+    onDragEnd({ active, over }) {
+      if (isColumnDndData(active.data)) {
+        const found = findColumn(active.id);
+        if (!found) return undefined;
+        const target = describeColumnTarget(over);
+        return target
+          ? `Column ${found.column.name} was dropped at ${target}.`
+          : `Column ${found.column.name} was dropped back in place.`;
+      }
+      const found = findTask(active.id);
+      if (!found) return undefined;
+      const target = describeTaskTarget(active, found.task.id, over);
+      return target
+        ? `Task "${found.task.title}" was dropped in ${target}.`
+        : `Task "${found.task.title}" was dropped back in ${found.column.name}.`;
+    },
+    onDragCancel({ active }) {
+      if (isColumnDndData(active.data)) {
+        const found = findColumn(active.id);
+        if (!found) return undefined;
+        return `Moving column ${found.column.name} was cancelled. It stays at position ${found.index + 1}.`;
+      }
+      const found = findTask(active.id);
+      if (!found) return undefined;
+      return `Moving task "${found.task.title}" was cancelled. It is back in ${found.column.name}.`;
+    },
+  };
+}
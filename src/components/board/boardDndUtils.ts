@@ -1,35 +1,127 @@
+import type { DataRef, DragMoveEvent, Over } from '@dnd-kit/core';
+import { getEventCoordinates } from '@dnd-kit/utilities';
+import type { Board } from '@/types/types';
+
 export function encodeTaskId(
-  boardIndex: number,
-  columnName: string,
-  taskTitle: string
+  boardId: string,
+  columnId: string,
+  taskId: string
 ): string {
-  return `${boardIndex}::${columnName}::${taskTitle}`;
+  return `${boardId}::${columnId}::${taskId}`;
 }
 
 export function decodeTaskId(
   id: string
-): { boardIndex: number; columnName: string; taskTitle: string } | null {
+): { boardId: string; columnId: string; taskId: string } | null {
   const parts = id.split('::');
-  if (parts.length < 3) return null;
+  if (parts.length !== 3) return null;
   return {
-    boardIndex: parseInt(parts[0], 10),
-    columnName: parts[1],
-    // Task title may contain "::", so join remaining parts
-    taskTitle: parts.slice(2).join('::'),
+    boardId: parts[0],
+    columnId: parts[1],
+    taskId: parts[2],
   };
 }
 
-export function encodeColumnId(boardIndex: number, columnName: string): string {
-  return `${boardIndex}::${columnName}`;
+export function encodeColumnId(boardId: string, columnId: string): string {
+  return `${boardId}::${columnId}`;
 }
 
+// Also accepts task ids, resolving them to the column the task sits in.
 export function decodeColumnId(
   id: string
-): { boardIndex: number; columnName: string } | null {
+): { boardId: string; columnId: string } | null {
   const parts = id.split('::');
   if (parts.length < 2) return null;
   return {
-    boardIndex: parseInt(parts[0], 10),
-    columnName: parts[1],
+    boardId: parts[0],
+    columnId: parts[1],
   };
 }
+
+/** Attached as `data` to column draggables and droppables. */
+export const COLUMN_DND_DATA = { type: 'column' } as const;
+
+/** Attached as `data` to the gap shown where a dragged task will land. */
+export type PlaceholderDndData = {
+  type: 'placeholder';
+  target: TaskDropTarget;
+};
+
+export const DROP_PLACEHOLDER_ID = 'drop-placeholder';
+
+export function isColumnDndData(data: DataRef | undefined): boolean {
+  return (
+    (data?.current as typeof COLUMN_DND_DATA | undefined)?.type ===
+    COLUMN_DND_DATA.type
+  );
+}
+
+export function isPlaceholderDndData(data: DataRef | undefined): boolean {
+  return (
+    (data?.current as PlaceholderDndData | undefined)?.type === 'placeholder'
+  );
+}
+
+/** Where a dragged task will land. */
+export type TaskDropTarget = {
+  columnId: string;
+  /** Position among the column's tasks with the dragged task taken out. */
+  index: number;
+};
+
+/**
+ * The vertical pointer position during a drag. Keyboard drags have no
+ * pointer, so the middle of the dragged card stands in for it.
+ */
+export function getDragPointerY(
+  event: Pick<DragMoveEvent, 'active' | 'activatorEvent' | 'delta'>
+): number | null {
+  const start = event.activatorEvent
+    ? getEventCoordinates(event.activatorEvent)
+    : null;
+  if (start) return start.y + event.delta.y;
+
+  const rect = event.active.rect.current.translated;
+  return rect ? rect.top + rect.height / 2 : null;
+}
+
+/**
+ * Resolves what the dragged task is over to a drop position: above or below
+ * the hovered card depending on which half the pointer is in, or the end of
+ * the column when it is over the column itself. Over the placeholder, the
+ * target stays where it is.
+ */
+export function getTaskDropTarget(
+  board: Board,
+  taskId: string,
+  over: Pick<Over, 'id' | 'rect' | 'data'>,
+  pointerY: number | null
+): TaskDropTarget | null {
+  if (isPlaceholderDndData(over.data)) {
+    return (over.data.current as PlaceholderDndData).target;
+  }
+
+  const overId = String(over.id);
+  const overColumn = decodeColumnId(overId);
+  if (!overColumn || overColumn.boardId !== board.id) return null;
+
+  const column = board.columns.find((c) => c.id === overColumn.columnId);
+  if (!column) return null;
+
+  const tasks = column.tasks.filter((t) => t.id !== taskId);
+  const overTask = decodeTaskId(overId);
+  if (!overTask) return { columnId: column.id, index: tasks.length };
+
+  // Still over its own card, which holds its place until it moves away.
+  if (overTask.taskId === taskId) {
+    const index = column.tasks.findIndex((t) => t.id === taskId);
+    return { columnId: column.id, index };
+  }
+
+  const index = tasks.findIndex((t) => t.id === overTask.taskId);
+  if (index === -1) return { columnId: column.id, index: tasks.length };
+
+  const below =
+    pointerY !== null && pointerY > over.rect.top + over.rect.height / 2;
+  return { columnId: column.id, index: below ? index + 1 : index };
+}
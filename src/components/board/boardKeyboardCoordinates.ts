@@ -0,0 +1,80 @@
+import { KeyboardCode, type KeyboardCoordinateGetter } from '@dnd-kit/core';
+import {
+  decodeColumnId,
+  decodeTaskId,
+  isColumnDndData,
+  isPlaceholderDndData,
+} from './boardDndUtils';
+
+/**
+ * Arrow-key movement for board drags. A column moves a whole column left or
+ * right at a time. A task moves left and right between columns at the same
+ * height, and up and down past one card at a time, stopping just beyond the
+ * middle of the card it passes so the drop lands on the far side of it.
+ */
+export const boardKeyboardCoordinates: KeyboardCoordinateGetter = (
+  event,
+  { context, currentCoordinates }
+) => {
+  const { active, collisionRect, droppableContainers, droppableRects } =
+    context;
+  if (!active || !collisionRect) return undefined;
+
+  const code = event.code as KeyboardCode;
+  const horizontal = code === KeyboardCode.Left || code === KeyboardCode.Right;
+  const vertical = code === KeyboardCode.Up || code === KeyboardCode.Down;
+  if (!horizontal && !vertical) return undefined;
+
+  const measured = droppableContainers.getEnabled().flatMap((container) => {
+    const rect = droppableRects.get(container.id);
+    return rect ? [{ container, rect }] : [];
+  });
+  const columns = measured.filter(({ container }) =>
+    isColumnDndData(container.data)
+  );
+  const centerX = collisionRect.left + collisionRect.width / 2;
+  const centerY = collisionRect.top + collisionRect.height / 2;
+
+  const moveTo = (left: number, top: number) => {
+    event.preventDefault();
+    return {
+      x: currentCoordinates.x + left - collisionRect.left,
+      y: currentCoordinates.y + top - collisionRect.top,
+    };
+  };
+
+  if (horizontal) {
+    const centers = columns.map(({ rect }) => rect.left + rect.width / 2);
+    const targetX =
+      code === KeyboardCode.Right
+        ? Math.min(...centers.filter((x) => x > centerX + 1))
+        : Math.max(...centers.filter((x) => x < centerX - 1));
+    if (!Number.isFinite(targetX)) return undefined;
+    return moveTo(targetX - collisionRect.width / 2, collisionRect.top);
+  }
+
+  if (isColumnDndData(active.data)) return undefined;
+
+  const column = columns.find(
+    ({ rect }) => rect.left <= centerX && centerX <= rect.right
+  );
+  const columnId =
+    column && decodeColumnId(String(column.container.id))?.columnId;
+  if (!columnId) return undefined;
+
+  const cardCenters = measured
+    .filter(
+      ({ container }) =>
+        container.id !== active.id &&
+        !isColumnDndData(container.data) &&
+        !isPlaceholderDndData(container.data) &&
+        decodeTaskId(String(container.id))?.columnId === columnId
+    )
+    .map(({ rect }) => rect.top + rect.height / 2);
+  const targetY =
+    code === KeyboardCode.Down
+      ? Math.min(...cardCenters.filter((y) => y > centerY + 1)) + 1
+      : Math.max(...cardCenters.filter((y) => y < centerY - 1)) - 1;
+  if (!Number.isFinite(targetY)) return undefined;
+  return moveTo(collisionRect.left, targetY - collisionRect.height / 2);
+};
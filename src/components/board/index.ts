@@ -1,8 +1,19 @@
+export { BoardColumnPager } from './BoardColumnPager';
 export { DraggableTaskCard } from './DraggableTaskCard';
 export { DroppableColumn } from './DroppableColumn';
+export { TaskDropPlaceholder } from './TaskDropPlaceholder';
 export {
   encodeTaskId,
   decodeTaskId,
   encodeColumnId,
   decodeColumnId,
+  isColumnDndData,
+  getDragPointerY,
+  getTaskDropTarget,
+  type TaskDropTarget,
 } from './boardDndUtils';
+export { boardKeyboardCoordinates } from './boardKeyboardCoordinates';
+export {
+  boardScreenReaderInstructions,
+  createBoardAnnouncements,
+} from './boardAnnouncements';
@@ -2,6 +2,7 @@ import { useRef, useState } from 'react';
 import { useNavigate } from 'react-router';
 import { useAuth } from '@/hooks/useAuth';
 import { useClickOutside } from '@/hooks/useClickOutside';
+import { getMemberInitial } from '@/utils/members';
 
 export function AccountMenu() {
   const { user, logout } = useAuth();
@@ -16,10 +17,7 @@ export function AccountMenu() {
     void navigate('/login', { replace: true });
   };
 
-  const userInitial =
-    user?.name?.trim()?.charAt(0).toUpperCase() ??
-    user?.email?.trim()?.charAt(0).toUpperCase() ??
-    'A';
+  const userInitial = user ? getMemberInitial(user) : 'A';
 
   return (
     <div ref={menuRef} className="app-account-menu">
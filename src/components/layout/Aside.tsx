@@ -1,6 +1,8 @@
-import { Link, useLocation } from 'react-router';
+import { Link } from 'react-router';
 import { useBoards } from '@/hooks/useBoards';
+import { useCurrentBoard } from '@/hooks/useCurrentBoard';
 import { ThemeToggle } from '@components/ui/ThemeToggle';
+import { getBoardPath } from '@/utils/boardUrls';
 
 import iconBoard from '@assets/icon-board.svg';
 import iconHideSidebar from '@assets/icon-hide-sidebar.svg';
@@ -12,8 +14,8 @@ type AsideProps = {
 };
 
 export function Aside({ onHideSidebar, onCreateBoard }: AsideProps) {
-  const location = useLocation();
   const { boards } = useBoards();
+  const { board: currentBoard } = useCurrentBoard();
 
   return (
     <aside className="app-aside">
@@ -28,11 +30,11 @@ export function Aside({ onHideSidebar, onCreateBoard }: AsideProps) {
       </Link>
       <p className="heading-s app-aside-title">ALL BOARDS ({boards.length})</p>
       <nav className="app-aside-nav">
-        {boards.map((board, index) => (
+        {boards.map((board) => (
           <Link
-            key={board.name}
-            to={`/board/${index}`}
-            className={`app-aside-link ${location.pathname === `/board/${index}` ? 'active' : ''}`}
+            key={board.id}
+            to={getBoardPath(board)}
+            className={`app-aside-link ${currentBoard?.id === board.id ? 'active' : ''}`}
           >
             <img src={iconBoard} alt="" width={16} height={16} aria-hidden />
             {board.name}
@@ -0,0 +1,43 @@
+import { useEffect } from 'react';
+import { useStore } from '@store/useStore';
+import { setViewingBoard } from '@store/realtimeSync';
+import { Avatar } from '@components/ui/Avatar';
+
+const MAX_AVATARS = 3;
+
+type BoardPresenceProps = {
+  boardId: string | null;
+};
+
+/** Reports the open board and shows who else is looking at it. */
+export function BoardPresence({ boardId }: BoardPresenceProps) {
+  const presence = useStore((s) => s.presence);
+
+  useEffect(() => {
+    setViewingBoard(boardId);
+  }, [boardId]);
+
+  const viewers = boardId
+    ? presence.filter((viewer) => viewer.boardId === boardId)
+    : [];
+  if (viewers.length === 0) return null;
+
+  const names = viewers.map((viewer) => viewer.user?.name ?? 'Guest');
+  const hidden = names.length - MAX_AVATARS;
+
+  return (
+    <div
+      className="app-presence"
+      aria-label={`Also viewing: ${names.join(', ')}`}
+    >
+      {viewers.slice(0, MAX_AVATARS).map((viewer, i) => (
+        <Avatar
+          key={viewer.clientId}
+          name={names[i]}
+          title={`${names[i]} is viewing this board`}
+        />
+      ))}
+      {hidden > 0 && <span className="body-m">+{hidden}</span>}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Link } from 'react-router';
 import { useBoards } from '@/hooks/useBoards';
 import { useCurrentBoard } from '@/hooks/useCurrentBoard';
 import { useClickOutside } from '@/hooks/useClickOutside';
+import { getBoardPath } from '@/utils/boardUrls';
 import { ThemeToggle } from '@components/ui/ThemeToggle';
 import iconChevronDown from '@assets/icon-chevron-down.svg';
 import iconBoard from '@assets/icon-board.svg';
@@ -69,9 +70,9 @@ export function BoardSelector({ onCreateBoard }: BoardSelectorProps) {
             </p>
             <ul className="app-board-dropdown-list">
               {boards.map((b, index) => (
-                <li key={b.name}>
+                <li key={b.id}>
                   <Link
-                    to={`/board/${index}`}
+                    to={getBoardPath(b)}
                     className={`app-board-dropdown-item ${boardIndex === index ? 'active' : ''}`}
                     onClick={() => setIsOpen(false)}
                   >
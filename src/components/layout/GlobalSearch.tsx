@@ -0,0 +1,197 @@
+import {
+  useCallback,
+  useDeferredValue,
+  useEffect,
+  useId,
+  useState,
+  type KeyboardEvent,
+} from 'react';
+import { useNavigate } from 'react-router';
+import { Modal } from '@components/ui/Modal';
+import { useTaskSearch } from '@/hooks/useTaskSearch';
+import { getTaskPath } from '@/utils/boardUrls';
+import {
+  MAX_SEARCH_RESULTS,
+  getSnippet,
+  groupSearchMatches,
+  splitHighlights,
+  type TaskSearchMatch,
+} from '@/utils/taskSearch';
+
+function Highlight({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {splitHighlights(text, terms).map((part, i) =>
+        part.match ? <mark key={i}>{part.text}</mark> : part.text
+      )}
+    </>
+  );
+}
+
+const optionId = (listId: string, match: TaskSearchMatch) =>
+  `${listId}-${match.board.id}-${match.task.id}`;
+
+/**
+ * A search button for the header that finds tasks on every board by title,
+ * description or subtask. Ctrl/Cmd+K opens it too; picking a result opens
+ * the task on its board.
+ */
+export function GlobalSearch() {
+  const navigate = useNavigate();
+  const listId = useId();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  // Typing stays responsive on big workspaces; results catch up.
+  const deferredQuery = useDeferredValue(query);
+  const { terms, matches } = useTaskSearch(deferredQuery);
+
+  const shown = matches.slice(0, MAX_SEARCH_RESULTS);
+  const active = shown[Math.min(activeIndex, shown.length - 1)];
+
+  useEffect(() => {
+    function handleKeyDown(event: globalThis.KeyboardEvent) {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (event.key.toLowerCase() !== 'k') return;
+      event.preventDefault();
+      setOpen(true);
+    }
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Stable so the modal does not refocus the field on every keystroke.
+  const close = useCallback(() => {
+    setOpen(false);
+    setQuery('');
+    setActiveIndex(0);
+  }, []);
+
+  const pick = (match: TaskSearchMatch) => {
+    close();
+    void navigate(getTaskPath(match.board, match.task.id));
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        event.preventDefault();
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex(
+          (index) => (index + step + shown.length) % Math.max(shown.length, 1)
+        );
+        break;
+      }
+      case 'Enter':
+        event.preventDefault();
+        if (active) pick(active);
+        break;
+    }
+  };
+
+  let status = 'Search task titles, descriptions and subtasks on every board.';
+  if (terms.length > 0) {
+    if (matches.length === 0) status = 'No tasks match.';
+    else if (matches.length > shown.length) {
+      status = `Showing the first ${shown.length} of ${matches.length} matching tasks.`;
+    } else {
+      status = `${matches.length} matching ${matches.length === 1 ? 'task' : 'tasks'}.`;
+    }
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        className="app-header-search"
+        aria-label="Search tasks"
+        aria-keyshortcuts="Control+K Meta+K"
+        onClick={() => setOpen(true)}
+      >
+        <svg width="16" height="16" viewBox="0 0 16 16" aria-hidden>
+          <circle
+            cx="7"
+            cy="7"
+            r="5"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+          />
+          <path d="m11 11 4 4" stroke="currentColor" strokeWidth="2" />
+        </svg>
+      </button>
+      <Modal open={open} onClose={close} aria-label="Search tasks">
+        <input
+          className="input"
+          type="search"
+          role="combobox"
+          aria-label="Search tasks"
+          aria-expanded={shown.length > 0}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={active ? optionId(listId, active) : undefined}
+          placeholder="Search all boards…"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+        />
+        <p className="body-m app-search-status" role="status">
+          {status}
+        </p>
+        <div id={listId} role="listbox" aria-label="Matching tasks">
+          {groupSearchMatches(shown).map(({ board, columns }) => (
+            <div key={board.id} className="app-search-board">
+              <p className="app-search-board-name" aria-hidden>
+                {board.name}
+              </p>
+              {columns.map(({ column, matches: columnMatches }) => (
+                <div
+                  key={column.id}
+                  role="group"
+                  aria-label={`${board.name}, ${column.name}`}
+                >
+                  <p className="app-search-column-name" aria-hidden>
+                    {column.name}
+                  </p>
+                  {columnMatches.map((match) => (
+                    <div
+                      key={match.task.id}
+                      id={optionId(listId, match)}
+                      role="option"
+                      aria-selected={match === active}
+                      className={`app-search-result ${match === active ? 'selected' : ''}`}
+                      // Keep focus in the field while picking with the mouse.
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => pick(match)}
+                    >
+                      <span className="app-search-result-title">
+                        <Highlight text={match.task.title} terms={terms} />
+                      </span>
+                      {match.descriptionMatched && match.task.description && (
+                        <span className="app-search-result-detail">
+                          <Highlight
+                            text={getSnippet(match.task.description, terms)}
+                            terms={terms}
+                          />
+                        </span>
+                      )}
+                      {match.subtasks.map((title, i) => (
+                        <span key={i} className="app-search-result-detail">
+                          Subtask: <Highlight text={title} terms={terms} />
+                        </span>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </Modal>
+    </>
+  );
+}
@@ -2,6 +2,9 @@ import iconAddTask from '@assets/icon-add-task-mobile.svg';
 import { BoardSelector } from './BoardSelector';
 import { AccountMenu } from './AccountMenu';
 import { BoardOptionsMenu } from './BoardOptionsMenu';
+import { SyncIndicator } from '@components/ui/SyncIndicator';
+import { BoardPresence } from './BoardPresence';
+import { GlobalSearch } from './GlobalSearch';
 
 type HeaderProps = {
   onAddTask?: () => void;
@@ -9,6 +12,8 @@ type HeaderProps = {
   onEditBoard?: () => void;
   onDeleteBoard?: () => void;
   canEditBoard?: boolean;
+  /** The open board, used for presence. */
+  boardId?: string | null;
 };
 
 export function Header({
@@ -17,11 +22,15 @@ export function Header({
   onEditBoard,
   onDeleteBoard,
   canEditBoard = false,
+  boardId = null,
 }: HeaderProps) {
   return (
     <header className="app-header">
       <BoardSelector onCreateBoard={onCreateBoard} />
       <div className="app-header-actions">
+        <GlobalSearch />
+        <BoardPresence boardId={boardId} />
+        <SyncIndicator />
         <button
           type="button"
           className="btn btn-primary btn-small app-header-add-task"
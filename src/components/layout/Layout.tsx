@@ -7,6 +7,7 @@ import { EditBoardModal } from '@components/modals/EditBoardModal';
 import { DeleteBoardModal } from '@components/modals/DeleteBoardModal';
 import { AddBoardModal } from '@components/modals/AddBoardModal';
 import { useCurrentBoard } from '@/hooks/useCurrentBoard';
+import { useUndoRedoShortcuts } from '@/hooks/useUndoRedoShortcuts';
 import iconShowSidebar from '@assets/icon-show-sidebar.svg';
 
 export function Layout() {
@@ -18,6 +19,8 @@ export function Layout() {
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const navigate = useNavigate();
 
+  useUndoRedoShortcuts();
+
   const currentBoard = board;
 
   const columnOptions =
@@ -47,6 +50,7 @@ export function Layout() {
           onEditBoard={() => setEditBoardOpen(true)}
           onDeleteBoard={() => setDeleteBoardOpen(true)}
           canEditBoard={currentBoard != null}
+          boardId={currentBoard?.id ?? null}
         />
         <main className="app-layout-main">
           <Outlet />
@@ -68,14 +72,16 @@ export function Layout() {
       />
       {currentBoard && (
         <>
-          <EditBoardModal
-            open={editBoardOpen}
-            onClose={() => setEditBoardOpen(false)}
-            boardName={currentBoard.name}
-            columnNames={currentBoard.columns.map((c) => c.name)}
-            boardIndex={boardIndex}
-            originalBoard={currentBoard}
-          />
+          {/* Mounted only while open so each edit starts from the current board. */}
+          {editBoardOpen && (
+            <EditBoardModal
+              open
+              onClose={() => setEditBoardOpen(false)}
+              boardName={currentBoard.name}
+              boardIndex={boardIndex}
+              originalBoard={currentBoard}
+            />
+          )}
           <DeleteBoardModal
             open={deleteBoardOpen}
             onClose={() => setDeleteBoardOpen(false)}
@@ -83,7 +89,7 @@ export function Layout() {
               void navigate('/', { replace: true });
             }}
             boardName={currentBoard.name}
-            boardIndex={boardIndex}
+            boardId={currentBoard.id}
           />
         </>
       )}
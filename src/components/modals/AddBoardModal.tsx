@@ -6,7 +6,8 @@ import { Input } from '@components/ui/Input';
 import { RemovableInput } from '@components/ui/RemovableInput';
 import { useBoards } from '@/hooks/useBoards';
 import { useUi } from '@/hooks/useUi';
-import type { Board } from '@/types/types';
+import { generateBoardId, generateColumnId, type Board } from '@/types/types';
+import { getBoardPath } from '@/utils/boardUrls';
 
 type AddBoardModalProps = {
   open: boolean;
@@ -14,8 +15,8 @@ type AddBoardModalProps = {
 };
 
 export function AddBoardModal({ open, onClose }: AddBoardModalProps) {
-  const { boards, dispatch } = useBoards();
-  const { startLoading, stopLoading, showToast } = useUi();
+  const { dispatch } = useBoards();
+  const { showToast } = useUi();
   const navigate = useNavigate();
 
   const [name, setName] = useState('');
@@ -65,26 +66,24 @@ export function AddBoardModal({ open, onClose }: AddBoardModalProps) {
 
     setErrors({});
 
-    const newBoardIndex = boards.length;
-
     const newBoard: Board = {
+      id: generateBoardId(),
       name: trimmedName,
       columns: cleanedColumns.map((colName) => ({
+        id: generateColumnId(),
         name: colName,
         tasks: [],
       })),
     };
 
-    startLoading('addBoard');
     try {
       dispatch({
         type: 'ADD_BOARD',
         payload: newBoard,
       });
       showToast({ type: 'success', message: 'Board created' });
-      void navigate(`/board/${newBoardIndex}`);
+      void navigate(getBoardPath(newBoard));
     } finally {
-      stopLoading('addBoard');
       onClose();
       setName('');
       setColumns(['Todo', 'Doing']);
@@ -4,6 +4,7 @@ import { Button } from '@components/ui/Button';
 import { Input } from '@components/ui/Input';
 import { useBoards } from '@/hooks/useBoards';
 import { useUi } from '@/hooks/useUi';
+import { generateColumnId } from '@/types/types';
 
 type AddColumnModalProps = {
   open: boolean;
@@ -16,14 +17,15 @@ export function AddColumnModal({
   onClose,
   boardIndex,
 }: AddColumnModalProps) {
-  const { dispatch } = useBoards();
-  const { startLoading, stopLoading, showToast } = useUi();
+  const { boards, dispatch } = useBoards();
+  const { showToast } = useUi();
   const [name, setName] = useState('');
   const [error, setError] = useState<string | undefined>();
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (boardIndex === null || !name.trim()) {
+    const board = boardIndex !== null ? boards[boardIndex] : undefined;
+    if (!board || !name.trim()) {
       setError('Column name is required.');
       showToast({
         type: 'error',
@@ -33,19 +35,17 @@ export function AddColumnModal({
     }
 
     setError(undefined);
-    startLoading('addColumn');
     try {
       dispatch({
-        type: 'ADD_COLUMN',
+        type: 'ADD_COLUMN_BY_ID',
         payload: {
-          boardIndex,
-          columnName: name.trim(),
+          boardId: board.id,
+          column: { id: generateColumnId(), name: name.trim(), tasks: [] },
         },
       });
       showToast({ type: 'success', message: 'Column added' });
       setName('');
     } finally {
-      stopLoading('addColumn');
       onClose();
     }
   };
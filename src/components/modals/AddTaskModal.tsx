@@ -1,7 +1,9 @@
 import { Modal } from '@components/ui/Modal';
 import { useBoards } from '@/hooks/useBoards';
+import { useMembers } from '@/hooks/useMembers';
 import { useUi } from '@/hooks/useUi';
 import { generateTaskId, type Task } from '@/types/types';
+import { toTaskFields } from '@/utils/taskFields';
 import { TaskForm, type TaskFormValues } from './TaskForm';
 
 type AddTaskModalProps = {
@@ -17,11 +19,14 @@ export function AddTaskModal({
   columnOptions,
   boardIndex,
 }: AddTaskModalProps) {
-  const { dispatch } = useBoards();
-  const { startLoading, stopLoading, showToast } = useUi();
+  const { boards, dispatch } = useBoards();
+  const { members } = useMembers();
+  const { showToast } = useUi();
+
+  const board = boardIndex != null ? boards[boardIndex] : undefined;
 
   const handleSubmit = (values: TaskFormValues) => {
-    if (boardIndex == null) {
+    if (!board) {
       showToast({
         type: 'error',
         message: 'Could not determine which board to add the task to.',
@@ -31,6 +36,15 @@ export function AddTaskModal({
 
     const { title, description, status, subtasks } = values;
 
+    const column = board.columns.find((c) => c.name === status);
+    if (!column) {
+      showToast({
+        type: 'error',
+        message: 'Could not find the selected column on this board.',
+      });
+      return;
+    }
+
     const newTask: Task = {
       id: generateTaskId(),
       title: title.trim(),
@@ -39,17 +53,16 @@ export function AddTaskModal({
       subtasks: subtasks
         .filter((s) => s.length > 0)
         .map((s) => ({ title: s, isCompleted: false })),
+      ...toTaskFields(values),
     };
 
-    startLoading('addTask');
     try {
       dispatch({
-        type: 'ADD_TASK',
-        payload: { boardIndex, columnName: status, task: newTask },
+        type: 'ADD_TASK_BY_ID',
+        payload: { boardId: board.id, columnId: column.id, task: newTask },
       });
       showToast({ type: 'success', message: 'Task created' });
     } finally {
-      stopLoading('addTask');
       onClose();
     }
   };
@@ -64,8 +77,14 @@ export function AddTaskModal({
           description: '',
           status: columnOptions[0]?.value ?? '',
           subtasks: ['', ''],
+          priority: '',
+          dueDate: '',
+          labels: [],
+          assigneeIds: [],
         }}
         columns={columnOptions}
+        labelOptions={board?.labels}
+        memberOptions={members}
         onSubmit={handleSubmit}
       />
     </Modal>
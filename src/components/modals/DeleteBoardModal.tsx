@@ -1,14 +1,14 @@
 import { Modal } from '@components/ui/Modal';
 import { Button } from '@components/ui/Button';
-import { useBoards } from '@/hooks/useBoards';
 import { useUi } from '@/hooks/useUi';
+import { useUndoableDispatch } from '@/hooks/useUndoableDispatch';
 
 type DeleteBoardModalProps = {
   open: boolean;
   onClose: () => void;
   onConfirm: () => void;
   boardName: string;
-  boardIndex: number | null;
+  boardId: string | null;
 };
 
 export function DeleteBoardModal({
@@ -16,12 +16,12 @@ export function DeleteBoardModal({
   onClose,
   onConfirm,
   boardName,
-  boardIndex,
+  boardId,
 }: DeleteBoardModalProps) {
-  const { dispatch } = useBoards();
-  const { startLoading, stopLoading, showToast } = useUi();
+  const dispatchWithUndo = useUndoableDispatch();
+  const { showToast } = useUi();
   const handleConfirm = () => {
-    if (boardIndex == null) {
+    if (!boardId) {
       showToast({
         type: 'error',
         message: 'Could not delete board. Please try again.',
@@ -29,11 +29,12 @@ export function DeleteBoardModal({
       onClose();
       return;
     }
-    startLoading('deleteBoard');
     try {
-      dispatch({ type: 'DELETE_BOARD', payload: { boardIndex } });
+      dispatchWithUndo(
+        { type: 'DELETE_BOARD_BY_ID', payload: { boardId } },
+        'Board deleted'
+      );
       onConfirm();
-      showToast({ type: 'success', message: 'Board deleted' });
     } catch (error: unknown) {
       if (error instanceof Error) {
         showToast({
@@ -47,7 +48,6 @@ export function DeleteBoardModal({
         });
       }
     } finally {
-      stopLoading('deleteBoard');
       onClose();
     }
   };
@@ -66,7 +66,8 @@ export function DeleteBoardModal({
         }}
       >
         Are you sure you want to delete the &lsquo;{boardName}&rsquo; board?
-        This action will remove all columns and tasks and cannot be reversed.
+        This action will remove all columns and tasks. You can undo it with
+        Ctrl+Z.
       </p>
       <div className="app-modal-actions">
         <Button
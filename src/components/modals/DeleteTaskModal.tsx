@@ -1,28 +1,28 @@
 import { Modal } from '@components/ui/Modal';
 import { Button } from '@components/ui/Button';
-import { useBoards } from '@/hooks/useBoards';
 import { useUi } from '@/hooks/useUi';
+import { useUndoableDispatch } from '@/hooks/useUndoableDispatch';
 
 type DeleteTaskModalProps = {
   open: boolean;
   onClose: () => void;
   taskTitle: string;
-  boardIndex: number | null;
-  columnName: string | null;
+  boardId: string | null;
+  taskId: string | null;
 };
 
 export function DeleteTaskModal({
   open,
   onClose,
   taskTitle,
-  boardIndex,
-  columnName,
+  boardId,
+  taskId,
 }: DeleteTaskModalProps) {
-  const { dispatch } = useBoards();
-  const { startLoading, stopLoading, showToast } = useUi();
+  const dispatchWithUndo = useUndoableDispatch();
+  const { showToast } = useUi();
 
   const handleConfirm = () => {
-    if (boardIndex === null || !columnName || !taskTitle) {
+    if (!boardId || !taskId) {
       showToast({
         type: 'error',
         message: 'Could not delete task. Please try again.',
@@ -31,17 +31,11 @@ export function DeleteTaskModal({
       return;
     }
 
-    startLoading('deleteTask');
     try {
-      dispatch({
-        type: 'DELETE_TASK',
-        payload: {
-          boardIndex,
-          columnName,
-          taskTitle,
-        },
-      });
-      showToast({ type: 'success', message: 'Task deleted' });
+      dispatchWithUndo(
+        { type: 'DELETE_TASK_BY_ID', payload: { boardId, taskId } },
+        'Task deleted'
+      );
     } catch (error: unknown) {
       if (error instanceof Error) {
         showToast({
@@ -55,7 +49,6 @@ export function DeleteTaskModal({
         });
       }
     } finally {
-      stopLoading('deleteTask');
       onClose();
     }
   };
@@ -74,7 +67,7 @@ export function DeleteTaskModal({
         }}
       >
         Are you sure you want to delete the &lsquo;{taskTitle}&rsquo; task and
-        its subtasks? This action cannot be reversed.
+        its subtasks? You can undo this with Ctrl+Z.
       </p>
       <div className="app-modal-actions">
         <Button
@@ -1,44 +1,143 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { Modal } from '@components/ui/Modal';
 import { Button } from '@components/ui/Button';
+import { Dropdown } from '@components/ui/Dropdown';
 import { Input } from '@components/ui/Input';
 import { RemovableInput } from '@components/ui/RemovableInput';
-import { useBoards } from '@/hooks/useBoards';
 import { useUi } from '@/hooks/useUi';
-import type { Board } from '@/types/types';
+import { useStore } from '@/store/useStore';
+import { generateColumnId, type Board, type BoardsAction } from '@/types/types';
+import { getLabelColor } from '@/utils/boardLabels';
 
 type EditBoardModalProps = {
   open: boolean;
   onClose: () => void;
   boardName: string;
-  columnNames: string[];
   boardIndex: number | null;
   originalBoard: Board;
 };
 
+type ColumnDraft = { id: string; name: string; isNew: boolean };
+
+/** `originalName` is null for labels added in this edit. */
+type LabelDraft = {
+  key: string;
+  originalName: string | null;
+  name: string;
+  color: string;
+};
+
+/** Dropdown value for deleting a removed column's tasks instead of moving them. */
+const DELETE_TASKS = '';
+
+function plural(count: number, word: string) {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
 export function EditBoardModal({
   open,
   onClose,
   boardName: initialName,
-  columnNames: initialColumns,
   boardIndex,
   originalBoard,
 }: EditBoardModalProps) {
-  const { dispatch } = useBoards();
-  const { startLoading, stopLoading, showToast } = useUi();
+  const dispatch = useStore((state) => state.dispatch);
+  const { showToast } = useUi();
+  // `originalBoard` follows the store, so changes made in other tabs while
+  // the modal is open show up in it. The drafts start from this copy, and
+  // saving only applies what differs from it.
+  const [initialBoard] = useState(originalBoard);
   const [name, setName] = useState(initialName);
-  const [columns, setColumns] = useState(initialColumns);
+  const [columns, setColumns] = useState<ColumnDraft[]>(() =>
+    initialBoard.columns.map(({ id, name }) => ({ id, name, isNew: false }))
+  );
+  // Removed column id -> id of the column that takes its tasks, or
+  // DELETE_TASKS. Only removed columns that had tasks are listed.
+  const [relocations, setRelocations] = useState<Record<string, string>>({});
+  const [pendingRemoval, setPendingRemoval] = useState<{
+    id: string;
+    moveTo: string;
+  } | null>(null);
+  const [columnsError, setColumnsError] = useState<string>();
+  const [labels, setLabels] = useState<LabelDraft[]>(() =>
+    (initialBoard.labels ?? []).map((label) => ({
+      key: label.name,
+      originalName: label.name,
+      ...label,
+    }))
+  );
+  const newLabelCount = useRef(0);
+  const [labelsError, setLabelsError] = useState<string>();
 
-  const addColumn = () => setColumns((c) => [...c, '']);
-  const removeColumn = (i: number) =>
-    setColumns((c) => c.filter((_, idx) => idx !== i));
-  const updateColumn = (i: number, v: string) =>
+  const countTasks = (columnId: string): number => {
+    const own =
+      originalBoard.columns.find((c) => c.id === columnId)?.tasks.length ?? 0;
+    return Object.entries(relocations).reduce(
+      (count, [from, to]) =>
+        to === columnId ? count + countTasks(from) : count,
+      own
+    );
+  };
+
+  const addColumn = () =>
+    setColumns((c) => [
+      ...c,
+      { id: generateColumnId(), name: '', isNew: true },
+    ]);
+  const updateColumn = (id: string, value: string) =>
+    setColumns((c) =>
+      c.map((column) =>
+        column.id === id ? { ...column, name: value } : column
+      )
+    );
+  const moveColumn = (index: number, offset: number) =>
     setColumns((c) => {
       const next = [...c];
-      next[i] = v;
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
       return next;
     });
 
+  const addLabel = () =>
+    setLabels((l) => [
+      ...l,
+      {
+        key: `new-label-${newLabelCount.current++}`,
+        originalName: null,
+        name: '',
+        color: getLabelColor(l.length),
+      },
+    ]);
+  const updateLabel = (key: string, patch: Partial<LabelDraft>) =>
+    setLabels((l) =>
+      l.map((label) => (label.key === key ? { ...label, ...patch } : label))
+    );
+  const removeLabel = (key: string) =>
+    setLabels((l) => l.filter((label) => label.key !== key));
+
+  const removeColumn = (id: string, moveTo: string) => {
+    setColumns((c) => c.filter((column) => column.id !== id));
+    setRelocations((current) => {
+      const next: Record<string, string> = {};
+      // Tasks already headed for this column follow it to its destination.
+      for (const [from, to] of Object.entries(current)) {
+        next[from] = to === id ? moveTo : to;
+      }
+      if (countTasks(id) > 0) next[id] = moveTo;
+      return next;
+    });
+    setPendingRemoval(null);
+  };
+
+  const requestRemoval = (id: string) => {
+    if (countTasks(id) === 0) {
+      removeColumn(id, DELETE_TASKS);
+      return;
+    }
+    const firstOther = columns.find((c) => c.id !== id && c.name.trim());
+    setPendingRemoval({ id, moveTo: firstOther?.id ?? DELETE_TASKS });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -50,31 +149,174 @@ export function EditBoardModal({
       onClose();
       return;
     }
-    const cleanedColumns = columns
-      .map((c) => c.trim())
-      .filter((c) => c.length > 0);
-
-    const updatedColumns = cleanedColumns.map((colName) => {
-      const existing = originalBoard.columns.find((c) => c.name === colName);
-      return existing
-        ? { ...existing, name: colName }
-        : { name: colName, tasks: [] };
+
+    // Blank new columns are dropped, but columns holding tasks need a name.
+    const keptColumns = columns
+      .map((column) => ({ ...column, name: column.name.trim() }))
+      .filter((column) => column.name || countTasks(column.id) > 0);
+    if (keptColumns.some((column) => !column.name)) {
+      setColumnsError('Columns that hold tasks need a name.');
+      return;
+    }
+
+    // Blank new labels are dropped; renamed ones need a unique name.
+    const keptLabels = labels
+      .map((label) => ({ ...label, name: label.name.trim() }))
+      .filter((label) => label.name || label.originalName);
+    const labelKeys = keptLabels.map((label) => label.name.toLowerCase());
+    if (keptLabels.some((label) => !label.name)) {
+      setLabelsError('Labels need a name.');
+      return;
+    }
+    if (new Set(labelKeys).size !== labelKeys.length) {
+      setLabelsError('Label names must be unique.');
+      return;
+    }
+
+    const boardId = originalBoard.id;
+    const actions: BoardsAction[] = [];
+
+    const trimmedName = name.trim();
+    if (trimmedName && trimmedName !== initialBoard.name) {
+      actions.push({
+        type: 'RENAME_BOARD_BY_ID',
+        payload: { boardId, name: trimmedName },
+      });
+    }
+    for (const column of keptColumns) {
+      if (column.isNew) {
+        actions.push({
+          type: 'ADD_COLUMN_BY_ID',
+          payload: {
+            boardId,
+            column: { id: column.id, name: column.name, tasks: [] },
+          },
+        });
+        continue;
+      }
+      const original = initialBoard.columns.find((c) => c.id === column.id);
+      if (original && original.name !== column.name) {
+        actions.push({
+          type: 'RENAME_COLUMN_BY_ID',
+          payload: { boardId, columnId: column.id, name: column.name },
+        });
+      }
+    }
+
+    // Only delete the columns removed in the form; ones added elsewhere
+    // since it opened are not in the drafts.
+    const keptIds = new Set(keptColumns.map((column) => column.id));
+    const removedIds = new Set<string>();
+    for (const column of initialBoard.columns) {
+      if (keptIds.has(column.id)) continue;
+      removedIds.add(column.id);
+      const moveTasksTo = relocations[column.id];
+      actions.push({
+        type: 'DELETE_COLUMN_BY_ID',
+        payload: {
+          boardId,
+          columnId: column.id,
+          ...(moveTasksTo ? { moveTasksTo } : {}),
+        },
+      });
+    }
+
+    // As with columns, labels added elsewhere since it opened are kept.
+    const keptLabelNames = new Set(keptLabels.map((l) => l.originalName));
+    for (const label of initialBoard.labels ?? []) {
+      if (keptLabelNames.has(label.name)) continue;
+      actions.push({
+        type: 'DELETE_LABEL_BY_ID',
+        payload: { boardId, name: label.name },
+      });
+    }
+    // A rename onto a name another kept label still holds (swapping two
+    // names, say) would be refused, so it goes through a temporary name
+    // once the direct renames have freed the names they leave.
+    const heldNames = new Set(
+      keptLabels.flatMap((l) =>
+        l.originalName ? [l.originalName.toLowerCase()] : []
+      )
+    );
+    const takenNames = new Set([...heldNames, ...labelKeys]);
+    const renames: BoardsAction[] = [];
+    const additions: BoardsAction[] = [];
+    for (const { originalName, name, color } of keptLabels) {
+      const original = initialBoard.labels?.find(
+        (l) => l.name === originalName
+      );
+      if (!original) {
+        additions.push({
+          type: 'ADD_LABEL_BY_ID',
+          payload: { boardId, label: { name, color } },
+        });
+        continue;
+      }
+      if (original.name === name && original.color === color) continue;
+
+      const key = name.toLowerCase();
+      if (key === original.name.toLowerCase() || !heldNames.has(key)) {
+        actions.push({
+          type: 'UPDATE_LABEL_BY_ID',
+          payload: { boardId, name: original.name, label: { name, color } },
+        });
+        continue;
+      }
+      let temporary = `${original.name} (renaming)`;
+      for (let n = 2; takenNames.has(temporary.toLowerCase()); n++) {
+        temporary = `${original.name} (renaming ${n})`;
+      }
+      takenNames.add(temporary.toLowerCase());
+      actions.push({
+        type: 'UPDATE_LABEL_BY_ID',
+        payload: {
+          boardId,
+          name: original.name,
+          label: { name: temporary, color },
+        },
+      });
+      renames.push({
+        type: 'UPDATE_LABEL_BY_ID',
+        payload: { boardId, name: temporary, label: { name, color } },
+      });
+    }
+    actions.push(...renames, ...additions);
+
+    // New columns were appended, so walk the board into the drafted order.
+    // Columns added elsewhere keep their place among the drafted ones.
+    const order = [
+      ...originalBoard.columns
+        .filter((c) => !removedIds.has(c.id))
+        .map((c) => c.id),
+      ...keptColumns.filter((c) => c.isNew).map((c) => c.id),
+    ];
+    const drafted = keptColumns
+      .map((c) => c.id)
+      .filter((id) => order.includes(id));
+    const draftedIds = new Set(drafted);
+    let nextDrafted = 0;
+    const target = order.map((id) =>
+      draftedIds.has(id) ? drafted[nextDrafted++] : id
+    );
+    target.forEach((id, toIndex) => {
+      const fromIndex = order.indexOf(id);
+      if (fromIndex === toIndex) return;
+      order.splice(fromIndex, 1);
+      order.splice(toIndex, 0, id);
+      actions.push({
+        type: 'REORDER_COLUMN_BY_ID',
+        payload: { boardId, fromIndex, toIndex },
+      });
     });
 
-    const updatedBoard: Board = {
-      ...originalBoard,
-      name: name.trim() || originalBoard.name,
-      columns: updatedColumns,
-    };
-    startLoading('editBoard');
+    // One undo step reverts the whole edit.
+    const historyGroup = `edit-board:${boardId}:${Date.now()}`;
     try {
-      dispatch({
-        type: 'UPDATE_BOARD',
-        payload: { boardIndex, board: updatedBoard },
-      });
-      showToast({ type: 'success', message: 'Board updated' });
+      for (const action of actions) dispatch(action, { historyGroup });
+      if (actions.length > 0) {
+        showToast({ type: 'success', message: 'Board updated' });
+      }
     } finally {
-      stopLoading('editBoard');
       onClose();
     }
   };
@@ -99,16 +341,83 @@ export function EditBoardModal({
           >
             Board Columns
           </label>
-          {columns.map((val, i) => (
-            <RemovableInput
-              key={i}
-              id={`edit-board-column-${i}`}
-              value={val}
-              onChange={(v) => updateColumn(i, v)}
-              onRemove={() => removeColumn(i)}
-              placeholder="e.g. In Progress"
-            />
+          {columns.map((column, i) => (
+            <div key={column.id}>
+              <div className="app-column-draft">
+                <div className="app-column-draft-order">
+                  <button
+                    type="button"
+                    aria-label={`Move ${column.name || 'column'} up`}
+                    disabled={i === 0}
+                    onClick={() => moveColumn(i, -1)}
+                  >
+                    ▲
+                  </button>
+                  <button
+                    type="button"
+                    aria-label={`Move ${column.name || 'column'} down`}
+                    disabled={i === columns.length - 1}
+                    onClick={() => moveColumn(i, 1)}
+                  >
+                    ▼
+                  </button>
+                </div>
+                <RemovableInput
+                  id={`edit-board-column-${i}`}
+                  value={column.name}
+                  onChange={(v) => updateColumn(column.id, v)}
+                  onRemove={() => requestRemoval(column.id)}
+                  placeholder="e.g. In Progress"
+                />
+              </div>
+              {pendingRemoval?.id === column.id && (
+                <div
+                  className="app-column-removal"
+                  role="group"
+                  aria-label={`Remove ${column.name || 'column'}`}
+                >
+                  <p className="body-m">
+                    Move its {plural(countTasks(column.id), 'task')} to
+                  </p>
+                  <Dropdown
+                    options={[
+                      ...columns
+                        .filter((c) => c.id !== column.id && c.name.trim())
+                        .map((c) => ({ value: c.id, label: c.name.trim() })),
+                      { value: DELETE_TASKS, label: 'Delete the tasks' },
+                    ]}
+                    value={pendingRemoval.moveTo}
+                    onChange={(moveTo) =>
+                      setPendingRemoval({ ...pendingRemoval, moveTo })
+                    }
+                  />
+                  <div className="app-column-removal-actions">
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      onClick={() => setPendingRemoval(null)}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="destructive"
+                      onClick={() =>
+                        removeColumn(column.id, pendingRemoval.moveTo)
+                      }
+                    >
+                      Remove Column
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
           ))}
+          {columnsError && (
+            <span className="input-error-text" role="alert">
+              {columnsError}
+            </span>
+          )}
           <Button
             type="button"
             variant="secondary"
@@ -119,6 +428,48 @@ export function EditBoardModal({
             + Add New Column
           </Button>
         </div>
+        <div style={{ marginBottom: 24 }}>
+          <label
+            className="input-label"
+            style={{ display: 'block', marginBottom: 8 }}
+          >
+            Labels
+          </label>
+          {labels.map((label, i) => (
+            <div key={label.key} className="app-label-draft">
+              <input
+                type="color"
+                className="app-label-draft-color"
+                aria-label={`Color of ${label.name || 'label'}`}
+                value={label.color}
+                onChange={(e) =>
+                  updateLabel(label.key, { color: e.target.value })
+                }
+              />
+              <RemovableInput
+                id={`edit-board-label-${i}`}
+                value={label.name}
+                onChange={(name) => updateLabel(label.key, { name })}
+                onRemove={() => removeLabel(label.key)}
+                placeholder="e.g. Frontend"
+              />
+            </div>
+          ))}
+          {labelsError && (
+            <span className="input-error-text" role="alert">
+              {labelsError}
+            </span>
+          )}
+          <Button
+            type="button"
+            variant="secondary"
+            size="large"
+            onClick={addLabel}
+            style={{ width: '100%' }}
+          >
+            + Add New Label
+          </Button>
+        </div>
         <div className="app-modal-actions">
           <Button type="submit" variant="primary" size="large">
             Save Changes
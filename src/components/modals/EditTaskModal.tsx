@@ -1,52 +1,52 @@
 import { Modal } from '@components/ui/Modal';
 import { useBoards } from '@/hooks/useBoards';
+import { useMembers } from '@/hooks/useMembers';
 import { useUi } from '@/hooks/useUi';
 import type { Task } from '@/types/types';
+import { toTaskFields } from '@/utils/taskFields';
 import { TaskForm, type TaskFormValues } from './TaskForm';
 
 type EditTaskModalProps = {
   open: boolean;
   onClose: () => void;
   columnOptions: { value: string; label: string }[];
-  boardIndex: number | null;
-  columnName: string | null;
-  taskTitle: string | null;
+  boardId: string | null;
+  taskId: string | null;
 };
 
 export function EditTaskModal({
   open,
   onClose,
   columnOptions,
-  boardIndex,
-  columnName,
-  taskTitle,
+  boardId,
+  taskId,
 }: EditTaskModalProps) {
   const { boards, dispatch } = useBoards();
-  const { showToast, startLoading, stopLoading } = useUi();
+  const { members } = useMembers();
+  const { showToast } = useUi();
 
-  const board =
-    boardIndex !== null && boardIndex >= 0 ? boards[boardIndex] : null;
-  const column =
-    board && columnName
-      ? board.columns.find((c) => c.name === columnName)
-      : null;
-  const task =
-    column && taskTitle
-      ? column.tasks.find((t) => t.title === taskTitle)
-      : null;
+  const board = boardId ? boards.find((b) => b.id === boardId) : null;
+  const column = board?.columns.find((c) =>
+    c.tasks.some((t) => t.id === taskId)
+  );
+  const task = column?.tasks.find((t) => t.id === taskId);
 
   const effectiveColumnName =
-    columnName ?? task?.status ?? columnOptions[0]?.value ?? '';
+    column?.name ?? task?.status ?? columnOptions[0]?.value ?? '';
 
   const initialValues: TaskFormValues = {
     title: task?.title ?? '',
     description: task?.description ?? '',
     status: task?.status ?? effectiveColumnName,
     subtasks: task?.subtasks?.map((s) => s.title) ?? ['', ''],
+    priority: task?.priority ?? '',
+    dueDate: task?.dueDate ?? '',
+    labels: task?.labels ?? [],
+    assigneeIds: task?.assigneeIds ?? [],
   };
 
   const handleSubmit = (values: TaskFormValues) => {
-    if (boardIndex == null || !effectiveColumnName || !taskTitle || !task) {
+    if (!board || !task) {
       showToast({
         type: 'error',
         message: 'Could not update task. Please try again.',
@@ -69,22 +69,20 @@ export function EditTaskModal({
             task.subtasks?.find((subtask) => subtask.title === s)
               ?.isCompleted ?? false,
         })),
+      ...toTaskFields(values),
     };
 
-    startLoading('editTask');
     try {
       dispatch({
-        type: 'UPDATE_TASK',
+        type: 'UPDATE_TASK_BY_ID',
         payload: {
-          boardIndex,
-          columnName: effectiveColumnName,
-          taskTitle,
+          boardId: board.id,
+          taskId: task.id,
           task: updatedTask,
         },
       });
       showToast({ type: 'success', message: 'Task changes saved' });
     } finally {
-      stopLoading('editTask');
       onClose();
     }
   };
@@ -96,6 +94,8 @@ export function EditTaskModal({
         mode="edit"
         initialValues={initialValues}
         columns={columnOptions}
+        labelOptions={board?.labels}
+        memberOptions={members}
         onSubmit={handleSubmit}
       />
     </Modal>
@@ -0,0 +1,54 @@
+import { Modal } from '@components/ui/Modal';
+import { Button } from '@components/ui/Button';
+import { useResetBoards } from '@/hooks/useResetBoards';
+
+type ResetBoardsModalProps = {
+  open: boolean;
+  onClose: () => void;
+};
+
+export function ResetBoardsModal({ open, onClose }: ResetBoardsModalProps) {
+  const resetBoards = useResetBoards();
+
+  const handleConfirm = () => {
+    onClose();
+    void resetBoards();
+  };
+
+  return (
+    <Modal open={open} onClose={onClose} aria-label="Reset boards">
+      <h2 className="app-modal-title app-modal-delete-title">
+        Reset to sample data?
+      </h2>
+      <p
+        className="body-l"
+        style={{
+          color: 'var(--text-muted)',
+          margin: '0 0 24px 0',
+          lineHeight: 1.6,
+        }}
+      >
+        All of your boards, columns and tasks will be replaced with the sample
+        boards. This action cannot be undone.
+      </p>
+      <div className="app-modal-actions">
+        <Button
+          type="button"
+          variant="destructive"
+          size="large"
+          onClick={handleConfirm}
+        >
+          Reset
+        </Button>
+        <Button
+          type="button"
+          variant="secondary"
+          size="large"
+          onClick={onClose}
+        >
+          Cancel
+        </Button>
+      </div>
+    </Modal>
+  );
+}
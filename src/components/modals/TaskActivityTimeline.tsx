@@ -0,0 +1,71 @@
+import { Avatar } from '@components/ui/Avatar';
+import { useMembers } from '@/hooks/useMembers';
+import { useTaskActivity } from '@/hooks/useTaskActivity';
+import type { TaskActivityChange } from '@/types/types';
+import { getMemberDisplayName } from '@/utils/members';
+import {
+  describeTaskActivityKind,
+  describeTaskChange,
+} from '@/utils/taskActivity';
+import { formatTimestamp } from '@/utils/timestamps';
+
+/** The old and new text of a description change. */
+function DescriptionDiff({ change }: { change: TaskActivityChange }) {
+  if (change.field !== 'description') return null;
+  return (
+    <div className="app-activity-diff">
+      {change.before && <del>{change.before}</del>}
+      {change.after && <ins>{change.after}</ins>}
+    </div>
+  );
+}
+
+/** Who changed the task and how, newest first. */
+export function TaskActivityTimeline({ taskId }: { taskId: string }) {
+  const entries = useTaskActivity(taskId);
+  const { members } = useMembers();
+
+  const memberName = (id: string) => {
+    const member = members.find((m) => m.id === id);
+    return member ? getMemberDisplayName(member) : 'a former member';
+  };
+
+  if (entries.length === 0) {
+    return <p className="body-m">No activity recorded for this task yet.</p>;
+  }
+
+  return (
+    <ol className="app-activity-timeline">
+      {entries.map((entry) => {
+        const actor = entry.actor?.name || 'Someone';
+        return (
+          <li key={entry.id} className="app-activity-entry">
+            <span aria-hidden>
+              <Avatar name={actor} size={24} />
+            </span>
+            <div className="app-activity-main">
+              {entry.changes.length === 0 ? (
+                <p>
+                  <strong>{actor}</strong> {describeTaskActivityKind(entry)}
+                </p>
+              ) : (
+                entry.changes.map((change) => (
+                  <div key={change.field}>
+                    <p>
+                      <strong>{actor}</strong>{' '}
+                      {describeTaskChange(change, memberName)}
+                    </p>
+                    <DescriptionDiff change={change} />
+                  </div>
+                ))
+              )}
+              <time dateTime={entry.at} className="app-activity-time">
+                {formatTimestamp(entry.at)}
+              </time>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
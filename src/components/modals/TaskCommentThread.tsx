@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { Avatar } from '@components/ui/Avatar';
+import { Button } from '@components/ui/Button';
+import { useAuth } from '@/hooks/useAuth';
+import { useBoards } from '@/hooks/useBoards';
+import type { TaskComment } from '@/types/types';
+import { createComment } from '@/utils/taskComments';
+import { formatTimestamp } from '@/utils/timestamps';
+
+const MAX_COMMENT_LENGTH = 1000;
+
+type TaskCommentThreadProps = {
+  boardId: string;
+  taskId: string;
+  comments: TaskComment[];
+};
+
+/**
+ * The discussion on a task, oldest first. Anyone logged in can comment;
+ * only the author can edit or delete a comment.
+ */
+export function TaskCommentThread({
+  boardId,
+  taskId,
+  comments,
+}: TaskCommentThreadProps) {
+  const { user } = useAuth();
+  const { dispatch } = useBoards();
+  const [draft, setDraft] = useState('');
+  const [editing, setEditing] = useState<{ id: string; body: string } | null>(
+    null
+  );
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!user || !draft.trim()) return;
+    dispatch({
+      type: 'ADD_COMMENT_BY_ID',
+      payload: { boardId, taskId, comment: createComment(user, draft) },
+    });
+    setDraft('');
+  };
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!editing?.body.trim()) return;
+    dispatch({
+      type: 'UPDATE_COMMENT_BY_ID',
+      payload: {
+        boardId,
+        taskId,
+        commentId: editing.id,
+        body: editing.body.trim(),
+        editedAt: new Date().toISOString(),
+      },
+    });
+    setEditing(null);
+  };
+
+  const handleDelete = (commentId: string) => {
+    dispatch({
+      type: 'DELETE_COMMENT_BY_ID',
+      payload: { boardId, taskId, commentId },
+    });
+  };
+
+  return (
+    <section className="app-task-comments" aria-label="Comments">
+      <h3 className="input-label">Comments ({comments.length})</h3>
+      {comments.length > 0 && (
+        <ol className="app-task-comment-list">
+          {comments.map((comment) => {
+            const own = comment.authorId === user?.id;
+            return (
+              <li key={comment.id} className="app-task-comment">
+                <span aria-hidden>
+                  <Avatar name={comment.authorName} size={28} />
+                </span>
+                <div className="app-task-comment-main">
+                  <p className="app-task-comment-meta">
+                    <strong>{comment.authorName}</strong>{' '}
+                    <time dateTime={comment.createdAt}>
+                      {formatTimestamp(comment.createdAt)}
+                    </time>
+                    {comment.editedAt && ' (edited)'}
+                  </p>
+                  {editing?.id === comment.id ? (
+                    <form onSubmit={handleSave}>
+                      <textarea
+                        className="input"
+                        aria-label="Edit comment"
+                        value={editing.body}
+                        maxLength={MAX_COMMENT_LENGTH}
+                        onChange={(e) =>
+                          setEditing({ ...editing, body: e.target.value })
+                        }
+                        rows={2}
+                        autoFocus
+                      />
+                      <div className="app-task-comment-actions">
+                        <Button
+                          type="submit"
+                          variant="primary"
+                          size="small"
+                          disabled={!editing.body.trim()}
+                        >
+                          Save
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="secondary"
+                          size="small"
+                          onClick={() => setEditing(null)}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    </form>
+                  ) : (
+                    <p className="app-task-comment-body">{comment.body}</p>
+                  )}
+                  {own && editing?.id !== comment.id && (
+                    <div className="app-task-comment-actions">
+                      <button
+                        type="button"
+                        className="app-task-comment-action"
+                        onClick={() =>
+                          setEditing({ id: comment.id, body: comment.body })
+                        }
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        className="app-task-comment-action app-task-comment-action-destructive"
+                        onClick={() => handleDelete(comment.id)}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+      {user ? (
+        <form onSubmit={handleAdd} className="app-task-comment-form">
+          <textarea
+            className="input"
+            aria-label="Add a comment"
+            placeholder="Write a comment…"
+            value={draft}
+            maxLength={MAX_COMMENT_LENGTH}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={2}
+          />
+          <Button
+            type="submit"
+            variant="secondary"
+            size="small"
+            disabled={!draft.trim()}
+          >
+            Comment
+          </Button>
+        </form>
+      ) : (
+        <p className="body-m">Log in to comment.</p>
+      )}
+    </section>
+  );
+}
@@ -1,46 +1,67 @@
 import { useBoards } from '@/hooks/useBoards';
 import { useClickOutside } from '@/hooks/useClickOutside';
+import { useMembers } from '@/hooks/useMembers';
 import type { TaskDetailsModalProps } from '@/types/types';
 import { Modal } from '../ui/Modal';
 import { Checkbox } from '../ui/Checkbox';
-import { useState, useRef } from 'react';
+import { Avatar } from '../ui/Avatar';
+import { useState, useRef, type KeyboardEvent } from 'react';
 import iconEllipsis from '@assets/icon-vertical-ellipsis.svg';
 import { EditTaskModal } from './EditTaskModal';
 import { DeleteTaskModal } from './DeleteTaskModal';
+import { TaskActivityTimeline } from './TaskActivityTimeline';
+import { TaskCommentThread } from './TaskCommentThread';
+import { getTaskLabels } from '@/utils/boardLabels';
+import {
+  getMemberDisplayName,
+  getMemberInitial,
+  getTaskAssignees,
+} from '@/utils/members';
+import { PRIORITY_LABELS, formatDueDate, isOverdue } from '@/utils/taskFields';
+
+const TASK_TABS = [
+  { id: 'details', label: 'Details' },
+  { id: 'activity', label: 'Activity' },
+] as const;
+
+type TaskTab = (typeof TASK_TABS)[number]['id'];
 
 export function TaskDetailsModal({
   open,
   onClose,
   boardIndex,
-  columnName,
-  taskTitle,
+  taskId,
 }: TaskDetailsModalProps) {
   const { boards, dispatch } = useBoards();
+  const { members } = useMembers();
   const [menuOpen, setMenuOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState<TaskTab>('details');
 
   useClickOutside(menuRef, () => setMenuOpen(false), menuOpen);
 
   const board = boardIndex !== null ? boards[boardIndex] : null;
-  const column = board?.columns.find((c) => c.name === columnName);
-  const task = column?.tasks.find((t) => t.title === taskTitle);
+  const column = board?.columns.find((c) =>
+    c.tasks.some((t) => t.id === taskId)
+  );
+  const task = column?.tasks.find((t) => t.id === taskId);
 
-  if (!task || boardIndex === null || !columnName || !taskTitle) return null;
+  if (!board || !column || !task) return null;
 
   const completedSubtasks =
     task.subtasks?.filter((s) => s.isCompleted).length ?? 0;
   const totalSubtasks = task.subtasks?.length ?? 0;
+  const assignees = getTaskAssignees(members, task);
 
-  const handleSubtaskToggle = (subtaskTitle: string) => {
+  const handleSubtaskToggle = (subtaskIndex: number) => {
     dispatch({
-      type: 'TOGGLE_SUBTASK',
+      type: 'TOGGLE_SUBTASK_BY_ID',
       payload: {
-        boardIndex,
-        columnName,
-        taskTitle,
-        subtaskTitle,
+        boardId: board.id,
+        taskId: task.id,
+        subtaskIndex,
       },
     });
   };
@@ -50,6 +71,17 @@ export function TaskDetailsModal({
     setIsDeleteOpen(true);
   };
 
+  // Arrow keys move between tabs, as in the WAI-ARIA tabs pattern.
+  const handleTabKeyDown = (event: KeyboardEvent<HTMLButtonElement>) => {
+    if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+    const index = TASK_TABS.findIndex((tab) => tab.id === activeTab);
+    const step = event.key === 'ArrowRight' ? 1 : -1;
+    const next =
+      TASK_TABS[(index + step + TASK_TABS.length) % TASK_TABS.length];
+    setActiveTab(next.id);
+    document.getElementById(`task-tab-${next.id}`)?.focus();
+  };
+
   const handleDeleteConfirmed = () => {
     setIsDeleteOpen(false);
     onClose();
@@ -99,58 +131,171 @@ export function TaskDetailsModal({
           </div>
         </div>
 
-        {task.description && (
-          <p className="app-task-details-description">{task.description}</p>
-        )}
-
-        {task.subtasks && task.subtasks.length > 0 && (
-          <div style={{ marginBottom: 24 }}>
-            <label
-              className="input-label"
-              style={{ display: 'block', marginBottom: 16 }}
+        <div role="tablist" aria-label="Task views" className="app-task-tabs">
+          {TASK_TABS.map((tab) => (
+            <button
+              key={tab.id}
+              type="button"
+              role="tab"
+              id={`task-tab-${tab.id}`}
+              aria-selected={activeTab === tab.id}
+              aria-controls={`task-panel-${tab.id}`}
+              tabIndex={activeTab === tab.id ? 0 : -1}
+              className="app-task-tab"
+              onClick={() => setActiveTab(tab.id)}
+              onKeyDown={handleTabKeyDown}
             >
-              Subtasks ({completedSubtasks} of {totalSubtasks})
-            </label>
-            <div className="app-task-details-subtasks">
-              {task.subtasks.map((subtask) => (
-                <Checkbox
-                  key={subtask.title}
-                  label={subtask.title}
-                  checked={subtask.isCompleted}
-                  onCheckedChange={() => handleSubtaskToggle(subtask.title)}
-                />
-              ))}
-            </div>
-          </div>
-        )}
+              {tab.label}
+            </button>
+          ))}
+        </div>
 
-        <div className="input-wrap">
-          <label className="input-label">Current Status</label>
-          <div className="app-task-details-status">
-            {task.status || columnName}
-          </div>
+        <div
+          role="tabpanel"
+          id={`task-panel-${activeTab}`}
+          aria-labelledby={`task-tab-${activeTab}`}
+        >
+          {activeTab === 'details' ? (
+            <>
+              {task.description && (
+                <p className="app-task-details-description">
+                  {task.description}
+                </p>
+              )}
+
+              {task.subtasks && task.subtasks.length > 0 && (
+                <div style={{ marginBottom: 24 }}>
+                  <label
+                    className="input-label"
+                    style={{ display: 'block', marginBottom: 16 }}
+                  >
+                    Subtasks ({completedSubtasks} of {totalSubtasks})
+                  </label>
+                  <div className="app-task-details-subtasks">
+                    {task.subtasks.map((subtask, index) => (
+                      <Checkbox
+                        key={index}
+                        label={subtask.title}
+                        checked={subtask.isCompleted}
+                        onCheckedChange={() => handleSubtaskToggle(index)}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {(!!task.priority ||
+                !!task.dueDate ||
+                !!task.labels?.length ||
+                assignees.length > 0) && (
+                <dl className="app-task-details-fields">
+                  {task.priority && (
+                    <div>
+                      <dt className="input-label">Priority</dt>
+                      <dd>
+                        <span
+                          className="app-task-badge"
+                          data-priority={task.priority}
+                        >
+                          {PRIORITY_LABELS[task.priority]}
+                        </span>
+                      </dd>
+                    </div>
+                  )}
+                  {task.dueDate && (
+                    <div>
+                      <dt className="input-label">Due date</dt>
+                      <dd>
+                        <span
+                          className="app-task-badge"
+                          data-overdue={isOverdue(task.dueDate) || undefined}
+                        >
+                          <time dateTime={task.dueDate}>
+                            {formatDueDate(task.dueDate)}
+                          </time>
+                          {isOverdue(task.dueDate) && ' · Overdue'}
+                        </span>
+                      </dd>
+                    </div>
+                  )}
+                  {!!task.labels?.length && (
+                    <div>
+                      <dt className="input-label">Labels</dt>
+                      <dd>
+                        {getTaskLabels(board, task).map((label) => (
+                          <span
+                            key={label.name}
+                            className="app-task-badge app-task-label"
+                          >
+                            <span
+                              className="label-dot"
+                              style={{ backgroundColor: label.color }}
+                              aria-hidden
+                            />
+                            {label.name}
+                          </span>
+                        ))}
+                      </dd>
+                    </div>
+                  )}
+                  {assignees.length > 0 && (
+                    <div>
+                      <dt className="input-label">Assignees</dt>
+                      <dd>
+                        {assignees.map((member) => (
+                          <span key={member.id} className="app-task-assignee">
+                            <span aria-hidden>
+                              <Avatar
+                                name={getMemberDisplayName(member)}
+                                initials={getMemberInitial(member)}
+                                size={24}
+                              />
+                            </span>
+                            {getMemberDisplayName(member)}
+                          </span>
+                        ))}
+                      </dd>
+                    </div>
+                  )}
+                </dl>
+              )}
+
+              <div className="input-wrap">
+                <label className="input-label">Current Status</label>
+                <div className="app-task-details-status">
+                  {task.status || column.name}
+                </div>
+              </div>
+
+              <TaskCommentThread
+                boardId={board.id}
+                taskId={task.id}
+                comments={task.comments ?? []}
+              />
+            </>
+          ) : (
+            <TaskActivityTimeline taskId={task.id} />
+          )}
         </div>
       </Modal>
 
       <EditTaskModal
         open={isEditOpen}
         onClose={() => setIsEditOpen(false)}
-        columnOptions={
-          board
-            ? board.columns.map((c) => ({ value: c.name, label: c.name }))
-            : []
-        }
-        boardIndex={boardIndex}
-        columnName={columnName}
-        taskTitle={taskTitle}
+        columnOptions={board.columns.map((c) => ({
+          value: c.name,
+          label: c.name,
+        }))}
+        boardId={board.id}
+        taskId={task.id}
       />
 
       <DeleteTaskModal
         open={isDeleteOpen}
         onClose={handleDeleteConfirmed}
-        taskTitle={taskTitle}
-        boardIndex={boardIndex}
-        columnName={columnName}
+        taskTitle={task.title}
+        boardId={board.id}
+        taskId={task.id}
       />
     </>
   );
@@ -2,13 +2,28 @@ import { useState } from 'react';
 import { Button } from '@components/ui/Button';
 import { Dropdown } from '@components/ui/Dropdown';
 import { Input } from '@components/ui/Input';
+import { LabelInput } from '@components/ui/LabelInput';
+import { MemberPicker } from '@components/ui/MemberPicker';
 import { RemovableInput } from '@components/ui/RemovableInput';
+import type { BoardLabel, Member, TaskPriority } from '@/types/types';
+import {
+  PRIORITY_LABELS,
+  TASK_PRIORITIES,
+  isDueDate,
+} from '@/utils/taskFields';
 
 export type TaskFormValues = {
   title: string;
   description: string;
   status: string;
   subtasks: string[];
+  /** Empty when the task has no priority. */
+  priority: TaskPriority | '';
+  /** `YYYY-MM-DD`, or empty for no due date. */
+  dueDate: string;
+  labels: string[];
+  /** Ids of the assigned workspace members. */
+  assigneeIds: string[];
 };
 
 type TaskFormErrors = {
@@ -16,15 +31,25 @@ type TaskFormErrors = {
   description?: string;
   status?: string;
   subtasks?: string[];
+  dueDate?: string;
   form?: string;
 };
 
+const PRIORITY_OPTIONS = [
+  { value: '', label: 'None' },
+  ...TASK_PRIORITIES.map((p) => ({ value: p, label: PRIORITY_LABELS[p] })),
+];
+
 type ColumnOption = { value: string; label: string };
 
 type TaskFormProps = {
   mode: 'create' | 'edit';
   initialValues: TaskFormValues;
   columns: ColumnOption[];
+  /** The board's label catalog, which labels are picked from. */
+  labelOptions?: BoardLabel[];
+  /** The workspace members the task can be assigned to. */
+  memberOptions?: Member[];
   onSubmit: (values: TaskFormValues) => void;
   onCancel?: () => void;
   isSubmitting?: boolean;
@@ -51,6 +76,10 @@ function validateTaskForm(
     errors.description = `Description must be ${MAX_DESCRIPTION_LENGTH} characters or fewer.`;
   }
 
+  if (values.dueDate && !isDueDate(values.dueDate)) {
+    errors.dueDate = 'Please enter a valid date.';
+  }
+
   const columnValues = new Set(columns.map((c) => c.value));
   if (!values.status) {
     errors.status = 'Status is required.';
@@ -65,6 +94,8 @@ export function TaskForm({
   mode,
   initialValues,
   columns,
+  labelOptions = [],
+  memberOptions = [],
   onSubmit,
   onCancel,
   isSubmitting = false,
@@ -73,7 +104,7 @@ export function TaskForm({
   const [errors, setErrors] = useState<TaskFormErrors>({});
 
   const handleChange =
-    (field: keyof TaskFormValues) =>
+    (field: 'title' | 'description' | 'dueDate') =>
     (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
       const nextValue = event.target.value;
       setValues((prev) => ({ ...prev, [field]: nextValue }));
@@ -102,6 +133,21 @@ export function TaskForm({
     setValues((prev) => ({ ...prev, status: nextStatus }));
   };
 
+  const handlePriorityChange = (nextPriority: string) => {
+    setValues((prev) => ({
+      ...prev,
+      priority: nextPriority as TaskFormValues['priority'],
+    }));
+  };
+
+  const handleLabelsChange = (labels: string[]) => {
+    setValues((prev) => ({ ...prev, labels }));
+  };
+
+  const handleAssigneesChange = (assigneeIds: string[]) => {
+    setValues((prev) => ({ ...prev, assigneeIds }));
+  };
+
   const handleSubmit = (event: React.FormEvent) => {
     event.preventDefault();
     const validationErrors = validateTaskForm(values, columns);
@@ -218,6 +264,50 @@ export function TaskForm({
         </Button>
       </div>
 
+      <div className="app-task-form-row" style={{ marginBottom: 16 }}>
+        <div className="input-wrap">
+          <label className="input-label">Priority</label>
+          <Dropdown
+            options={PRIORITY_OPTIONS}
+            value={values.priority}
+            onChange={handlePriorityChange}
+          />
+        </div>
+        <Input
+          id="task-due-date"
+          type="date"
+          label="Due date"
+          value={values.dueDate}
+          onChange={handleChange('dueDate')}
+          error={errors.dueDate}
+        />
+      </div>
+
+      <div className="input-wrap" style={{ marginBottom: 16 }}>
+        <label className="input-label" htmlFor="task-labels">
+          Labels
+        </label>
+        <LabelInput
+          id="task-labels"
+          value={values.labels}
+          options={labelOptions}
+          onChange={handleLabelsChange}
+          placeholder="Type to search labels"
+        />
+      </div>
+
+      <div className="input-wrap" style={{ marginBottom: 16 }}>
+        <label className="input-label" htmlFor="task-assignees">
+          Assignees
+        </label>
+        <MemberPicker
+          id="task-assignees"
+          value={values.assigneeIds}
+          options={memberOptions}
+          onChange={handleAssigneesChange}
+        />
+      </div>
+
       <div className="input-wrap" style={{ marginBottom: 24 }}>
         <label className="input-label">Status</label>
         <Dropdown
@@ -0,0 +1,28 @@
+import { getInitials } from '@utils/initials';
+
+type AvatarProps = {
+  name: string;
+  /** Defaults to the initials of `name`. */
+  initials?: string;
+  size?: number;
+  title?: string;
+};
+
+export function Avatar({
+  name,
+  initials = getInitials(name),
+  size = 28,
+  title,
+}: AvatarProps) {
+  return (
+    <span
+      className="app-avatar"
+      title={title ?? name}
+      aria-label={name}
+      role="img"
+      style={{ width: size, height: size, fontSize: size * 0.4 }}
+    >
+      {initials}
+    </span>
+  );
+}
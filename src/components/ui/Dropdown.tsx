@@ -4,6 +4,8 @@ import iconChevronDown from '@assets/icon-chevron-down.svg';
 type DropdownOption = { value: string; label: string };
 
 type DropdownProps = {
+  /** Set on the trigger button, so a `<label htmlFor>` can name it. */
+  id?: string;
   options: DropdownOption[];
   value: string;
   onChange: (value: string) => void;
@@ -12,6 +14,7 @@ type DropdownProps = {
 };
 
 export function Dropdown({
+  id,
   options,
   value,
   onChange,
@@ -37,6 +40,7 @@ export function Dropdown({
   return (
     <div ref={ref} className={`dropdown ${className}`}>
       <button
+        id={id}
         type="button"
         onClick={() => setIsOpen(!isOpen)}
         className={`dropdown-trigger ${isOpen ? 'open' : ''}`}
@@ -0,0 +1,150 @@
+import { useId, useState, type KeyboardEvent } from 'react';
+import type { BoardLabel } from '@/types/types';
+import { findLabel } from '@/utils/boardLabels';
+
+type LabelInputProps = {
+  id?: string;
+  value: string[];
+  /** The labels that can be picked. */
+  options: BoardLabel[];
+  onChange: (labels: string[]) => void;
+  placeholder?: string;
+};
+
+/**
+ * Removable label chips plus a typeahead for adding labels from `options`.
+ * Arrow keys move through the matches, Enter picks one, and Backspace in the
+ * empty field removes the last chip. Text that matches no option is dropped.
+ */
+export function LabelInput({
+  id,
+  value,
+  options,
+  onChange,
+  placeholder,
+}: LabelInputProps) {
+  const listId = useId();
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const search = query.trim().toLowerCase();
+  const matches = options.filter(
+    (option) =>
+      !value.includes(option.name) && option.name.toLowerCase().includes(search)
+  );
+  const active = matches[Math.min(activeIndex, matches.length - 1)];
+
+  const pick = (label: BoardLabel) => {
+    onChange([...value, label.name]);
+    setQuery('');
+    setActiveIndex(0);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        event.preventDefault();
+        setOpen(true);
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex(
+          (index) =>
+            (index + step + matches.length) % Math.max(matches.length, 1)
+        );
+        break;
+      }
+      case 'Enter':
+        event.preventDefault();
+        if (open && active) pick(active);
+        break;
+      case 'Escape':
+        if (open) {
+          // Close the suggestions without closing the surrounding modal.
+          event.stopPropagation();
+          setOpen(false);
+        }
+        break;
+      case 'Backspace':
+        if (!query && value.length > 0) onChange(value.slice(0, -1));
+        break;
+    }
+  };
+
+  return (
+    <div className="input label-input">
+      {value.map((name) => (
+        <span key={name} className="label-chip">
+          <span
+            className="label-dot"
+            style={{ backgroundColor: findLabel(options, name)?.color }}
+            aria-hidden
+          />
+          {name}
+          <button
+            type="button"
+            className="label-chip-remove"
+            aria-label={`Remove label ${name}`}
+            onClick={() => onChange(value.filter((n) => n !== name))}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <input
+        id={id}
+        className="label-input-field"
+        role="combobox"
+        aria-expanded={open}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={
+          open && active ? `${listId}-${active.name}` : undefined
+        }
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+          setOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setOpen(true)}
+        onBlur={() => {
+          setOpen(false);
+          setQuery('');
+        }}
+        placeholder={value.length === 0 ? placeholder : undefined}
+      />
+      {open && (
+        <ul id={listId} role="listbox" className="dropdown-list label-options">
+          {matches.map((option) => (
+            <li
+              key={option.name}
+              id={`${listId}-${option.name}`}
+              role="option"
+              aria-selected={option === active}
+              className={`dropdown-option ${option === active ? 'selected' : ''}`}
+              // Keep focus in the field so the list stays open.
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(option)}
+            >
+              <span
+                className="label-dot"
+                style={{ backgroundColor: option.color }}
+                aria-hidden
+              />
+              {option.name}
+            </li>
+          ))}
+          {matches.length === 0 && (
+            <li className="label-options-empty">
+              {options.length === 0
+                ? 'This board has no labels yet. Add them in Edit Board.'
+                : 'No matching labels'}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
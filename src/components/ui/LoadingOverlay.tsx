@@ -1,9 +1,11 @@
 import { useUi } from '@hooks/useUi';
+import { isBackgroundLoadingKey } from '@utils/loadingKeys';
 
 export function LoadingOverlay() {
   const { state } = useUi();
 
-  if (state.loadingKeys.length === 0) return null;
+  // Background work shows its own inline indicator instead of blocking.
+  if (state.loadingKeys.every(isBackgroundLoadingKey)) return null;
 
   return (
     <div
@@ -0,0 +1,66 @@
+import type { Member } from '@/types/types';
+import { Avatar } from '@components/ui/Avatar';
+import { getMemberDisplayName, getMemberInitial } from '@/utils/members';
+
+type MemberPickerProps = {
+  id?: string;
+  /** Ids of the picked members. */
+  value: string[];
+  options: Member[];
+  onChange: (ids: string[]) => void;
+};
+
+/**
+ * One toggle button per workspace member; any number can be picked. Ids
+ * stay in the order they were picked.
+ */
+export function MemberPicker({
+  id,
+  value,
+  options,
+  onChange,
+}: MemberPickerProps) {
+  const toggle = (memberId: string) => {
+    onChange(
+      value.includes(memberId)
+        ? value.filter((v) => v !== memberId)
+        : [...value, memberId]
+    );
+  };
+
+  if (options.length === 0) {
+    return (
+      <p id={id} className="body-m member-picker-empty">
+        No workspace members yet. Add them on the Admin page.
+      </p>
+    );
+  }
+
+  return (
+    <div id={id} role="group" aria-label="Assignees" className="member-picker">
+      {options.map((member) => {
+        const name = getMemberDisplayName(member);
+        const picked = value.includes(member.id);
+        return (
+          <button
+            key={member.id}
+            type="button"
+            className="member-picker-option"
+            aria-pressed={picked}
+            onClick={() => toggle(member.id)}
+          >
+            {/* The name is written out next to it. */}
+            <span aria-hidden>
+              <Avatar
+                name={name}
+                initials={getMemberInitial(member)}
+                size={24}
+              />
+            </span>
+            {name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
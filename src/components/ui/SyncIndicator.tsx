@@ -0,0 +1,52 @@
+import { useUi } from '@hooks/useUi';
+import { useStore } from '@store/useStore';
+import { isBackgroundLoadingKey } from '@utils/loadingKeys';
+
+export function SyncIndicator() {
+  const { state } = useUi();
+  const pending = useStore((s) => s.outbox.length);
+  const offline = useStore((s) => s.offline);
+  const saving = !offline && state.loadingKeys.some(isBackgroundLoadingKey);
+
+  // Queued changes are counted online too: they may be waiting for a retry.
+  const parts: string[] = [];
+  if (offline) parts.push('Offline');
+  else if (saving) parts.push('Saving…');
+  if (pending > 0) {
+    parts.push(`${pending} pending change${pending !== 1 ? 's' : ''}`);
+  }
+  const label = parts.join(' · ');
+
+  return (
+    <span
+      role="status"
+      aria-live="polite"
+      className="body-m"
+      title={
+        offline ? 'Offline. Changes will sync when you reconnect.' : undefined
+      }
+      style={{
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: 6,
+        color: 'var(--text-secondary)',
+        visibility: label ? 'visible' : 'hidden',
+      }}
+    >
+      {saving && (
+        <span
+          aria-hidden
+          style={{
+            width: 12,
+            height: 12,
+            borderRadius: '999px',
+            border: '2px solid var(--lines)',
+            borderTopColor: 'var(--accent, var(--primary, #635FC7))',
+            animation: 'app-spinner 0.8s linear infinite',
+          }}
+        />
+      )}
+      {label}
+    </span>
+  );
+}
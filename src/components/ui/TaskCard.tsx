@@ -1,16 +1,86 @@
 import { forwardRef, type HTMLAttributes } from 'react';
+import type { BoardLabel, Member, Task } from '@/types/types';
+import { Avatar } from '@components/ui/Avatar';
+import { getMemberDisplayName, getMemberInitial } from '@/utils/members';
+import { PRIORITY_LABELS, formatDueDate, isOverdue } from '@/utils/taskFields';
 
-type TaskCardProps = HTMLAttributes<HTMLLIElement> & {
-  title: string;
-  subtitle: string;
-};
+type TaskCardProps = HTMLAttributes<HTMLLIElement> &
+  Pick<Task, 'priority' | 'dueDate'> & {
+    title: string;
+    subtitle: string;
+    labels?: BoardLabel[];
+    assignees?: Member[];
+    commentCount?: number;
+  };
 
 export const TaskCard = forwardRef<HTMLLIElement, TaskCardProps>(
-  function TaskCard({ title, subtitle, className = '', ...rest }, ref) {
+  function TaskCard(
+    {
+      title,
+      subtitle,
+      priority,
+      dueDate,
+      labels = [],
+      assignees = [],
+      commentCount = 0,
+      className = '',
+      ...rest
+    },
+    ref
+  ) {
+    const overdue = isOverdue(dueDate);
+    const hasBadges =
+      !!priority || !!dueDate || labels.length > 0 || commentCount > 0;
+
     return (
       <li ref={ref} className={`app-board-task ${className}`} {...rest}>
         <p className="app-board-task-title">{title}</p>
         <p className="app-board-task-subtasks">{subtitle}</p>
+        {hasBadges && (
+          <div className="app-board-task-badges">
+            {priority && (
+              <span className="app-task-badge" data-priority={priority}>
+                {PRIORITY_LABELS[priority]}
+              </span>
+            )}
+            {dueDate && (
+              <span
+                className="app-task-badge"
+                data-overdue={overdue || undefined}
+              >
+                <time dateTime={dueDate}>{formatDueDate(dueDate)}</time>
+                {overdue && ' · Overdue'}
+              </span>
+            )}
+            {labels.map((label) => (
+              <span key={label.name} className="app-task-badge app-task-label">
+                <span
+                  className="label-dot"
+                  style={{ backgroundColor: label.color }}
+                  aria-hidden
+                />
+                {label.name}
+              </span>
+            ))}
+            {commentCount > 0 && (
+              <span className="app-task-badge">
+                {commentCount} comment{commentCount !== 1 ? 's' : ''}
+              </span>
+            )}
+          </div>
+        )}
+        {assignees.length > 0 && (
+          <div className="app-board-task-assignees">
+            {assignees.map((member) => (
+              <Avatar
+                key={member.id}
+                name={getMemberDisplayName(member)}
+                initials={getMemberInitial(member)}
+                size={24}
+              />
+            ))}
+          </div>
+        )}
       </li>
     );
   }
@@ -1,8 +1,9 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import type { UiToast } from '@/types/types';
 import { useUi } from '@hooks/useUi';
 
 const AUTO_DISMISS_MS = 4000;
+const COUNTDOWN_TICK_MS = 100;
 
 type ToastProps = {
   toast: UiToast;
@@ -10,13 +11,19 @@ type ToastProps = {
 
 function Toast({ toast }: ToastProps) {
   const { dismissToast } = useUi();
+  const duration = toast.duration ?? AUTO_DISMISS_MS;
+  const [remainingMs, setRemainingMs] = useState(duration);
 
   useEffect(() => {
-    const timer = window.setTimeout(() => {
-      dismissToast(toast.id);
-    }, AUTO_DISMISS_MS);
-    return () => window.clearTimeout(timer);
-  }, [dismissToast, toast.id]);
+    if (duration <= 0) return;
+    const startedAt = Date.now();
+    const timer = window.setInterval(() => {
+      const remaining = Math.max(0, duration - (Date.now() - startedAt));
+      setRemainingMs(remaining);
+      if (remaining === 0) dismissToast(toast.id);
+    }, COUNTDOWN_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, [dismissToast, toast.id, duration]);
 
   const background =
     toast.type === 'success'
@@ -28,10 +35,18 @@ function Toast({ toast }: ToastProps) {
   const color =
     toast.type === 'error' ? 'var(--destructive)' : 'var(--text-primary)';
 
+  const handleAction = () => {
+    toast.action?.onAction();
+    dismissToast(toast.id);
+  };
+
   return (
     <div
       className="app-toast"
+      role={toast.type === 'error' ? 'alert' : 'status'}
       style={{
+        position: 'relative',
+        overflow: 'hidden',
         minWidth: 240,
         maxWidth: 360,
         padding: '12px 16px',
@@ -52,6 +67,25 @@ function Toast({ toast }: ToastProps) {
       >
         {toast.message}
       </span>
+      {toast.action && (
+        <button
+          type="button"
+          onClick={handleAction}
+          className="body-m"
+          style={{
+            border: 'none',
+            background: 'transparent',
+            color: 'var(--primary)',
+            cursor: 'pointer',
+            fontWeight: 700,
+            padding: 0,
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {toast.action.label}
+          {duration > 0 && ` (${Math.ceil(remainingMs / 1000)})`}
+        </button>
+      )}
       <button
         type="button"
         aria-label="Dismiss notification"
@@ -68,6 +102,21 @@ function Toast({ toast }: ToastProps) {
       >
         ×
       </button>
+      {duration > 0 && (
+        <span
+          aria-hidden
+          style={{
+            position: 'absolute',
+            left: 0,
+            bottom: 0,
+            height: 3,
+            width: `${(remainingMs / duration) * 100}%`,
+            background: 'var(--primary)',
+            opacity: 0.6,
+            transition: `width ${COUNTDOWN_TICK_MS}ms linear`,
+          }}
+        />
+      )}
     </div>
   );
 }
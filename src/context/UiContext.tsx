@@ -66,9 +66,9 @@ export function UiProvider({
   );
 
   const showToast = useCallback(
-    ({ type, message }: Omit<UiToast, 'id'>) => {
+    (toast: Omit<UiToast, 'id'>) => {
       const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
-      addToast({ id, type, message });
+      addToast({ id, ...toast });
     },
     [addToast]
   );
@@ -0,0 +1,10 @@
+import { useMemo } from 'react';
+import type { AuditLogEntry } from '@/types/types';
+import { useStore } from '@/store/useStore';
+import { filterAuditLog, type AuditLogFilters } from '@/utils/auditLog';
+
+/** The workspace audit log entries that pass `filters`, newest first. */
+export function useAuditLog(filters: AuditLogFilters): AuditLogEntry[] {
+  const log = useStore((state) => state.auditLog);
+  return useMemo(() => filterAuditLog(log, filters).reverse(), [log, filters]);
+}
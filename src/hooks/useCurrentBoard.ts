@@ -1,6 +1,7 @@
 import { useParams } from 'react-router';
 import { useBoards } from '@/hooks/useBoards';
 import type { Board } from '@/types/types';
+import { resolveBoardRef } from '@/utils/boardUrls';
 
 type UseCurrentBoardResult = {
   board: Board | null;
@@ -11,16 +12,10 @@ export function useCurrentBoard(): UseCurrentBoardResult {
   const { boards } = useBoards();
   const { boardId } = useParams<{ boardId?: string }>();
 
-  const index =
-    boardId != null && /^\d+$/.test(boardId) ? parseInt(boardId, 10) : null;
+  const resolved = boardId != null ? resolveBoardRef(boards, boardId) : null;
 
-  const board =
-    index != null &&
-    Number.isFinite(index) &&
-    index >= 0 &&
-    index < boards.length
-      ? boards[index]
-      : null;
-
-  return { board, boardIndex: index };
+  return {
+    board: resolved?.board ?? null,
+    boardIndex: resolved?.index ?? null,
+  };
 }
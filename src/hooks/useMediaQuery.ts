@@ -0,0 +1,27 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+function matches(query: string): boolean {
+  // Not every environment (jsdom, older embedded browsers) has matchMedia.
+  return typeof window.matchMedia === 'function'
+    ? window.matchMedia(query).matches
+    : false;
+}
+
+/** Whether a CSS media query matches, re-rendering when that changes. */
+export function useMediaQuery(query: string): boolean {
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      if (typeof window.matchMedia !== 'function') return () => {};
+      const list = window.matchMedia(query);
+      list.addEventListener('change', onChange);
+      return () => list.removeEventListener('change', onChange);
+    },
+    [query]
+  );
+
+  return useSyncExternalStore(
+    subscribe,
+    () => matches(query),
+    () => false
+  );
+}
@@ -0,0 +1,13 @@
+import type { MembersContextType } from '@/types/types';
+import { useStore } from '@/store/useStore';
+import { useShallow } from 'zustand/react/shallow';
+
+export function useMembers(): MembersContextType {
+  return useStore(
+    useShallow((state) => ({
+      members: state.members,
+      addMember: state.addMember,
+      removeMember: state.removeMember,
+    }))
+  );
+}
@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { useStore } from '@/store/useStore';
+import { useUi } from '@/hooks/useUi';
+import { fetchBoards } from '@/services/boards';
+
+/** Replaces every board with a fresh copy of the sample data. */
+export function useResetBoards(): () => Promise<void> {
+  const dispatch = useStore((s) => s.dispatch);
+  const { startLoading, stopLoading, showToast } = useUi();
+
+  return useCallback(async () => {
+    startLoading('resetBoards');
+    try {
+      const boards = await fetchBoards();
+      dispatch({ type: 'SET_BOARDS', payload: { boards } });
+      showToast({ type: 'success', message: 'Boards reset to sample data' });
+    } catch (error: unknown) {
+      showToast({
+        type: 'error',
+        message:
+          error instanceof Error
+            ? `Failed to reset boards: ${error.message}`
+            : 'Failed to reset boards. Please try again.',
+      });
+    } finally {
+      stopLoading('resetBoards');
+    }
+  }, [dispatch, startLoading, stopLoading, showToast]);
+}
@@ -0,0 +1,12 @@
+import { useMemo } from 'react';
+import type { TaskActivityEntry } from '@/types/types';
+import { useStore } from '@/store/useStore';
+
+/** The recorded history of one task, newest first. */
+export function useTaskActivity(taskId: string): TaskActivityEntry[] {
+  const activity = useStore((state) => state.taskActivity);
+  return useMemo(
+    () => activity.filter((entry) => entry.taskId === taskId).reverse(),
+    [activity, taskId]
+  );
+}
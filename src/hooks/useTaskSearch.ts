@@ -0,0 +1,25 @@
+import { useMemo, useState } from 'react';
+import { useBoards } from '@/hooks/useBoards';
+import {
+  createTaskSearchIndex,
+  getSearchTerms,
+  searchTasks,
+  type TaskSearchMatch,
+} from '@/utils/taskSearch';
+
+/**
+ * Tasks on every board that match `query`, and the terms it was split into.
+ * The index lives as long as the calling component, so searching again
+ * after an edit only reindexes what changed.
+ */
+export function useTaskSearch(query: string): {
+  terms: string[];
+  matches: TaskSearchMatch[];
+} {
+  const { boards } = useBoards();
+  const [index] = useState(createTaskSearchIndex);
+  return useMemo(() => {
+    const terms = getSearchTerms(query);
+    return { terms, matches: searchTasks(index, boards, terms) };
+  }, [index, boards, query]);
+}
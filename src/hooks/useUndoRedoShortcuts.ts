@@ -0,0 +1,40 @@
+import { useEffect } from 'react';
+import { useStore } from '@/store/useStore';
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.tagName === 'SELECT'
+  );
+}
+
+/**
+ * Ctrl/Cmd+Z undoes the last board change, Ctrl/Cmd+Shift+Z (or Ctrl+Y)
+ * redoes it. Text fields keep their native undo behaviour.
+ */
+export function useUndoRedoShortcuts(): void {
+  const undo = useStore((s) => s.undo);
+  const redo = useStore((s) => s.redo);
+
+  useEffect(() => {
+    function handleKeyDown(event: KeyboardEvent) {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+}
@@ -0,0 +1,35 @@
+import { useCallback } from 'react';
+import type { BoardsAction } from '@/types/types';
+import { useStore } from '@/store/useStore';
+import { useUi } from '@/hooks/useUi';
+import { getInverseAction } from '@/utils/inverseActions';
+
+const UNDO_TOAST_DURATION_MS = 8000;
+
+/**
+ * Dispatches `action` and shows a success toast with an "Undo" button that
+ * reverts just this mutation, even if other changes happened since.
+ */
+export function useUndoableDispatch(): (
+  action: BoardsAction,
+  message: string
+) => void {
+  const dispatch = useStore((s) => s.dispatch);
+  const { showToast } = useUi();
+
+  return useCallback(
+    (action: BoardsAction, message: string) => {
+      const undoAction = getInverseAction(useStore.getState(), action);
+      dispatch(action);
+      showToast({
+        type: 'success',
+        message,
+        duration: UNDO_TOAST_DURATION_MS,
+        action: undoAction
+          ? { label: 'Undo', onAction: () => dispatch(undoAction) }
+          : undefined,
+      });
+    },
+    [dispatch, showToast]
+  );
+}
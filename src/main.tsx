@@ -3,11 +3,30 @@ import { createRoot } from 'react-dom/client';
 import { BrowserRouter } from 'react-router';
 import '@/index.css';
 import App from '@/App';
+import { createBoardsStorage } from '@/utils/boardsStorage';
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <BrowserRouter>
-      <App />
-    </BrowserRouter>
-  </StrictMode>
-);
+// Set VITE_API_MOCKING=true to run against the in-browser mock backend.
+async function enableMocking() {
+  if (import.meta.env.VITE_API_MOCKING !== 'true') return;
+  const [{ worker }, { setMockBoards }] = await Promise.all([
+    import('@/test/mocks/browser'),
+    import('@/test/mocks/db'),
+  ]);
+  // The mock backend only lives in memory. Start it from the boards saved in
+  // this browser so a reload does not swap them for the sample fixture.
+  const saved = await createBoardsStorage()
+    .load()
+    .catch(() => undefined);
+  if (saved) setMockBoards(saved.boards);
+  await worker.start({ onUnhandledRequest: 'bypass' });
+}
+
+void enableMocking().then(() => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <BrowserRouter>
+        <App />
+      </BrowserRouter>
+    </StrictMode>
+  );
+});
@@ -1,11 +1,301 @@
+import { useState } from 'react';
+import { Avatar } from '@components/ui/Avatar';
 import { Button } from '@components/ui/Button';
+import { Dropdown } from '@components/ui/Dropdown';
+import { Input } from '@components/ui/Input';
 import { PageCard } from '@components/ui/PageCard';
+import { ResetBoardsModal } from '@components/modals/ResetBoardsModal';
+import { useAuditLog } from '@hooks/useAuditLog';
 import { useAuth } from '@hooks/useAuth';
+import { useBoards } from '@hooks/useBoards';
+import { useMembers } from '@hooks/useMembers';
 import { useNavigate } from 'react-router';
+import { useStore } from '@/store/useStore';
+import { generateMemberId } from '@/types/types';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ACTION_NAMES,
+  EMPTY_AUDIT_FILTERS,
+  getAuditActorOptions,
+  getAuditBoardOptions,
+  toAuditCsv,
+  toAuditJson,
+  type AuditLogFilters,
+} from '@/utils/auditLog';
+import { downloadFile } from '@/utils/download';
+import { getMemberDisplayName, getMemberInitial } from '@/utils/members';
+import { getToday } from '@/utils/taskFields';
+import { formatTimestamp } from '@/utils/timestamps';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+/** Lists the workspace members tasks can be assigned to. */
+function MemberDirectory({ currentUserId }: { currentUserId?: string }) {
+  const { members, addMember, removeMember } = useMembers();
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string>();
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmedName = name.trim();
+    const trimmedEmail = email.trim();
+    if (!trimmedName) {
+      setError('Name is required.');
+      return;
+    }
+    if (!EMAIL_PATTERN.test(trimmedEmail)) {
+      setError('Please enter a valid email.');
+      return;
+    }
+    if (
+      members.some((m) => m.email.toLowerCase() === trimmedEmail.toLowerCase())
+    ) {
+      setError('A member with this email already exists.');
+      return;
+    }
+    addMember({
+      id: generateMemberId(),
+      name: trimmedName,
+      email: trimmedEmail,
+    });
+    setName('');
+    setEmail('');
+    setError(undefined);
+  };
+
+  return (
+    <PageCard>
+      <h2 className="heading-l app-section-title">Members</h2>
+      <ul className="app-member-list">
+        {members.map((member) => (
+          <li key={member.id} className="app-member">
+            <Avatar
+              name={getMemberDisplayName(member)}
+              initials={getMemberInitial(member)}
+            />
+            <span className="app-member-name">
+              {getMemberDisplayName(member)}
+              <span className="body-m">{member.email}</span>
+            </span>
+            <Button
+              variant="secondary"
+              size="small"
+              aria-label={`Remove ${getMemberDisplayName(member)}`}
+              disabled={member.id === currentUserId}
+              onClick={() => removeMember(member.id)}
+            >
+              Remove
+            </Button>
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleSubmit} className="app-member-form" noValidate>
+        <Input
+          id="member-name"
+          label="Name"
+          placeholder="e.g. Ada Lovelace"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Input
+          id="member-email"
+          type="email"
+          label="Email"
+          placeholder="e.g. ada@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+        {error && (
+          <span role="alert" className="input-error-text">
+            {error}
+          </span>
+        )}
+        <Button type="submit" variant="primary" size="large">
+          Add Member
+        </Button>
+      </form>
+    </PageCard>
+  );
+}
+
+const AUDIT_PAGE_SIZE = 50;
+
+/**
+ * Every change made to the workspace's boards, newest first, filtered by
+ * who, where, what and when. Exports cover all entries that pass the
+ * filters, not just the rows on screen.
+ */
+function AuditLog() {
+  const { boards } = useBoards();
+  const log = useStore((state) => state.auditLog);
+  const [filters, setFilters] = useState<AuditLogFilters>(EMPTY_AUDIT_FILTERS);
+  const [shown, setShown] = useState(AUDIT_PAGE_SIZE);
+  const entries = useAuditLog(filters);
+
+  const setFilter = (field: keyof AuditLogFilters, value: string) => {
+    setFilters((current) => ({ ...current, [field]: value }));
+    setShown(AUDIT_PAGE_SIZE);
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const filename = `audit-log-${getToday()}.${format}`;
+    if (format === 'csv') {
+      downloadFile(filename, toAuditCsv(entries), 'text/csv');
+    } else {
+      downloadFile(filename, toAuditJson(entries), 'application/json');
+    }
+  };
+
+  return (
+    <PageCard>
+      <h2 className="heading-l app-section-title">Audit log</h2>
+      <div className="app-audit-filters">
+        <div className="input-wrap">
+          <label className="input-label" htmlFor="audit-user">
+            User
+          </label>
+          <Dropdown
+            id="audit-user"
+            options={[
+              { value: '', label: 'All users' },
+              ...getAuditActorOptions(log),
+            ]}
+            value={filters.actorId}
+            onChange={(value) => setFilter('actorId', value)}
+          />
+        </div>
+        <div className="input-wrap">
+          <label className="input-label" htmlFor="audit-board">
+            Board
+          </label>
+          <Dropdown
+            id="audit-board"
+            options={[
+              { value: '', label: 'All boards' },
+              ...getAuditBoardOptions(log, boards),
+            ]}
+            value={filters.boardId}
+            onChange={(value) => setFilter('boardId', value)}
+          />
+        </div>
+        <div className="input-wrap">
+          <label className="input-label" htmlFor="audit-action">
+            Action
+          </label>
+          <Dropdown
+            id="audit-action"
+            options={[
+              { value: '', label: 'All actions' },
+              ...AUDIT_ACTION_NAMES.map((name) => ({
+                value: name,
+                label: name,
+              })),
+            ]}
+            value={filters.action}
+            onChange={(value) => setFilter('action', value)}
+          />
+        </div>
+        <Input
+          id="audit-from"
+          type="date"
+          label="From"
+          value={filters.from}
+          max={filters.to || undefined}
+          onChange={(e) => setFilter('from', e.target.value)}
+        />
+        <Input
+          id="audit-to"
+          type="date"
+          label="To"
+          value={filters.to}
+          min={filters.from || undefined}
+          onChange={(e) => setFilter('to', e.target.value)}
+        />
+      </div>
+      <div className="app-actions app-audit-actions">
+        <Button
+          variant="secondary"
+          size="small"
+          disabled={entries.length === 0}
+          onClick={() => handleExport('csv')}
+        >
+          Export CSV
+        </Button>
+        <Button
+          variant="secondary"
+          size="small"
+          disabled={entries.length === 0}
+          onClick={() => handleExport('json')}
+        >
+          Export JSON
+        </Button>
+        <Button
+          variant="secondary"
+          size="small"
+          disabled={Object.values(filters).every((value) => !value)}
+          onClick={() => {
+            setFilters(EMPTY_AUDIT_FILTERS);
+            setShown(AUDIT_PAGE_SIZE);
+          }}
+        >
+          Clear filters
+        </Button>
+      </div>
+      {entries.length === 0 ? (
+        <p className="body-m">
+          {log.length === 0
+            ? 'No changes recorded yet.'
+            : 'No changes match these filters.'}
+        </p>
+      ) : (
+        <div className="app-audit-scroll">
+          <table className="app-audit-table">
+            <caption className="body-m">
+              {entries.length} {entries.length === 1 ? 'change' : 'changes'}
+            </caption>
+            <thead>
+              <tr>
+                <th scope="col">Time</th>
+                <th scope="col">User</th>
+                <th scope="col">Board</th>
+                <th scope="col">Action</th>
+                <th scope="col">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.slice(0, shown).map((entry) => (
+                <tr key={entry.id}>
+                  <td>
+                    <time dateTime={entry.at}>{formatTimestamp(entry.at)}</time>
+                  </td>
+                  <td>{entry.actor?.name ?? 'Anonymous'}</td>
+                  <td>{entry.boardName ?? '—'}</td>
+                  <td>{AUDIT_ACTION_LABELS[entry.action]}</td>
+                  <td>{entry.target ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {entries.length > shown && (
+        <Button
+          variant="secondary"
+          size="small"
+          onClick={() => setShown((n) => n + AUDIT_PAGE_SIZE)}
+        >
+          Show more
+        </Button>
+      )}
+    </PageCard>
+  );
+}
 
 export function Admin() {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
+  const [resetOpen, setResetOpen] = useState(false);
 
   const handleLogout = () => {
     logout();
@@ -19,10 +309,22 @@ export function Admin() {
         <p className="body-l" style={{ marginBottom: 24 }}>
           Logged in as {user?.name ?? '—'}
         </p>
-        <Button variant="secondary" size="large" onClick={handleLogout}>
-          Log out
-        </Button>
+        <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap' }}>
+          <Button
+            variant="destructive"
+            size="large"
+            onClick={() => setResetOpen(true)}
+          >
+            Reset to sample data
+          </Button>
+          <Button variant="secondary" size="large" onClick={handleLogout}>
+            Log out
+          </Button>
+        </div>
       </PageCard>
+      <MemberDirectory currentUserId={user?.id} />
+      <AuditLog />
+      <ResetBoardsModal open={resetOpen} onClose={() => setResetOpen(false)} />
     </div>
   );
 }
@@ -1,24 +1,70 @@
-import { Link } from 'react-router';
+import {
+  Link,
+  Navigate,
+  useNavigate,
+  useParams,
+  useSearchParams,
+} from 'react-router';
+import { useAuth } from '@/hooks/useAuth';
 import { useBoards } from '@/hooks/useBoards';
 import { useCurrentBoard } from '@/hooks/useCurrentBoard';
+import { useMediaQuery } from '@/hooks/useMediaQuery';
+import { useMembers } from '@/hooks/useMembers';
 import { Button } from '@components/ui/Button';
-import type { Task } from '@/types/types';
-import { useCallback, useState } from 'react';
+import type { Column, Task } from '@/types/types';
+import { getTaskLabels } from '@/utils/boardLabels';
+import { getBoardPath, getBoardRef, getTaskPath } from '@/utils/boardUrls';
+import { getTaskAssignees } from '@/utils/members';
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from 'react';
 import { TaskDetailsModal } from '@components/modals/TaskDetailsModal';
 import { AddColumnModal } from '@components/modals/AddColumnModal';
 import {
   DndContext,
+  DragOverlay,
+  type CollisionDetection,
   type DragEndEvent,
-  PointerSensor,
+  type DragMoveEvent,
+  type DragOverEvent,
+  type DragStartEvent,
+  KeyboardSensor,
+  MeasuringStrategy,
+  MouseSensor,
+  pointerWithin,
+  rectIntersection,
+  TouchSensor,
   useSensor,
   useSensors,
 } from '@dnd-kit/core';
 import {
+  BoardColumnPager,
   DraggableTaskCard,
   DroppableColumn,
+  TaskDropPlaceholder,
+  boardKeyboardCoordinates,
+  boardScreenReaderInstructions,
+  createBoardAnnouncements,
   decodeTaskId,
   decodeColumnId,
+  getDragPointerY,
+  getTaskDropTarget,
+  isColumnDndData,
+  type TaskDropTarget,
 } from '@components/board';
+import { TaskCard } from '@components/ui/TaskCard';
+
+// Prefer whatever is under the pointer so drops land where the pointer is;
+// keyboard drags have no pointer and fall back to rectangle overlap.
+const pointerThenRectCollisions: CollisionDetection = (args) => {
+  const collisions = pointerWithin(args);
+  return collisions.length > 0 ? collisions : rectIntersection(args);
+};
 
 function getSubtaskSummary(task: Task): string {
   const total = task.subtasks?.length ?? 0;
@@ -27,85 +73,264 @@ function getSubtaskSummary(task: Task): string {
 }
 
 export function BoardView() {
-  const [selectedTask, setSelectedTask] = useState<{
-    boardIndex: number | null;
-    columnName: string | null;
-    taskTitle: string | null;
-  } | null>(null);
-  const [taskModalOpen, setTaskModalOpen] = useState(false);
   const [addColumnOpen, setAddColumnOpen] = useState(false);
   const { dispatch } = useBoards();
   const { board, boardIndex } = useCurrentBoard();
+  const { user } = useAuth();
+  const { members } = useMembers();
+  const navigate = useNavigate();
+  // The open task lives in the URL (board/:boardId/task/:taskId) so it can be
+  // shared and follows browser back/forward.
+  const { boardId: boardRef, taskId: selectedTaskId = null } = useParams<{
+    boardId?: string;
+    taskId?: string;
+  }>();
+
+  // Filters live in the query string and are kept when a task is opened.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = searchParams.toString();
+  const assigneeFilter =
+    searchParams.get('assigned') === 'me' ? user?.id : undefined;
+  const assignedToMe = assigneeFilter !== undefined;
+
+  const toggleAssignedToMe = () => {
+    setSearchParams(
+      (params) => {
+        const next = new URLSearchParams(params);
+        if (assignedToMe) next.delete('assigned');
+        else next.set('assigned', 'me');
+        return next;
+      },
+      { replace: true }
+    );
+  };
+
+  const isTaskShown = (task: Task) =>
+    !assigneeFilter || !!task.assigneeIds?.includes(assigneeFilter);
+
+  const selectedTaskExists =
+    selectedTaskId != null &&
+    board?.columns.some((c) => c.tasks.some((t) => t.id === selectedTaskId));
 
+  useEffect(() => {
+    // The linked task was deleted or never existed; fall back to the board.
+    if (board && selectedTaskId && !selectedTaskExists) {
+      void navigate(
+        { pathname: getBoardPath(board), search },
+        { replace: true }
+      );
+    }
+  }, [board, selectedTaskId, selectedTaskExists, search, navigate]);
+
+  // Touch drags start on a long press so a quick swipe still scrolls the
+  // columns; the mouse only needs to move a few pixels.
   const sensors = useSensors(
-    useSensor(PointerSensor, { activationConstraint: { distance: 8 } })
+    useSensor(MouseSensor, { activationConstraint: { distance: 8 } }),
+    useSensor(TouchSensor, {
+      activationConstraint: { delay: 250, tolerance: 8 },
+    }),
+    useSensor(KeyboardSensor, { coordinateGetter: boardKeyboardCoordinates })
   );
 
-  const handleDragEnd = useCallback(
-    (event: DragEndEvent) => {
-      const { active, over } = event;
-      if (boardIndex === null || !over || !board) return;
+  // Small screens show one column at a time and swipe between them.
+  const singleColumn = useMediaQuery('(max-width: 767px)');
+  const columnsRef = useRef<HTMLDivElement>(null);
+  const [activeColumnIndex, setActiveColumnIndex] = useState(0);
 
-      const activeId = String(active.id);
-      const overId = String(over.id);
+  const showColumn = useCallback((index: number) => {
+    const column =
+      columnsRef.current?.querySelectorAll('.app-board-column')[index];
+    column?.scrollIntoView({
+      behavior: 'smooth',
+      block: 'nearest',
+      inline: 'center',
+    });
+    setActiveColumnIndex(index);
+  }, []);
 
-      const activeTask = decodeTaskId(activeId);
-      if (!activeTask || activeTask.boardIndex !== boardIndex) return;
-
-      const overTask = decodeTaskId(overId);
-
-      // If dropped on a task in the same column, reorder within that column.
-      if (overTask && overTask.boardIndex === boardIndex) {
-        const { columnName: fromColumn, taskTitle } = activeTask;
-        const { columnName: toColumn, taskTitle: targetTitle } = overTask;
-
-        const fromCol = board.columns.find((c) => c.name === fromColumn);
-        const toCol = board.columns.find((c) => c.name === toColumn);
-
-        if (!fromCol || !toCol) return;
-
-        const fromIndex = fromCol.tasks.findIndex(
-          (task) => task.title === taskTitle
-        );
-        const toIndex = toCol.tasks.findIndex(
-          (task) => task.title === targetTitle
-        );
-
-        if (fromIndex === -1 || toIndex === -1) return;
-
-        if (fromColumn === toColumn) {
-          if (fromIndex === toIndex) return;
-          dispatch({
-            type: 'REORDER_TASK',
-            payload: {
-              boardIndex,
-              columnName: fromColumn,
-              fromIndex,
-              toIndex,
-            },
-          });
-          return;
+  // Follows swipes and drag auto-scrolling: the column whose left edge is
+  // closest to the container's is the one on screen.
+  const handleColumnsScroll = useCallback(() => {
+    const container = columnsRef.current;
+    if (!container) return;
+    const left = container.getBoundingClientRect().left;
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    container.querySelectorAll('.app-board-column').forEach((column, index) => {
+      const distance = Math.abs(column.getBoundingClientRect().left - left);
+      if (distance < nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+    setActiveColumnIndex(nearest);
+  }, []);
+
+  const announcements = useMemo(
+    () => (board ? createBoardAnnouncements(board) : undefined),
+    [board]
+  );
+
+  // The column being dragged by its header and the column it is over.
+  const [columnDrag, setColumnDrag] = useState<{
+    columnId: string;
+    overColumnId: string | null;
+  } | null>(null);
+  // The task being dragged and where the placeholder currently sits.
+  const [taskDrag, setTaskDrag] = useState<{
+    taskId: string;
+    height: number;
+    origin: TaskDropTarget;
+    target: TaskDropTarget | null;
+  } | null>(null);
+
+  const draggedTask = taskDrag
+    ? board?.columns
+        .flatMap((c) => c.tasks)
+        .find((t) => t.id === taskDrag.taskId)
+    : undefined;
+
+  const handleDragStart = useCallback(
+    (event: DragStartEvent) => {
+      const activeId = String(event.active.id);
+      if (isColumnDndData(event.active.data)) {
+        const column = decodeColumnId(activeId);
+        if (column) {
+          setColumnDrag({ columnId: column.columnId, overColumnId: null });
         }
-        // Different columns: fall through to column-level move below.
+        return;
+      }
+
+      const activeTask = decodeTaskId(activeId);
+      const column = board?.columns.find((c) => c.id === activeTask?.columnId);
+      if (!activeTask || !column) return;
+      const origin = {
+        columnId: column.id,
+        index: column.tasks.findIndex((t) => t.id === activeTask.taskId),
+      };
+      setTaskDrag({
+        taskId: activeTask.taskId,
+        // Measured once the drag is under way; see handleDragMove.
+        height: 0,
+        origin,
+        target: origin,
+      });
+    },
+    [board]
+  );
+
+  // Runs on every pointer move, so the placeholder follows the pointer from
+  // one half of a card to the other.
+  const handleDragMove = useCallback(
+    (event: DragMoveEvent) => {
+      if (!board || isColumnDndData(event.active.data)) return;
+      const activeTask = decodeTaskId(String(event.active.id));
+      if (!activeTask) return;
+
+      const target = event.over
+        ? getTaskDropTarget(
+            board,
+            activeTask.taskId,
+            event.over,
+            getDragPointerY(event)
+          )
+        : null;
+      setTaskDrag((current) =>
+        !current ||
+        (current.target?.columnId === target?.columnId &&
+          current.target?.index === target?.index)
+          ? current
+          : {
+              ...current,
+              target,
+              height:
+                current.height ||
+                (event.active.rect.current.initial?.height ?? 0),
+            }
+      );
+    },
+    [board]
+  );
+
+  const handleDragOver = useCallback(
+    (event: DragOverEvent) => {
+      if (!isColumnDndData(event.active.data)) {
+        handleDragMove(event);
+        return;
       }
+      const over = event.over ? decodeColumnId(String(event.over.id)) : null;
+      setColumnDrag(
+        (current) =>
+          current && { ...current, overColumnId: over?.columnId ?? null }
+      );
+    },
+    [handleDragMove]
+  );
 
-      const columnData = decodeColumnId(overId);
-      if (!columnData || columnData.boardIndex !== boardIndex || !activeTask) {
+  const handleColumnDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      if (!event.over || !board) return;
+      const activeColumn = decodeColumnId(String(event.active.id));
+      const overColumn = decodeColumnId(String(event.over.id));
+      if (!activeColumn || overColumn?.boardId !== board.id) return;
+
+      const fromIndex = board.columns.findIndex(
+        (c) => c.id === activeColumn.columnId
+      );
+      const toIndex = board.columns.findIndex(
+        (c) => c.id === overColumn.columnId
+      );
+      if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return;
+
+      dispatch({
+        type: 'REORDER_COLUMN_BY_ID',
+        payload: { boardId: board.id, fromIndex, toIndex },
+      });
+    },
+    [board, dispatch]
+  );
+
+  const handleDragEnd = useCallback(
+    (event: DragEndEvent) => {
+      setColumnDrag(null);
+      setTaskDrag(null);
+      if (isColumnDndData(event.active.data)) {
+        handleColumnDragEnd(event);
         return;
       }
 
-      const { columnName: fromColumn, taskTitle } = activeTask;
-      const toColumn = columnData.columnName;
-      if (fromColumn === toColumn) return;
+      const { active, over } = event;
+      if (!over || !board) return;
+
+      const activeTask = decodeTaskId(String(active.id));
+      if (!activeTask || activeTask.boardId !== board.id) return;
+
+      const target = getTaskDropTarget(
+        board,
+        activeTask.taskId,
+        over,
+        getDragPointerY(event)
+      );
+      if (!target) return;
 
       dispatch({
-        type: 'MOVE_TASK',
-        payload: { boardIndex, fromColumn, toColumn, taskTitle },
+        type: 'MOVE_TASK_TO_INDEX_BY_ID',
+        payload: {
+          boardId: board.id,
+          taskId: activeTask.taskId,
+          toColumnId: target.columnId,
+          toIndex: target.index,
+        },
       });
     },
-    [board, boardIndex, dispatch]
+    [board, dispatch, handleColumnDragEnd]
   );
 
+  const handleDragCancel = useCallback(() => {
+    setColumnDrag(null);
+    setTaskDrag(null);
+  }, []);
+
   if (!board) {
     return (
       <div className="app-main app-main-board">
@@ -120,6 +345,77 @@ export function BoardView() {
     );
   }
 
+  // Old index URLs, bare ids and renamed boards redirect to the current URL.
+  if (boardRef !== getBoardRef(board)) {
+    return (
+      <Navigate
+        replace
+        to={
+          selectedTaskId
+            ? getTaskPath(board, selectedTaskId)
+            : getBoardPath(board)
+        }
+      />
+    );
+  }
+
+  const renderTasks = (column: Column) => {
+    const target = taskDrag?.target;
+    const origin = taskDrag?.origin;
+    // At its origin, the dragged card itself shows the gap.
+    const awayFromOrigin =
+      !!target &&
+      !!origin &&
+      (target.columnId !== origin.columnId || target.index !== origin.index);
+    const placeholderIndex =
+      awayFromOrigin && target.columnId === column.id ? target.index : -1;
+    const placeholder = taskDrag && target && (
+      <TaskDropPlaceholder
+        key="drop-placeholder"
+        boardId={board.id}
+        target={target}
+        height={taskDrag.height}
+      />
+    );
+
+    const items: ReactNode[] = [];
+    let index = 0;
+    for (const task of column.tasks) {
+      const isDragged = task.id === taskDrag?.taskId;
+      if (!isDragged) {
+        if (index === placeholderIndex) items.push(placeholder);
+        index++;
+      }
+      items.push(
+        <DraggableTaskCard
+          key={task.id}
+          boardId={board.id}
+          columnId={column.id}
+          task={task}
+          labels={getTaskLabels(board, task)}
+          assignees={getTaskAssignees(members, task)}
+          subtaskSummary={getSubtaskSummary(task)}
+          onOpenDetails={() =>
+            void navigate({ pathname: getTaskPath(board, task.id), search })
+          }
+          collapsed={isDragged && awayFromOrigin}
+          filteredOut={!isTaskShown(task)}
+        />
+      );
+    }
+    if (placeholderIndex >= index) items.push(placeholder);
+    return items;
+  };
+
+  const getColumnDropIndicator = (columnId: string, columnIndex: number) => {
+    if (!columnDrag || columnDrag.overColumnId !== columnId) return null;
+    const fromIndex = board.columns.findIndex(
+      (c) => c.id === columnDrag.columnId
+    );
+    if (fromIndex === columnIndex) return null;
+    return fromIndex < columnIndex ? 'after' : 'before';
+  };
+
   // Empty board state - show prompt to create column
   const emptyBoardContent = board.columns.length === 0 && (
     <div className="app-empty-board">
@@ -154,33 +450,60 @@ export function BoardView() {
 
   return (
     <div className="app-main app-main-board">
-      <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
-        <div className="app-board-columns">
+      <DndContext
+        sensors={sensors}
+        accessibility={{
+          announcements,
+          screenReaderInstructions: boardScreenReaderInstructions,
+        }}
+        collisionDetection={pointerThenRectCollisions}
+        measuring={{ droppable: { strategy: MeasuringStrategy.Always } }}
+        // Scroll the columns sideways when a drag nears their edges. With one
+        // column on screen the edge zone is narrower, so a card held in the
+        // middle of the column does not page away.
+        autoScroll={{ threshold: { x: singleColumn ? 0.1 : 0.2, y: 0.2 } }}
+        onDragStart={handleDragStart}
+        onDragMove={handleDragMove}
+        onDragOver={handleDragOver}
+        onDragEnd={handleDragEnd}
+        onDragCancel={handleDragCancel}
+      >
+        {user && (
+          <div className="app-board-toolbar">
+            <button
+              type="button"
+              className="app-board-filter"
+              aria-pressed={assignedToMe}
+              onClick={toggleAssignedToMe}
+            >
+              Assigned to me
+            </button>
+          </div>
+        )}
+        {singleColumn && (
+          <BoardColumnPager
+            columnNames={board.columns.map((c) => c.name)}
+            activeIndex={Math.min(activeColumnIndex, board.columns.length - 1)}
+            onSelect={showColumn}
+          />
+        )}
+        <div
+          ref={columnsRef}
+          className={`app-board-columns ${singleColumn ? 'app-board-columns-single' : ''}`}
+          data-dragging={columnDrag || taskDrag ? '' : undefined}
+          onScroll={singleColumn ? handleColumnsScroll : undefined}
+        >
           {board.columns.map((col, colIndex) => (
             <DroppableColumn
-              key={col.name}
-              boardIndex={boardIndex!}
+              key={col.id}
+              boardId={board.id}
+              columnId={col.id}
               columnName={col.name}
               columnIndex={colIndex}
-              taskCount={col.tasks.length}
+              taskCount={col.tasks.filter(isTaskShown).length}
+              dropIndicator={getColumnDropIndicator(col.id, colIndex)}
             >
-              {col.tasks.map((task) => (
-                <DraggableTaskCard
-                  key={task.id}
-                  boardIndex={boardIndex!}
-                  columnName={col.name}
-                  task={task}
-                  subtaskSummary={getSubtaskSummary(task)}
-                  onOpenDetails={() => {
-                    setSelectedTask({
-                      boardIndex,
-                      columnName: col.name,
-                      taskTitle: task.title,
-                    });
-                    setTaskModalOpen(true);
-                  }}
-                />
-              ))}
+              {renderTasks(col)}
             </DroppableColumn>
           ))}
           <button
@@ -192,15 +515,33 @@ export function BoardView() {
             + New Column
           </button>
         </div>
+        <DragOverlay>
+          {draggedTask && (
+            <ul className="app-board-tasks">
+              <TaskCard
+                className="app-board-task-overlay"
+                title={draggedTask.title}
+                subtitle={getSubtaskSummary(draggedTask)}
+                priority={draggedTask.priority}
+                dueDate={draggedTask.dueDate}
+                labels={getTaskLabels(board, draggedTask)}
+                assignees={getTaskAssignees(members, draggedTask)}
+                commentCount={draggedTask.comments?.length}
+              />
+            </ul>
+          )}
+        </DragOverlay>
       </DndContext>
 
-      {selectedTask && (
+      {selectedTaskId && (
         <TaskDetailsModal
-          open={taskModalOpen}
-          onClose={() => setTaskModalOpen(false)}
-          boardIndex={selectedTask.boardIndex}
-          columnName={selectedTask.columnName}
-          taskTitle={selectedTask.taskTitle}
+          key={selectedTaskId}
+          open
+          onClose={() =>
+            void navigate({ pathname: getBoardPath(board), search })
+          }
+          boardIndex={boardIndex}
+          taskId={selectedTaskId}
         />
       )}
       {addColumnOpen && (
@@ -1,6 +1,7 @@
 import { Link } from 'react-router';
 import { Button } from '@components/ui/Button';
 import { useBoards } from '@/hooks/useBoards';
+import { getBoardPath } from '@/utils/boardUrls';
 
 export function Dashboard() {
   const { boards } = useBoards();
@@ -25,10 +26,10 @@ export function Dashboard() {
         Select a board from the sidebar or below.
       </p>
       <div className="app-stack-4" style={{ marginTop: 24 }}>
-        {boards.map((board, index) => (
+        {boards.map((board) => (
           <Link
-            key={board.name}
-            to={`/board/${index}`}
+            key={board.id}
+            to={getBoardPath(board)}
             className="app-board-card"
           >
             <span className="heading-m">{board.name}</span>
@@ -19,7 +19,10 @@ export function RouteProvider() {
               <BoardView />
             </ProtectedRoute>
           }
-        />
+        >
+          {/* BoardView renders the task details modal for this route. */}
+          <Route path="task/:taskId" element={null} />
+        </Route>
         <Route
           path="admin"
           element={
@@ -0,0 +1,401 @@
+import type { Board, BoardsAction, Column, Subtask, Task } from '@/types/types';
+import {
+  createBoard,
+  createColumn,
+  createTask,
+  deleteBoard,
+  deleteColumn,
+  deleteTask,
+  updateBoard,
+  updateColumn,
+  updateSubtask,
+  updateTask,
+  type BoardPatch,
+  type ColumnPatch,
+  type TaskPatch,
+} from './boards';
+
+/**
+ * A single REST call, described as plain data so it can be persisted in the
+ * offline outbox and replayed after a reload.
+ */
+export type ApiMutation =
+  | { type: 'createBoard'; board: Board }
+  | { type: 'updateBoard'; boardId: string; patch: BoardPatch }
+  | { type: 'deleteBoard'; boardId: string }
+  | { type: 'createColumn'; boardId: string; column: Column }
+  | {
+      type: 'updateColumn';
+      boardId: string;
+      columnId: string;
+      patch: ColumnPatch;
+    }
+  | { type: 'deleteColumn'; boardId: string; columnId: string }
+  | { type: 'createTask'; boardId: string; columnId: string; task: Task }
+  | { type: 'updateTask'; boardId: string; taskId: string; patch: TaskPatch }
+  | { type: 'deleteTask'; boardId: string; taskId: string }
+  | {
+      type: 'updateSubtask';
+      boardId: string;
+      taskId: string;
+      subtaskIndex: number;
+      patch: Partial<Subtask>;
+    };
+
+/** A mutation waiting in the outbox to be sent. */
+export type OutboxEntry = {
+  id: string;
+  /** Entries created by the same action share an id and fail together. */
+  actionId: string;
+  mutation: ApiMutation;
+  queuedAt: string;
+  /** Queued or retried while offline; a later rejection is a conflict. */
+  offline: boolean;
+};
+
+export function sendMutation(mutation: ApiMutation): Promise<unknown> {
+  switch (mutation.type) {
+    case 'createBoard':
+      return createBoard(mutation.board);
+    case 'updateBoard':
+      return updateBoard(mutation.boardId, mutation.patch);
+    case 'deleteBoard':
+      return deleteBoard(mutation.boardId);
+    case 'createColumn':
+      return createColumn(mutation.boardId, mutation.column);
+    case 'updateColumn':
+      return updateColumn(mutation.boardId, mutation.columnId, mutation.patch);
+    case 'deleteColumn':
+      return deleteColumn(mutation.boardId, mutation.columnId);
+    case 'createTask':
+      return createTask(mutation.boardId, mutation.columnId, mutation.task);
+    case 'updateTask':
+      return updateTask(mutation.boardId, mutation.taskId, mutation.patch);
+    case 'deleteTask':
+      return deleteTask(mutation.boardId, mutation.taskId);
+    case 'updateSubtask':
+      return updateSubtask(
+        mutation.boardId,
+        mutation.taskId,
+        mutation.subtaskIndex,
+        mutation.patch
+      );
+  }
+}
+
+/** A short human-readable label, used in conflict messages. */
+export function describeMutation(mutation: ApiMutation): string {
+  switch (mutation.type) {
+    case 'createBoard':
+      return `Create board "${mutation.board.name}"`;
+    case 'updateBoard':
+      if (mutation.patch.name && !mutation.patch.columns) {
+        return `Rename board to "${mutation.patch.name}"`;
+      }
+      return mutation.patch.labels && !mutation.patch.columns
+        ? 'Update board labels'
+        : 'Update board';
+    case 'deleteBoard':
+      return 'Delete board';
+    case 'createColumn':
+      return `Add column "${mutation.column.name}"`;
+    case 'updateColumn':
+      return mutation.patch.name
+        ? `Rename column to "${mutation.patch.name}"`
+        : 'Move column';
+    case 'deleteColumn':
+      return 'Delete column';
+    case 'createTask':
+      return `Create task "${mutation.task.title}"`;
+    case 'updateTask':
+      if (mutation.patch.title) return `Update task "${mutation.patch.title}"`;
+      if (mutation.patch.labels) return 'Update task labels';
+      return mutation.patch.comments ? 'Update task comments' : 'Move task';
+    case 'deleteTask':
+      return 'Delete task';
+    case 'updateSubtask':
+      return 'Update subtask';
+  }
+}
+
+function findTask(boards: Board[], boardId: string, taskId: string) {
+  const board = boards.find((b) => b.id === boardId);
+  for (const column of board?.columns ?? []) {
+    const task = column.tasks.find((t) => t.id === taskId);
+    if (task) return task;
+  }
+  return undefined;
+}
+
+/**
+ * Whole-board updates for every board that differs between the two
+ * snapshots. Used for actions without a dedicated endpoint, such as
+ * replacing a whole board or every board.
+ */
+function getSnapshotMutations(
+  previousBoards: Board[],
+  nextBoards: Board[]
+): ApiMutation[] {
+  const previousById = new Map(previousBoards.map((b) => [b.id, b]));
+  const nextIds = new Set(nextBoards.map((b) => b.id));
+  const mutations: ApiMutation[] = [];
+
+  for (const board of previousBoards) {
+    if (!nextIds.has(board.id)) {
+      mutations.push({ type: 'deleteBoard', boardId: board.id });
+    }
+  }
+  for (const board of nextBoards) {
+    const previous = previousById.get(board.id);
+    if (!previous) {
+      mutations.push({ type: 'createBoard', board });
+    } else if (previous !== board) {
+      mutations.push({
+        type: 'updateBoard',
+        boardId: board.id,
+        patch: {
+          name: board.name,
+          columns: board.columns,
+          labels: board.labels ?? [],
+        },
+      });
+    }
+  }
+  return mutations;
+}
+
+/**
+ * Saves a board's label catalog, then the labels of every task a rename or
+ * delete touched.
+ */
+function getLabelMutations(
+  boardId: string,
+  previousBoards: Board[],
+  nextBoards: Board[]
+): ApiMutation[] {
+  const previous = previousBoards.find((b) => b.id === boardId);
+  const next = nextBoards.find((b) => b.id === boardId);
+  if (!previous || !next || previous === next) return [];
+
+  const mutations: ApiMutation[] = [
+    { type: 'updateBoard', boardId, patch: { labels: next.labels ?? [] } },
+  ];
+  for (const column of next.columns) {
+    for (const task of column.tasks) {
+      if (findTask(previousBoards, boardId, task.id)?.labels === task.labels) {
+        continue;
+      }
+      mutations.push({
+        type: 'updateTask',
+        boardId,
+        taskId: task.id,
+        patch: { labels: task.labels ?? [] },
+      });
+    }
+  }
+  return mutations;
+}
+
+/**
+ * Maps a board action to the REST calls that apply the same change on the
+ * server. `previousBoards` and `nextBoards` are the store's boards before and
+ * after the action ran.
+ */
+export function getActionMutations(
+  action: BoardsAction,
+  previousBoards: Board[],
+  nextBoards: Board[]
+): ApiMutation[] {
+  switch (action.type) {
+    case 'ADD_BOARD':
+      return [{ type: 'createBoard', board: action.payload }];
+    case 'DELETE_BOARD_BY_ID':
+      return [{ type: 'deleteBoard', boardId: action.payload.boardId }];
+    case 'RESTORE_BOARD':
+      return [{ type: 'createBoard', board: action.payload.board }];
+    case 'ADD_COLUMN_BY_ID':
+      return [{ type: 'createColumn', ...action.payload }];
+    case 'RENAME_BOARD_BY_ID': {
+      const { boardId, name } = action.payload;
+      return [{ type: 'updateBoard', boardId, patch: { name: name.trim() } }];
+    }
+    case 'RENAME_COLUMN_BY_ID': {
+      const { boardId, columnId, name } = action.payload;
+      return [
+        {
+          type: 'updateColumn',
+          boardId,
+          columnId,
+          patch: { name: name.trim() },
+        },
+      ];
+    }
+    case 'REORDER_COLUMN_BY_ID': {
+      const { boardId, fromIndex, toIndex } = action.payload;
+      const column = previousBoards.find((b) => b.id === boardId)?.columns[
+        fromIndex
+      ];
+      if (!column) return [];
+      return [
+        {
+          type: 'updateColumn',
+          boardId,
+          columnId: column.id,
+          patch: { index: toIndex },
+        },
+      ];
+    }
+    case 'DELETE_COLUMN_BY_ID': {
+      const { boardId, columnId, moveTasksTo } = action.payload;
+      const column = previousBoards
+        .find((b) => b.id === boardId)
+        ?.columns.find((c) => c.id === columnId);
+      if (!column) return [];
+      // Move the tasks out first so the server does not delete them too.
+      const moves: ApiMutation[] = moveTasksTo
+        ? column.tasks.map((task) => ({
+            type: 'updateTask',
+            boardId,
+            taskId: task.id,
+            patch: { columnId: moveTasksTo },
+          }))
+        : [];
+      return [...moves, { type: 'deleteColumn', boardId, columnId }];
+    }
+    case 'ADD_TASK_BY_ID':
+      return [{ type: 'createTask', ...action.payload }];
+    case 'RESTORE_TASK': {
+      const { boardId, columnId, index, task } = action.payload;
+      return [
+        { type: 'createTask', boardId, columnId, task },
+        { type: 'updateTask', boardId, taskId: task.id, patch: { index } },
+      ];
+    }
+    case 'UPDATE_TASK_BY_ID': {
+      const { boardId, taskId, task } = action.payload;
+      const { title, description, status, subtasks } = task;
+      return [
+        {
+          type: 'updateTask',
+          boardId,
+          taskId,
+          patch: {
+            title,
+            description,
+            status,
+            subtasks,
+            priority: task.priority ?? null,
+            dueDate: task.dueDate ?? null,
+            labels: task.labels ?? [],
+            assigneeIds: task.assigneeIds ?? [],
+          },
+        },
+      ];
+    }
+    case 'PATCH_TASK_BY_ID': {
+      const { boardId, taskId, patch } = action.payload;
+      // Cleared fields are sent as empty, since JSON drops `undefined`.
+      return [
+        {
+          type: 'updateTask',
+          boardId,
+          taskId,
+          patch: {
+            ...patch,
+            ...('priority' in patch
+              ? { priority: patch.priority ?? null }
+              : {}),
+            ...('dueDate' in patch ? { dueDate: patch.dueDate ?? null } : {}),
+            ...('labels' in patch ? { labels: patch.labels ?? [] } : {}),
+            ...('assigneeIds' in patch
+              ? { assigneeIds: patch.assigneeIds ?? [] }
+              : {}),
+          },
+        },
+      ];
+    }
+    case 'DELETE_TASK_BY_ID':
+      return [{ type: 'deleteTask', ...action.payload }];
+    case 'REORDER_TASK_BY_ID': {
+      const { boardId, columnId, fromIndex, toIndex } = action.payload;
+      const task = previousBoards
+        .find((b) => b.id === boardId)
+        ?.columns.find((c) => c.id === columnId)?.tasks[fromIndex];
+      if (!task) return [];
+      return [
+        {
+          type: 'updateTask',
+          boardId,
+          taskId: task.id,
+          patch: { index: toIndex },
+        },
+      ];
+    }
+    case 'MOVE_TASK_BY_ID': {
+      const { boardId, taskId, toColumnId } = action.payload;
+      return [
+        {
+          type: 'updateTask',
+          boardId,
+          taskId,
+          patch: { columnId: toColumnId },
+        },
+      ];
+    }
+    case 'MOVE_TASK_TO_INDEX_BY_ID': {
+      const { boardId, taskId, toColumnId, toIndex } = action.payload;
+      return [
+        {
+          type: 'updateTask',
+          boardId,
+          taskId,
+          patch: { columnId: toColumnId, index: toIndex },
+        },
+      ];
+    }
+    case 'ADD_LABEL_BY_ID':
+    case 'UPDATE_LABEL_BY_ID':
+    case 'DELETE_LABEL_BY_ID':
+      return getLabelMutations(
+        action.payload.boardId,
+        previousBoards,
+        nextBoards
+      );
+    case 'ADD_COMMENT_BY_ID':
+    case 'UPDATE_COMMENT_BY_ID':
+    case 'DELETE_COMMENT_BY_ID':
+    case 'RESTORE_COMMENT': {
+      const { boardId, taskId } = action.payload;
+      const task = findTask(nextBoards, boardId, taskId);
+      if (!task || task === findTask(previousBoards, boardId, taskId)) {
+        return [];
+      }
+      return [
+        {
+          type: 'updateTask',
+          boardId,
+          taskId,
+          patch: { comments: task.comments ?? [] },
+        },
+      ];
+    }
+    case 'TOGGLE_SUBTASK_BY_ID': {
+      const { boardId, taskId, subtaskIndex } = action.payload;
+      const subtask = findTask(previousBoards, boardId, taskId)?.subtasks?.[
+        subtaskIndex
+      ];
+      if (!subtask) return [];
+      return [
+        {
+          type: 'updateSubtask',
+          boardId,
+          taskId,
+          subtaskIndex,
+          patch: { isCompleted: !subtask.isCompleted },
+        },
+      ];
+    }
+    default:
+      return getSnapshotMutations(previousBoards, nextBoards);
+  }
+}
@@ -0,0 +1,50 @@
+import axios from 'axios';
+
+/** Origin of the REST API; empty means same origin as the app. */
+export const API_BASE_URL =
+  (import.meta.env.VITE_API_BASE_URL as string | undefined) ?? '';
+
+/**
+ * Whether board changes are sent to a backend. Without `VITE_API_BASE_URL`
+ * (or the in-browser mock) the app works purely from local storage.
+ */
+export function isApiEnabled(): boolean {
+  return (
+    Boolean(import.meta.env.VITE_API_BASE_URL) ||
+    import.meta.env.VITE_API_MOCKING === 'true'
+  );
+}
+
+export class ApiError extends Error {
+  /** HTTP status, or null when the request never got a response. */
+  readonly status: number | null;
+
+  constructor(message: string, status: number | null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+/** True when a request failed without reaching the server. */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof ApiError && error.status === null;
+}
+
+export const apiClient = axios.create({
+  baseURL: `${API_BASE_URL}/api`,
+  headers: { 'Content-Type': 'application/json' },
+});
+
+apiClient.interceptors.response.use(undefined, (error: unknown) => {
+  if (axios.isAxiosError<{ message?: string }>(error)) {
+    const status = error.response?.status ?? null;
+    const message =
+      error.response?.data?.message ??
+      (status ? `Request failed with status ${status}` : 'Network error');
+    return Promise.reject(new ApiError(message, status));
+  }
+  return Promise.reject(
+    error instanceof Error ? error : new Error(String(error))
+  );
+});
@@ -1,22 +1,25 @@
 import axios from 'axios';
-import type { Board, RawTask } from '@/types/types';
-import { generateTaskId } from '@/types/types';
+import type { Board, Column, RawBoard, Subtask, Task } from '@/types/types';
+import {
+  generateBoardId,
+  generateColumnId,
+  generateTaskId,
+} from '@/types/types';
+import { API_BASE_URL, apiClient } from './apiClient';
 
-const baseUrl = (import.meta.env.VITE_API_BASE_URL as string | undefined) ?? '';
-const boardsUrl = baseUrl ? `${baseUrl}/api/boards.json` : '/api/boards.json';
+const boardsUrl = `${API_BASE_URL}/api/boards.json`;
 
-type RawBoard = Omit<Board, 'columns'> & {
-  columns: Array<{
-    name: string;
-    tasks: RawTask[];
-  }>;
-};
-
-function ensureTaskIds(boards: RawBoard[]): Board[] {
+/**
+ * Backfills missing board, column and task ids so older data (saved before
+ * ids existed, or the static sample JSON) can be addressed by id.
+ */
+export function ensureIds(boards: RawBoard[]): Board[] {
   return boards.map((board) => ({
     ...board,
+    id: board.id || generateBoardId(),
     columns: board.columns.map((column) => ({
       ...column,
+      id: column.id || generateColumnId(),
       tasks: column.tasks.map((task) => ({
         ...task,
         id: task.id || generateTaskId(),
@@ -27,6 +30,155 @@ function ensureTaskIds(boards: RawBoard[]): Board[] {
 
 export async function fetchBoards(): Promise<Board[]> {
   const { data } = await axios.get<{ boards: RawBoard[] }>(boardsUrl);
-  // Ensure all tasks have IDs for backward compatibility
-  return ensureTaskIds(data.boards);
+  // Ensure all boards, columns and tasks have IDs for backward compatibility
+  return ensureIds(data.boards);
+}
+
+// REST endpoints. Ids are generated on the client and sent with creates, so
+// the UI can address new entities before the server has answered.
+
+export type BoardPatch = Partial<Omit<Board, 'id'>>;
+export type ColumnPatch = Partial<Pick<Column, 'name'>> & { index?: number };
+/**
+ * `columnId` and `index` move the task; the rest replaces task fields, and
+ * `null` clears an optional one.
+ */
+export type TaskPatch = Partial<Omit<Task, 'id' | 'priority' | 'dueDate'>> & {
+  priority?: Task['priority'] | null;
+  dueDate?: string | null;
+  columnId?: string;
+  index?: number;
+};
+
+const id = encodeURIComponent;
+const boardPath = (boardId: string) => `/boards/${id(boardId)}`;
+const columnPath = (boardId: string, columnId: string) =>
+  `${boardPath(boardId)}/columns/${id(columnId)}`;
+const taskPath = (boardId: string, taskId: string) =>
+  `${boardPath(boardId)}/tasks/${id(taskId)}`;
+
+export async function listBoards(): Promise<Board[]> {
+  const { data } = await apiClient.get<Board[]>('/boards');
+  return data;
+}
+
+export async function getBoard(boardId: string): Promise<Board> {
+  const { data } = await apiClient.get<Board>(boardPath(boardId));
+  return data;
+}
+
+export async function createBoard(board: Board): Promise<Board> {
+  const { data } = await apiClient.post<Board>('/boards', board);
+  return data;
+}
+
+export async function updateBoard(
+  boardId: string,
+  patch: BoardPatch
+): Promise<Board> {
+  const { data } = await apiClient.patch<Board>(boardPath(boardId), patch);
+  return data;
+}
+
+export async function deleteBoard(boardId: string): Promise<void> {
+  await apiClient.delete(boardPath(boardId));
+}
+
+export async function createColumn(
+  boardId: string,
+  column: Column
+): Promise<Column> {
+  const { data } = await apiClient.post<Column>(
+    `${boardPath(boardId)}/columns`,
+    column
+  );
+  return data;
+}
+
+export async function updateColumn(
+  boardId: string,
+  columnId: string,
+  patch: ColumnPatch
+): Promise<Column> {
+  const { data } = await apiClient.patch<Column>(
+    columnPath(boardId, columnId),
+    patch
+  );
+  return data;
+}
+
+export async function deleteColumn(
+  boardId: string,
+  columnId: string
+): Promise<void> {
+  await apiClient.delete(columnPath(boardId, columnId));
+}
+
+export async function createTask(
+  boardId: string,
+  columnId: string,
+  task: Task
+): Promise<Task> {
+  const { data } = await apiClient.post<Task>(
+    `${columnPath(boardId, columnId)}/tasks`,
+    task
+  );
+  return data;
+}
+
+export async function updateTask(
+  boardId: string,
+  taskId: string,
+  patch: TaskPatch
+): Promise<Task> {
+  const { data } = await apiClient.patch<Task>(
+    taskPath(boardId, taskId),
+    patch
+  );
+  return data;
+}
+
+export async function deleteTask(
+  boardId: string,
+  taskId: string
+): Promise<void> {
+  await apiClient.delete(taskPath(boardId, taskId));
+}
+
+// Subtasks have no ids of their own and are addressed by position.
+
+export async function createSubtask(
+  boardId: string,
+  taskId: string,
+  subtask: Subtask
+): Promise<Task> {
+  const { data } = await apiClient.post<Task>(
+    `${taskPath(boardId, taskId)}/subtasks`,
+    subtask
+  );
+  return data;
+}
+
+export async function updateSubtask(
+  boardId: string,
+  taskId: string,
+  subtaskIndex: number,
+  patch: Partial<Subtask>
+): Promise<Task> {
+  const { data } = await apiClient.patch<Task>(
+    `${taskPath(boardId, taskId)}/subtasks/${subtaskIndex}`,
+    patch
+  );
+  return data;
+}
+
+export async function deleteSubtask(
+  boardId: string,
+  taskId: string,
+  subtaskIndex: number
+): Promise<Task> {
+  const { data } = await apiClient.delete<Task>(
+    `${taskPath(boardId, taskId)}/subtasks/${subtaskIndex}`
+  );
+  return data;
 }
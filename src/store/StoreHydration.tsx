@@ -1,8 +1,15 @@
 import { useEffect, useState } from 'react';
-import { setBoards } from '@/utils/localStorage';
+import { createBoardsStorage } from '@/utils/boardsStorage';
+import { StorageQuotaError } from '@/utils/storageAdapter';
 import { useUi } from '@/hooks/useUi';
 import { useStore } from './useStore';
-import { fetchBoards } from '@/services/boards';
+import { loadInitialBoards } from './loadBoards';
+import { startCrossTabSync } from './crossTabSync';
+import { startServerSync } from './serverSync';
+import { startTaskActivityLog } from './taskActivityLog';
+import { startAuditLog } from './auditLog';
+import { getRealtimeUrl, startRealtimeSync } from './realtimeSync';
+import { isApiEnabled } from '@/services/apiClient';
 import { Button } from '@components/ui/Button';
 
 export function StoreHydration({ children }: { children: React.ReactNode }) {
@@ -11,6 +18,27 @@ export function StoreHydration({ children }: { children: React.ReactNode }) {
   const boards = useStore((s) => s.boards);
   const [loadError, setLoadError] = useState<string | null>(null);
   const [retryAttempt, setRetryAttempt] = useState(0);
+  const [hydrated, setHydrated] = useState(false);
+  const [storage] = useState(() => {
+    // A full quota keeps failing on every save; say so once.
+    let quotaReported = false;
+    return createBoardsStorage({
+      onError: (error) => {
+        console.error('Error saving boards:', error);
+        if (error instanceof StorageQuotaError) {
+          if (quotaReported) return;
+          quotaReported = true;
+          showToast({
+            type: 'error',
+            message: 'Browser storage is full. Recent changes were not saved.',
+            duration: 0,
+          });
+          return;
+        }
+        showToast({ type: 'error', message: 'Could not save your changes.' });
+      },
+    });
+  });
 
   useEffect(() => {
     let cancelled = false;
@@ -19,12 +47,13 @@ export function StoreHydration({ children }: { children: React.ReactNode }) {
 
     void (async () => {
       try {
-        const loadedBoards = await fetchBoards();
+        const { boards: loadedBoards } = await loadInitialBoards(storage);
         if (!cancelled) {
-          dispatch({
-            type: 'SET_BOARDS',
-            payload: { boards: loadedBoards },
-          });
+          dispatch(
+            { type: 'SET_BOARDS', payload: { boards: loadedBoards } },
+            { cause: 'hydration' }
+          );
+          setHydrated(true);
         }
       } catch (error) {
         if (!cancelled) {
@@ -43,16 +72,55 @@ export function StoreHydration({ children }: { children: React.ReactNode }) {
     return () => {
       cancelled = true;
     };
-  }, [dispatch, startLoading, stopLoading, showToast, retryAttempt]);
+  }, [dispatch, startLoading, stopLoading, showToast, storage, retryAttempt]);
 
+  // Persist only after hydration so the empty initial state never
+  // overwrites the saved snapshot. Saves are debounced, so flush whatever is
+  // queued when the page is hidden or closed.
   useEffect(() => {
-    const unsub = useStore.subscribe((state) => {
-      if (state.boards.length > 0) {
-        setBoards({ boards: state.boards });
+    if (!hydrated) return;
+    const unsub = useStore.subscribe((state, prevState) => {
+      if (state.boards !== prevState.boards) {
+        storage.save(state.boards);
       }
     });
-    return unsub;
-  }, []);
+    const flush = () => void storage.flush();
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      unsub();
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      flush();
+    };
+  }, [hydrated, storage]);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    const realtimeUrl = getRealtimeUrl();
+    const stopCrossTabSync = startCrossTabSync({
+      broadcastActions: !realtimeUrl,
+    });
+    const stopRealtimeSync = realtimeUrl
+      ? startRealtimeSync(realtimeUrl)
+      : () => {};
+    const stopTaskActivityLog = startTaskActivityLog();
+    const stopAuditLog = startAuditLog();
+    return () => {
+      stopCrossTabSync();
+      stopRealtimeSync();
+      stopTaskActivityLog();
+      stopAuditLog();
+    };
+  }, [hydrated]);
+
+  useEffect(() => {
+    if (!hydrated || !isApiEnabled()) return;
+    return startServerSync({ startLoading, stopLoading, showToast });
+  }, [hydrated, startLoading, stopLoading, showToast]);
 
   if (loadError && boards.length === 0) {
     return (
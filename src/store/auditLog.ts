@@ -0,0 +1,28 @@
+import { createActionMeta } from '@/utils/actionMeta';
+import { createAuditEntry } from '@/utils/auditLog';
+import { subscribeToActions, useStore } from './useStore';
+
+/**
+ * Records every change to the boards in the workspace audit log: who made
+ * it, when, on which board and to what. Actions from other tabs and clients
+ * are recorded under the actor who made them. Returns a cleanup function.
+ */
+export function startAuditLog(): () => void {
+  return subscribeToActions(({ action, source, cause, previousBoards }) => {
+    // Rollbacks undo a change the server rejected; the change itself is
+    // already logged. Hydration and snapshots from elsewhere are not edits,
+    // but replacing every board here (a reset) is.
+    if (cause === 'rollback' || cause === 'hydration') return;
+    if (action.type === 'SET_BOARDS' && source === 'remote') return;
+    const { boards, recordAuditEntry } = useStore.getState();
+    recordAuditEntry(
+      createAuditEntry(
+        action,
+        action.meta ?? createActionMeta(null),
+        previousBoards,
+        boards,
+        cause === 'undo' ? 'UNDO' : cause === 'redo' ? 'REDO' : action.type
+      )
+    );
+  });
+}
@@ -0,0 +1,93 @@
+import type { BoardsAction } from '@/types/types';
+import {
+  STORAGE_KEYS,
+  getAuth,
+  getMembers,
+  getTaskActivity,
+  getAuditLog,
+  getOutbox,
+  getTheme,
+} from '@/utils/localStorage';
+import { subscribeToActions, useStore } from './useStore';
+
+const CHANNEL_NAME = 'kanban-sync';
+
+type SyncMessage = { type: 'action'; action: BoardsAction };
+
+type CrossTabSyncOptions = {
+  /**
+   * Set to false when board actions already reach the other tabs another way
+   * (the realtime server), so they are not applied twice.
+   */
+  broadcastActions?: boolean;
+};
+
+/**
+ * Keeps every open tab in step. Board actions dispatched locally are
+ * broadcast and replayed through `boardsReducer` in the other tabs; theme,
+ * auth, the member directory, task activity, the audit log and the server
+ * outbox follow the `storage` events fired when another tab persists them.
+ * Board actions need BroadcastChannel: the boards are saved to IndexedDB,
+ * which fires no events, so without it each tab only sees the other tabs'
+ * board changes after a reload. Returns a cleanup function.
+ */
+export function startCrossTabSync({
+  broadcastActions = true,
+}: CrossTabSyncOptions = {}): () => void {
+  const channel =
+    broadcastActions && typeof BroadcastChannel !== 'undefined'
+      ? new BroadcastChannel(CHANNEL_NAME)
+      : null;
+
+  const unsubscribe = channel
+    ? subscribeToActions(({ action, source }) => {
+        if (source !== 'local') return;
+        const message: SyncMessage = { type: 'action', action };
+        channel.postMessage(message);
+      })
+    : () => {};
+
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+      if (event.data?.type !== 'action') return;
+      useStore.getState().dispatch(event.data.action, { source: 'remote' });
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    switch (event.key) {
+      case STORAGE_KEYS.theme: {
+        const theme = getTheme();
+        if (theme) useStore.setState({ theme });
+        break;
+      }
+      case STORAGE_KEYS.auth: {
+        const auth = getAuth();
+        useStore.setState({
+          user: auth?.isLoggedIn && auth.user ? auth.user : null,
+          isLoggedIn: auth?.isLoggedIn ?? false,
+        });
+        break;
+      }
+      case STORAGE_KEYS.members:
+        useStore.setState({ members: getMembers() });
+        break;
+      case STORAGE_KEYS.taskActivity:
+        useStore.setState({ taskActivity: getTaskActivity() });
+        break;
+      case STORAGE_KEYS.auditLog:
+        useStore.setState({ auditLog: getAuditLog() });
+        break;
+      case STORAGE_KEYS.outbox:
+        useStore.setState({ outbox: getOutbox() });
+        break;
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return () => {
+    unsubscribe();
+    channel?.close();
+    window.removeEventListener('storage', handleStorage);
+  };
+}
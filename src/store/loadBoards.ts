@@ -0,0 +1,32 @@
+import type { Board } from '@/types/types';
+import type { BoardsStorage } from '@/utils/storageAdapter';
+import { fetchBoards, listBoards } from '@/services/boards';
+import { isApiEnabled, isNetworkError } from '@/services/apiClient';
+import { getOutbox } from '@/utils/localStorage';
+
+export type BoardsSource = 'storage' | 'network';
+
+/**
+ * Loads the boards from the server when an API is configured, unless there
+ * are offline changes still waiting to be sent or the server is unreachable.
+ * Otherwise it restores the boards saved by the previous session. The
+ * sample data is only fetched when nothing has been persisted yet, so an
+ * empty saved workspace stays empty.
+ */
+export async function loadInitialBoards(storage: BoardsStorage): Promise<{
+  boards: Board[];
+  source: BoardsSource;
+}> {
+  if (isApiEnabled() && getOutbox().length === 0) {
+    try {
+      return { boards: await listBoards(), source: 'network' };
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+  const stored = await storage.load();
+  if (stored) {
+    return { boards: stored.boards, source: 'storage' };
+  }
+  return { boards: await fetchBoards(), source: 'network' };
+}
@@ -0,0 +1,137 @@
+import type { BoardsAction, PresenceViewer } from '@/types/types';
+import { isApiEnabled } from '@/services/apiClient';
+import { listBoards } from '@/services/boards';
+import { subscribeToActions, useStore } from './useStore';
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 10_000;
+
+type ClientMessage =
+  | {
+      type: 'hello';
+      clientId: string;
+      user: PresenceViewer['user'];
+    }
+  | { type: 'presence'; boardId: string | null }
+  | { type: 'action'; action: BoardsAction };
+
+type ServerMessage =
+  | { type: 'action'; action: BoardsAction; clientId: string }
+  | { type: 'presence'; viewers: PresenceViewer[] };
+
+/** URL of the realtime server; realtime collaboration is off when empty. */
+export function getRealtimeUrl(): string {
+  return (import.meta.env.VITE_REALTIME_URL as string | undefined) ?? '';
+}
+
+let viewingBoardId: string | null = null;
+let sendMessage: ((message: ClientMessage) => void) | null = null;
+
+/** Tells other people which board this client has open. */
+export function setViewingBoard(boardId: string | null) {
+  if (boardId === viewingBoardId) return;
+  viewingBoardId = boardId;
+  sendMessage?.({ type: 'presence', boardId });
+}
+
+/**
+ * Streams board actions to and from the realtime server. Local actions are
+ * sent as they happen; actions from other people are replayed through
+ * `boardsReducer` as remote actions. Reconnects with backoff and, when a
+ * REST API is configured, reloads the boards after a reconnect to pick up
+ * anything missed in between. Returns a cleanup function.
+ */
+export function startRealtimeSync(url: string): () => void {
+  const clientId = `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+  let socket: WebSocket | null = null;
+  let stopped = false;
+  let attempt = 0;
+  let hasConnected = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const send = (message: ClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const resync = async () => {
+    if (!isApiEnabled() || useStore.getState().outbox.length > 0) return;
+    try {
+      const boards = await listBoards();
+      useStore
+        .getState()
+        .dispatch(
+          { type: 'SET_BOARDS', payload: { boards } },
+          { source: 'remote' }
+        );
+    } catch (error) {
+      console.error('Error reloading boards after reconnect:', error);
+    }
+  };
+
+  const handleMessage = (event: MessageEvent<string>) => {
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(event.data) as ServerMessage;
+    } catch {
+      return;
+    }
+
+    switch (message.type) {
+      case 'action':
+        if (message.clientId === clientId) return;
+        useStore.getState().dispatch(message.action, { source: 'remote' });
+        break;
+      case 'presence':
+        useStore
+          .getState()
+          .setPresence(message.viewers.filter((v) => v.clientId !== clientId));
+        break;
+    }
+  };
+
+  const connect = () => {
+    socket = new WebSocket(url);
+
+    socket.onopen = () => {
+      attempt = 0;
+      const { user } = useStore.getState();
+      send({
+        type: 'hello',
+        clientId,
+        user: user ? { id: user.id, name: user.name } : null,
+      });
+      send({ type: 'presence', boardId: viewingBoardId });
+      if (hasConnected) void resync();
+      hasConnected = true;
+    };
+    socket.onmessage = handleMessage;
+    socket.onclose = () => {
+      useStore.getState().setPresence([]);
+      if (stopped) return;
+      const delay = Math.min(
+        RECONNECT_BASE_MS * 2 ** attempt,
+        RECONNECT_MAX_MS
+      );
+      attempt += 1;
+      reconnectTimer = setTimeout(connect, delay);
+    };
+  };
+
+  const unsubscribe = subscribeToActions(({ action, source }) => {
+    if (source === 'local') send({ type: 'action', action });
+  });
+
+  sendMessage = send;
+  connect();
+
+  return () => {
+    stopped = true;
+    unsubscribe();
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    if (sendMessage === send) sendMessage = null;
+    socket?.close();
+    useStore.getState().setPresence([]);
+  };
+}
@@ -0,0 +1,224 @@
+import type { Board, BoardsAction, UiContextType } from '@/types/types';
+import {
+  describeMutation,
+  getActionMutations,
+  sendMutation,
+  type OutboxEntry,
+} from '@/services/actionRequests';
+import { isNetworkError } from '@/services/apiClient';
+import { getRevertActions } from '@/utils/inverseActions';
+import { BACKGROUND_LOADING_PREFIX } from '@/utils/loadingKeys';
+import { subscribeToActions, useStore } from './useStore';
+
+export const OUTBOX_RETRY_MS = 15_000;
+const SYNC_LOADING_KEY = `${BACKGROUND_LOADING_PREFIX}outbox`;
+const OUTBOX_LOCK = 'kanban-outbox';
+
+type ServerSyncUi = Pick<
+  UiContextType,
+  'startLoading' | 'stopLoading' | 'showToast'
+>;
+
+function generateOutboxId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+function errorReason(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Calls `onLeader` once this tab holds the outbox lock, which it keeps until
+ * the returned function releases it. Only one tab at a time sends the shared
+ * outbox. Without the Web Locks API every tab leads, as before.
+ */
+function leadOutbox(onLeader: () => void): () => void {
+  if (!('locks' in navigator)) {
+    onLeader();
+    return () => {};
+  }
+  const controller = new AbortController();
+  let release = () => {};
+  navigator.locks
+    .request(OUTBOX_LOCK, { signal: controller.signal }, () => {
+      onLeader();
+      return new Promise<void>((resolve) => (release = resolve));
+    })
+    .catch(() => {
+      // Aborted before the lock was granted.
+    });
+  return () => {
+    controller.abort();
+    release();
+  };
+}
+
+/**
+ * Sends every local board change to the server after it has already been
+ * applied to the store. Changes go through a persistent outbox and are sent
+ * one at a time in dispatch order:
+ *
+ * - A network failure leaves the outbox in place; it is replayed when the
+ *   browser comes back online (or on a retry timer), including after a
+ *   reload.
+ * - A change the server rejects while online is rolled back with an error
+ *   toast.
+ * - A change made offline that the server rejects on replay is reported as a
+ *   conflict and dropped.
+ *
+ * The outbox is shared by every open tab. Each tab queues its own changes,
+ * but only the tab holding the outbox lock sends them; a change queued by
+ * another tab that the server rejects is reported as a conflict there.
+ *
+ * Returns a cleanup function.
+ */
+export function startServerSync(ui: ServerSyncUi): () => void {
+  // What is needed to roll back changes queued in this session.
+  const rollbackInfo = new Map<
+    string,
+    { action: BoardsAction; previousBoards: Board[]; nextBoards: Board[] }
+  >();
+  let leading = false;
+  let draining = false;
+  let stopped = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const removeEntries = (predicate: (entry: OutboxEntry) => boolean) => {
+    useStore
+      .getState()
+      .updateOutbox((outbox) => outbox.filter((entry) => !predicate(entry)));
+  };
+
+  const goOffline = () => {
+    const { updateOutbox, setOffline } = useStore.getState();
+    updateOutbox((outbox) =>
+      outbox.map((entry) => ({ ...entry, offline: true }))
+    );
+    setOffline(true);
+    if (!retryTimer && !stopped) {
+      retryTimer = setTimeout(() => {
+        retryTimer = null;
+        void drain();
+      }, OUTBOX_RETRY_MS);
+    }
+  };
+
+  const handleRejected = (entry: OutboxEntry, error: unknown) => {
+    removeEntries((e) => e.actionId === entry.actionId);
+    const info = rollbackInfo.get(entry.actionId);
+    rollbackInfo.delete(entry.actionId);
+
+    if (!entry.offline && info) {
+      // Revert only what the change touched, keeping everything that
+      // happened since, here or in other tabs.
+      const rollback = getRevertActions(
+        { boards: info.previousBoards },
+        info.action,
+        info.nextBoards
+      );
+      for (const action of rollback) {
+        useStore.getState().dispatch(action, { cause: 'rollback' });
+      }
+      ui.showToast({
+        type: 'error',
+        message: `Could not save your change (${errorReason(error)}). It has been undone.`,
+      });
+      return;
+    }
+
+    ui.showToast({
+      type: 'error',
+      message: `Sync conflict: ${describeMutation(entry.mutation)} could not be applied (${errorReason(error)}).`,
+      duration: 0,
+    });
+  };
+
+  async function drain() {
+    if (!leading || draining || stopped) return;
+    if (useStore.getState().outbox.length === 0) {
+      useStore.getState().setOffline(false);
+      return;
+    }
+    draining = true;
+    ui.startLoading(SYNC_LOADING_KEY);
+    try {
+      for (;;) {
+        const [entry] = useStore.getState().outbox;
+        if (!entry || stopped) break;
+        try {
+          await sendMutation(entry.mutation);
+          removeEntries((e) => e.id === entry.id);
+          if (
+            !useStore
+              .getState()
+              .outbox.some((e) => e.actionId === entry.actionId)
+          ) {
+            rollbackInfo.delete(entry.actionId);
+          }
+        } catch (error) {
+          if (isNetworkError(error)) {
+            goOffline();
+            return;
+          }
+          handleRejected(entry, error);
+        }
+      }
+      useStore.getState().setOffline(false);
+    } finally {
+      draining = false;
+      ui.stopLoading(SYNC_LOADING_KEY);
+    }
+  }
+
+  const unsubscribe = subscribeToActions(
+    ({ action, source, cause, previousBoards }) => {
+      if (source !== 'local' || cause === 'rollback') return;
+
+      const { boards, offline, updateOutbox } = useStore.getState();
+      const mutations = getActionMutations(action, previousBoards, boards);
+      if (mutations.length === 0) return;
+
+      const actionId = generateOutboxId();
+      const queuedAt = new Date().toISOString();
+      rollbackInfo.set(actionId, {
+        action,
+        previousBoards,
+        nextBoards: boards,
+      });
+      updateOutbox((outbox) => [
+        ...outbox,
+        ...mutations.map((mutation) => ({
+          id: generateOutboxId(),
+          actionId,
+          mutation,
+          queuedAt,
+          offline,
+        })),
+      ]);
+    }
+  );
+
+  // Send whatever is queued here or in another tab. While offline, wait for
+  // the retry instead of failing every change.
+  const unsubscribeOutbox = useStore.subscribe((state, previous) => {
+    if (state.outbox !== previous.outbox && !state.offline) void drain();
+  });
+
+  const handleOnline = () => void drain();
+  window.addEventListener('online', handleOnline);
+
+  // Replay whatever the previous session could not send.
+  const stopLeading = leadOutbox(() => {
+    leading = true;
+    void drain();
+  });
+
+  return () => {
+    stopped = true;
+    stopLeading();
+    unsubscribe();
+    unsubscribeOutbox();
+    window.removeEventListener('online', handleOnline);
+    if (retryTimer) clearTimeout(retryTimer);
+  };
+}
@@ -0,0 +1,27 @@
+import { createActionMeta } from '@/utils/actionMeta';
+import { collectTaskActivity } from '@/utils/taskActivity';
+import { subscribeToActions, useStore } from './useStore';
+
+/**
+ * Records who changed which task, and how, after every action that touches
+ * a task: edits, moves, subtask toggles, undo and redo alike. Actions from
+ * other tabs and clients are recorded too, under the actor who made them.
+ * Returns a cleanup function.
+ */
+export function startTaskActivityLog(): () => void {
+  return subscribeToActions(({ action, cause, previousBoards }) => {
+    // Rollbacks undo a change the server rejected, which was never made as
+    // far as anyone else knows; the audit log skips them too.
+    if (cause === 'rollback') return;
+    // Hydration, resets and whole snapshots from elsewhere are not edits.
+    if (action.type === 'SET_BOARDS') return;
+    const { boards, recordTaskActivity } = useStore.getState();
+    const entries = collectTaskActivity(
+      action,
+      action.meta ?? createActionMeta(null),
+      previousBoards,
+      boards
+    );
+    if (entries.length > 0) recordTaskActivity(entries);
+  });
+}
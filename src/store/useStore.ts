@@ -1,18 +1,109 @@
 import { create } from 'zustand';
-import type { BoardsState, BoardsAction, User, UiToast } from '@/types/types';
+import type {
+  AuditLogEntry,
+  Board,
+  BoardsState,
+  BoardsAction,
+  Member,
+  PresenceViewer,
+  TaskActivityEntry,
+  User,
+  UiToast,
+} from '@/types/types';
 import { boardsReducer } from '@/utils/boardsReducer';
+import {
+  createHistory,
+  getHistoryGroupKey,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+  type BoardsHistory,
+  type HistoryStep,
+} from '@/utils/history';
+import { getRevertActions } from '@/utils/inverseActions';
+import { createActionMeta } from '@/utils/actionMeta';
+import { upsertMember } from '@/utils/members';
+import { appendActivity } from '@/utils/taskActivity';
+import { appendAuditEntry } from '@/utils/auditLog';
+import type { OutboxEntry } from '@/services/actionRequests';
 import {
   getTheme,
   setTheme as persistTheme,
   getAuth,
   setAuth as persistAuth,
+  getOutbox,
+  setOutbox as persistOutbox,
+  getMembers,
+  setMembers as persistMembers,
+  getTaskActivity,
+  setTaskActivity as persistTaskActivity,
+  getAuditLog,
+  setAuditLog as persistAuditLog,
 } from '@/utils/localStorage';
 
 const storedTheme = getTheme();
 const storedAuth = getAuth();
+const storedOutbox = getOutbox();
+const storedMembers = getMembers();
+const storedTaskActivity = getTaskActivity();
+const storedAuditLog = getAuditLog();
+
+/**
+ * `local` actions come from this tab's UI; `remote` ones were already applied
+ * elsewhere (another tab, the server) and are replayed here without being
+ * added to the undo history or echoed back.
+ */
+export type ActionSource = 'local' | 'remote';
+
+/**
+ * Why an action was dispatched, when it was not a direct user edit. `undo`
+ * and `redo` replay a step of the undo history. A `rollback` reverts a
+ * change the server rejected and is not sent to the server again. A
+ * `hydration` loads the saved boards when the app starts. None of them is
+ * recorded in the undo history.
+ */
+export type ActionCause = 'undo' | 'redo' | 'rollback' | 'hydration';
+
+export type DispatchOptions = {
+  /** Actions dispatched with the same group key undo as a single step. */
+  historyGroup?: string;
+  source?: ActionSource;
+  cause?: ActionCause;
+};
+
+export type ActionEvent = {
+  action: BoardsAction;
+  source: ActionSource;
+  cause?: ActionCause;
+  /** The boards as they were before the action ran. */
+  previousBoards: Board[];
+};
+
+type ActionListener = (event: ActionEvent) => void;
+
+const actionListeners = new Set<ActionListener>();
+
+/**
+ * Calls `listener` after every dispatched action that changed the boards.
+ * Undo and redo are reported as the actions they replay, one at a time.
+ */
+export function subscribeToActions(listener: ActionListener): () => void {
+  actionListeners.add(listener);
+  return () => {
+    actionListeners.delete(listener);
+  };
+}
+
+function notifyActionListeners(event: ActionEvent) {
+  actionListeners.forEach((listener) => listener(event));
+}
 
 export type AppStore = BoardsState & {
-  dispatch: (action: BoardsAction) => void;
+  dispatch: (action: BoardsAction, options?: DispatchOptions) => void;
+
+  history: BoardsHistory;
+  undo: () => void;
+  redo: () => void;
 
   theme: 'light' | 'dark';
   setTheme: (theme: 'light' | 'dark') => void;
@@ -22,6 +113,37 @@ export type AppStore = BoardsState & {
   login: (user: User) => void;
   logout: () => void;
 
+  /** The workspace member directory; whoever logs in is added to it. */
+  members: Member[];
+  addMember: (member: Member) => void;
+  removeMember: (id: string) => void;
+
+  /** Who changed which task and how, oldest first; see `taskActivityLog`. */
+  taskActivity: TaskActivityEntry[];
+  recordTaskActivity: (entries: TaskActivityEntry[]) => void;
+
+  /** Every change to the boards, oldest first; see `auditLog`. */
+  auditLog: AuditLogEntry[];
+  recordAuditEntry: (entry: AuditLogEntry) => void;
+
+  /**
+   * Server mutations not yet confirmed, oldest first. Shared by every tab;
+   * see `crossTabSync`.
+   */
+  outbox: OutboxEntry[];
+  /** Set when the last request could not reach the server. */
+  offline: boolean;
+  /**
+   * Applies `update` to the saved outbox rather than this tab's copy, which
+   * may not have caught up with what other tabs queued.
+   */
+  updateOutbox: (update: (outbox: OutboxEntry[]) => OutboxEntry[]) => void;
+  setOffline: (offline: boolean) => void;
+
+  /** Other people connected to the realtime channel. */
+  presence: PresenceViewer[];
+  setPresence: (presence: PresenceViewer[]) => void;
+
   loadingKeys: string[];
   toasts: UiToast[];
   addLoadingKey: (key: string) => void;
@@ -30,10 +152,83 @@ export type AppStore = BoardsState & {
   removeToast: (id: string) => void;
 };
 
-export const useStore = create<AppStore>((set) => ({
+/**
+ * Dispatches the actions of an undo or redo step and returns the step that
+ * reverts them again, worked out from the boards as they are now.
+ */
+function replayHistoryStep(
+  step: HistoryStep,
+  cause: 'undo' | 'redo'
+): HistoryStep {
+  const revert: HistoryStep = [];
+  for (const action of step) {
+    const state = useStore.getState();
+    state.dispatch(action, { cause });
+    const { boards } = useStore.getState();
+    if (boards !== state.boards) {
+      revert.unshift(...getRevertActions(state, action, boards));
+    }
+  }
+  return revert;
+}
+
+export const useStore = create<AppStore>((set, get) => ({
   boards: [],
-  dispatch: (action: BoardsAction) => {
-    set((state) => boardsReducer(state, action));
+  dispatch: (dispatched: BoardsAction, options?: DispatchOptions) => {
+    const source = options?.source ?? 'local';
+    const previousBoards = get().boards;
+    // Remote actions keep the stamp from the tab or client that made them.
+    const action =
+      source === 'local' && !dispatched.meta
+        ? { ...dispatched, meta: createActionMeta(get().user) }
+        : dispatched;
+
+    set((state) => {
+      const next = boardsReducer(state, action);
+
+      // Replacing all boards here (hydration, reset) starts a fresh history.
+      // A snapshot from elsewhere keeps it: undo steps only touch what they
+      // changed and skip whatever is gone.
+      if (action.type === 'SET_BOARDS' && source === 'local') {
+        return { ...next, history: createHistory() };
+      }
+      if (next.boards === state.boards) return state;
+      if (source === 'remote' || options?.cause) return next;
+
+      const groupKey = options?.historyGroup ?? getHistoryGroupKey(action);
+      return {
+        ...next,
+        history: recordHistory(
+          state.history,
+          getRevertActions(state, action, next.boards),
+          groupKey,
+          Date.now()
+        ),
+      };
+    });
+
+    if (action.type === 'SET_BOARDS' || get().boards !== previousBoards) {
+      notifyActionListeners({
+        action,
+        source,
+        cause: options?.cause,
+        previousBoards,
+      });
+    }
+  },
+
+  history: createHistory(),
+  undo: () => {
+    const step = get().history.past.at(-1);
+    if (!step) return;
+    const redo = replayHistoryStep(step, 'undo');
+    set((state) => ({ history: undoHistory(state.history, redo) }));
+  },
+  redo: () => {
+    const step = get().history.future[0];
+    if (!step) return;
+    const revert = replayHistoryStep(step, 'redo');
+    set((state) => ({ history: redoHistory(state.history, revert) }));
   },
 
   theme: storedTheme ?? 'light',
@@ -47,12 +242,58 @@ export const useStore = create<AppStore>((set) => ({
   login: (user: User) => {
     set({ user, isLoggedIn: true });
     persistAuth({ isLoggedIn: true, user });
+    get().addMember(user);
   },
   logout: () => {
     set({ user: null, isLoggedIn: false });
     persistAuth({ isLoggedIn: false, user: null });
   },
 
+  members: storedMembers,
+  addMember: (member: Member) => {
+    const members = upsertMember(get().members, member);
+    if (members === get().members) return;
+    set({ members });
+    persistMembers(members);
+  },
+  removeMember: (id: string) => {
+    const members = get().members.filter((m) => m.id !== id);
+    set({ members });
+    persistMembers(members);
+  },
+
+  taskActivity: storedTaskActivity,
+  recordTaskActivity: (entries: TaskActivityEntry[]) => {
+    const taskActivity = appendActivity(get().taskActivity, entries);
+    if (taskActivity === get().taskActivity) return;
+    set({ taskActivity });
+    persistTaskActivity(taskActivity);
+  },
+
+  auditLog: storedAuditLog,
+  recordAuditEntry: (entry: AuditLogEntry) => {
+    const auditLog = appendAuditEntry(get().auditLog, entry);
+    if (auditLog === get().auditLog) return;
+    set({ auditLog });
+    persistAuditLog(auditLog);
+  },
+
+  outbox: storedOutbox,
+  offline: storedOutbox.some((entry) => entry.offline),
+  updateOutbox: (update: (outbox: OutboxEntry[]) => OutboxEntry[]) => {
+    const outbox = update(getOutbox());
+    set({ outbox });
+    persistOutbox(outbox);
+  },
+  setOffline: (offline: boolean) => {
+    set({ offline });
+  },
+
+  presence: [],
+  setPresence: (presence: PresenceViewer[]) => {
+    set({ presence });
+  },
+
   loadingKeys: [],
   toasts: [],
   addLoadingKey: (key: string) => {
@@ -1,8 +1,8 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import type { ReactNode } from 'react';
-import { MemoryRouter } from 'react-router';
+import { MemoryRouter, Route, Routes, useLocation } from 'react-router';
 
 type BoardTask = {
   id: string;
@@ -10,26 +10,30 @@ type BoardTask = {
   description: string;
   status: string;
   subtasks: { title: string; isCompleted: boolean }[];
+  assigneeIds?: string[];
 };
 
-type BoardColumn = { name: string; tasks: BoardTask[] };
+type BoardColumn = { id: string; name: string; tasks: BoardTask[] };
 
-type Board = { name: string; columns: BoardColumn[] };
+type Board = { id: string; name: string; columns: BoardColumn[] };
 
 type CurrentBoardHookResult = {
   board: Board | null;
   boardIndex: number | null;
 };
 
-const { mockUseBoards, mockUseCurrentBoard } = vi.hoisted(() => ({
+const { mockDispatch, mockUseBoards, mockUseCurrentBoard } = vi.hoisted(() => ({
+  mockDispatch: vi.fn(),
   mockUseBoards: vi.fn(() => ({
-    dispatch: vi.fn(),
+    dispatch: mockDispatch,
   })),
   mockUseCurrentBoard: vi.fn<() => CurrentBoardHookResult>(() => ({
     board: {
+      id: 'board-1',
       name: 'Test Board',
       columns: [
         {
+          id: 'column-todo',
           name: 'Todo',
           tasks: [
             {
@@ -44,7 +48,7 @@ const { mockUseBoards, mockUseCurrentBoard } = vi.hoisted(() => ({
             },
           ],
         },
-        { name: 'Done', tasks: [] },
+        { id: 'column-done', name: 'Done', tasks: [] },
       ],
     },
     boardIndex: 0,
@@ -76,8 +80,23 @@ vi.mock('@/hooks/useCurrentBoard', () => ({
 
 // Mock modals
 vi.mock('@/components/modals/TaskDetailsModal', () => ({
-  TaskDetailsModal: ({ open }: { open: boolean }) =>
-    open ? <div>TaskDetailsModal</div> : null,
+  TaskDetailsModal: ({
+    open,
+    onClose,
+    taskId,
+  }: {
+    open: boolean;
+    onClose: () => void;
+    taskId: string;
+  }) =>
+    open ? (
+      <div>
+        TaskDetailsModal {taskId}
+        <button type="button" onClick={onClose}>
+          Close details
+        </button>
+      </div>
+    ) : null,
 }));
 
 vi.mock('@/components/modals/AddColumnModal', () => ({
@@ -87,10 +106,29 @@ vi.mock('@/components/modals/AddColumnModal', () => ({
 
 // Import component after mocks are set up
 import { BoardView } from '@/pages/BoardView';
+import { useStore } from '@/store/useStore';
 
-// Helper to render with router
-const renderWithRouter = (ui: ReactNode) => {
-  return render(<MemoryRouter>{ui}</MemoryRouter>);
+function LocationDisplay() {
+  const { pathname, search } = useLocation();
+  return <div data-testid="location">{pathname + search}</div>;
+}
+
+const task = { description: '', status: 'Todo', subtasks: [] };
+
+// Helper to render with the board routes
+const boardPath = '/board/test-board--board-1';
+
+const renderWithRouter = (ui: ReactNode, initialPath = boardPath) => {
+  return render(
+    <MemoryRouter initialEntries={[initialPath]}>
+      <Routes>
+        <Route path="board/:boardId" element={ui}>
+          <Route path="task/:taskId" element={null} />
+        </Route>
+      </Routes>
+      <LocationDisplay />
+    </MemoryRouter>
+  );
 };
 
 describe('BoardView', () => {
@@ -101,9 +139,11 @@ describe('BoardView', () => {
     // Reset mock to default return value
     mockUseCurrentBoard.mockReturnValue({
       board: {
+        id: 'board-1',
         name: 'Test Board',
         columns: [
           {
+            id: 'column-todo',
             name: 'Todo',
             tasks: [
               {
@@ -118,7 +158,7 @@ describe('BoardView', () => {
               },
             ],
           },
-          { name: 'Done', tasks: [] },
+          { id: 'column-done', name: 'Done', tasks: [] },
         ],
       },
       boardIndex: 0,
@@ -136,7 +176,7 @@ describe('BoardView', () => {
 
   it('shows empty board message when no columns', () => {
     mockUseCurrentBoard.mockReturnValue({
-      board: { name: 'Empty Board', columns: [] },
+      board: { id: 'board-empty', name: 'Empty Board', columns: [] },
       boardIndex: 0,
     });
 
@@ -162,7 +202,36 @@ describe('BoardView', () => {
   it('opens task details modal on task click', async () => {
     renderWithRouter(<BoardView />);
     await user.click(screen.getByText('Test Task'));
-    expect(screen.getByText('TaskDetailsModal')).toBeInTheDocument();
+    expect(screen.getByText('TaskDetailsModal task-1')).toBeInTheDocument();
+    expect(screen.getByTestId('location')).toHaveTextContent(
+      `${boardPath}/task/task-1`
+    );
+  });
+
+  it('opens the task details modal from a task link', () => {
+    renderWithRouter(<BoardView />, `${boardPath}/task/task-1`);
+    expect(screen.getByText('TaskDetailsModal task-1')).toBeInTheDocument();
+  });
+
+  it('returns to the board URL when the task modal closes', async () => {
+    renderWithRouter(<BoardView />, `${boardPath}/task/task-1`);
+    await user.click(screen.getByText('Close details'));
+    expect(screen.queryByText(/TaskDetailsModal/)).not.toBeInTheDocument();
+    expect(screen.getByTestId('location').textContent).toBe(boardPath);
+  });
+
+  it('falls back to the board for an unknown task', () => {
+    renderWithRouter(<BoardView />, `${boardPath}/task/missing`);
+    expect(screen.queryByText(/TaskDetailsModal/)).not.toBeInTheDocument();
+    expect(screen.getByTestId('location').textContent).toBe(boardPath);
+  });
+
+  it('redirects old index URLs to the board id URL', () => {
+    renderWithRouter(<BoardView />, '/board/0/task/task-1');
+    expect(screen.getByTestId('location').textContent).toBe(
+      `${boardPath}/task/task-1`
+    );
+    expect(screen.getByText('TaskDetailsModal task-1')).toBeInTheDocument();
   });
 
   it('opens add column modal on button click', async () => {
@@ -175,4 +244,347 @@ describe('BoardView', () => {
     renderWithRouter(<BoardView />);
     expect(document.querySelector('[data-dnd-kit-overlay]')).toBeNull();
   });
+
+  describe('assigned to me filter', () => {
+    const me = { id: 'member-me', name: 'Ann Lee', email: 'ann@example.com' };
+    const other = { id: 'member-bo', name: 'Bo', email: 'bo@example.com' };
+
+    beforeEach(() => {
+      useStore.setState({ user: me, isLoggedIn: true, members: [me, other] });
+      mockUseCurrentBoard.mockReturnValue({
+        board: {
+          id: 'board-1',
+          name: 'Test Board',
+          columns: [
+            {
+              id: 'column-todo',
+              name: 'Todo',
+              tasks: [
+                { id: 'mine', title: 'Mine', ...task, assigneeIds: [me.id] },
+                {
+                  id: 'theirs',
+                  title: 'Theirs',
+                  ...task,
+                  assigneeIds: [other.id],
+                },
+                { id: 'open', title: 'Unassigned', ...task },
+              ],
+            },
+          ],
+        },
+        boardIndex: 0,
+      });
+    });
+
+    afterEach(() => {
+      act(() => {
+        useStore.setState({ user: null, isLoggedIn: false, members: [] });
+      });
+    });
+
+    it('shows assignee initials on the cards', () => {
+      renderWithRouter(<BoardView />);
+
+      expect(screen.getByRole('img', { name: 'Ann Lee' })).toHaveTextContent(
+        'A'
+      );
+      expect(screen.getByRole('img', { name: 'Bo' })).toHaveTextContent('B');
+    });
+
+    it('hides tasks assigned to others and keeps the filter in the URL', async () => {
+      renderWithRouter(<BoardView />);
+      const toggle = screen.getByRole('button', { name: 'Assigned to me' });
+
+      await user.click(toggle);
+
+      expect(toggle).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByText('Mine')).toBeVisible();
+      expect(screen.getByText('Theirs')).not.toBeVisible();
+      expect(screen.getByText('Unassigned')).not.toBeVisible();
+      expect(screen.getByText('Todo (1)')).toBeInTheDocument();
+
+      await user.click(screen.getByText('Mine'));
+      expect(screen.getByTestId('location').textContent).toBe(
+        `${boardPath}/task/mine?assigned=me`
+      );
+
+      await user.click(screen.getByText('Close details'));
+      await user.click(toggle);
+      expect(screen.getByTestId('location').textContent).toBe(boardPath);
+      expect(screen.getByText('Todo (3)')).toBeInTheDocument();
+    });
+
+    it('is not offered when nobody is logged in', () => {
+      useStore.setState({ user: null, isLoggedIn: false });
+      renderWithRouter(<BoardView />, `${boardPath}?assigned=me`);
+
+      expect(
+        screen.queryByRole('button', { name: 'Assigned to me' })
+      ).not.toBeInTheDocument();
+      expect(screen.getByText('Todo (3)')).toBeInTheDocument();
+    });
+  });
+
+  describe('single-column view', () => {
+    const scrollIntoView = vi.fn();
+
+    beforeEach(() => {
+      vi.stubGlobal(
+        'matchMedia',
+        vi.fn((query: string) => ({
+          matches: query === '(max-width: 767px)',
+          addEventListener: vi.fn(),
+          removeEventListener: vi.fn(),
+        }))
+      );
+      Element.prototype.scrollIntoView = scrollIntoView;
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      // jsdom has no scrollIntoView of its own.
+      delete (Element.prototype as Partial<Element>).scrollIntoView;
+    });
+
+    it('pages between columns on small screens', async () => {
+      renderWithRouter(<BoardView />);
+
+      const columns = document.querySelector('.app-board-columns')!;
+      expect(columns).toHaveClass('app-board-columns-single');
+      expect(screen.getByRole('button', { name: 'Show Todo' })).toHaveAttribute(
+        'aria-current',
+        'true'
+      );
+      expect(
+        screen.getByRole('button', { name: 'Previous column' })
+      ).toBeDisabled();
+
+      await user.click(screen.getByRole('button', { name: 'Next column' }));
+
+      expect(scrollIntoView).toHaveBeenCalledTimes(1);
+      expect(scrollIntoView.mock.contexts[0]).toHaveTextContent('Done (0)');
+      expect(screen.getByRole('button', { name: 'Show Done' })).toHaveAttribute(
+        'aria-current',
+        'true'
+      );
+      expect(
+        screen.getByRole('button', { name: 'Next column' })
+      ).toBeDisabled();
+    });
+
+    it('shows every column side by side on wider screens', () => {
+      vi.stubGlobal(
+        'matchMedia',
+        vi.fn(() => ({
+          matches: false,
+          addEventListener: vi.fn(),
+          removeEventListener: vi.fn(),
+        }))
+      );
+      renderWithRouter(<BoardView />);
+
+      expect(
+        screen.queryByRole('navigation', { name: 'Columns' })
+      ).not.toBeInTheDocument();
+      expect(document.querySelector('.app-board-columns')).not.toHaveClass(
+        'app-board-columns-single'
+      );
+    });
+  });
+
+  describe('keyboard dragging', () => {
+    // jsdom has no layout, so lay the board out by hand: columns side by
+    // side, and the cards and drop placeholder stacked inside them.
+    beforeEach(() => {
+      vi.spyOn(
+        HTMLElement.prototype,
+        'getBoundingClientRect'
+      ).mockImplementation(function (this: HTMLElement) {
+        // The drag overlay is positioned over the dragged node's rect, and
+        // dnd-kit measures its first child.
+        const overlay = this.closest<HTMLElement>('[style*="position: fixed"]');
+        if (overlay) {
+          return DOMRect.fromRect({
+            x: parseFloat(overlay.style.left),
+            y: parseFloat(overlay.style.top),
+            width: parseFloat(overlay.style.width),
+            height: parseFloat(overlay.style.height),
+          });
+        }
+        const column = this.closest('.app-board-column');
+        const columns = [...document.querySelectorAll('.app-board-column')];
+        const left = column ? columns.indexOf(column) * 304 : 0;
+        if (this === column) {
+          return DOMRect.fromRect({ x: left, width: 280, height: 600 });
+        }
+        if (column && this.matches('.app-board-tasks > li')) {
+          const items = [
+            ...column.querySelectorAll<HTMLElement>('.app-board-tasks > li'),
+          ].filter((item) => item.style.display !== 'none');
+          const index = items.indexOf(this);
+          if (index === -1) return new DOMRect();
+          return DOMRect.fromRect({
+            x: left + 16,
+            y: 50 + index * 100,
+            width: 248,
+            height: 88,
+          });
+        }
+        return new DOMRect();
+      });
+    });
+
+    afterEach(() => vi.restoreAllMocks());
+
+    const pressKey = async (key: string) => {
+      await user.keyboard(key);
+      // The keyboard sensor attaches its listeners on the next tick.
+      await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+    };
+
+    it('moves a column with the keyboard by its header', async () => {
+      renderWithRouter(<BoardView />);
+
+      const header = screen.getByText('Todo (1)').parentElement!;
+      expect(header).toHaveAttribute(
+        'aria-roledescription',
+        'draggable column'
+      );
+      header.focus();
+      await pressKey('[Space]');
+      await pressKey('[ArrowRight]');
+      expect(
+        document.querySelector('[data-drop-indicator="after"]')
+      ).toHaveTextContent('Done (0)');
+      await pressKey('[Space]');
+
+      expect(mockDispatch).toHaveBeenCalledWith({
+        type: 'REORDER_COLUMN_BY_ID',
+        payload: { boardId: 'board-1', fromIndex: 0, toIndex: 1 },
+      });
+      expect(document.querySelector('[data-drop-indicator]')).toBeNull();
+    });
+
+    it('leaves the order alone when the drag is cancelled', async () => {
+      renderWithRouter(<BoardView />);
+
+      screen.getByText('Done (0)').parentElement!.focus();
+      await pressKey('[Space]');
+      await pressKey('[ArrowLeft]');
+      await pressKey('[Escape]');
+
+      expect(mockDispatch).not.toHaveBeenCalled();
+    });
+
+    describe('tasks', () => {
+      beforeEach(() => {
+        mockUseCurrentBoard.mockReturnValue({
+          board: {
+            id: 'board-1',
+            name: 'Test Board',
+            columns: [
+              {
+                id: 'column-todo',
+                name: 'Todo',
+                tasks: [
+                  { ...task, id: 'task-1', title: 'Plan' },
+                  { ...task, id: 'task-2', title: 'Design' },
+                ],
+              },
+              {
+                id: 'column-done',
+                name: 'Done',
+                tasks: [{ ...task, id: 'task-3', title: 'Ship' }],
+              },
+            ],
+          },
+          boardIndex: 0,
+        });
+      });
+
+      const pickUp = async (title: string) => {
+        screen.getByText(title).closest('li')!.focus();
+        await pressKey('[Space]');
+      };
+
+      it('moves a task down within its column', async () => {
+        renderWithRouter(<BoardView />);
+
+        await pickUp('Plan');
+        await pressKey('[ArrowDown]');
+        await pressKey('[Space]');
+
+        expect(mockDispatch).toHaveBeenCalledWith({
+          type: 'MOVE_TASK_TO_INDEX_BY_ID',
+          payload: {
+            boardId: 'board-1',
+            taskId: 'task-1',
+            toColumnId: 'column-todo',
+            toIndex: 1,
+          },
+        });
+      });
+
+      it('moves a task into a position in the next column', async () => {
+        renderWithRouter(<BoardView />);
+
+        await pickUp('Plan');
+        await pressKey('[ArrowRight]');
+        await pressKey('[ArrowDown]');
+        await pressKey('[Space]');
+
+        expect(mockDispatch).toHaveBeenCalledWith({
+          type: 'MOVE_TASK_TO_INDEX_BY_ID',
+          payload: {
+            boardId: 'board-1',
+            taskId: 'task-1',
+            toColumnId: 'column-done',
+            toIndex: 1,
+          },
+        });
+      });
+
+      it('moves a task back up past the card above it', async () => {
+        renderWithRouter(<BoardView />);
+
+        await pickUp('Design');
+        await pressKey('[ArrowUp]');
+        await pressKey('[Space]');
+
+        expect(mockDispatch).toHaveBeenCalledWith({
+          type: 'MOVE_TASK_TO_INDEX_BY_ID',
+          payload: {
+            boardId: 'board-1',
+            taskId: 'task-2',
+            toColumnId: 'column-todo',
+            toIndex: 0,
+          },
+        });
+      });
+
+      it('announces moves by task and column name', async () => {
+        renderWithRouter(<BoardView />);
+        const liveRegion = () =>
+          document.querySelector('[aria-live="assertive"]')!;
+
+        // Picking the card up puts it over its own place straight away.
+        await pickUp('Plan');
+        expect(liveRegion()).toHaveTextContent(
+          'Task "Plan" will be placed in Todo, position 1 of 2.'
+        );
+
+        await pressKey('[ArrowRight]');
+        expect(liveRegion()).toHaveTextContent(
+          'Task "Plan" will be placed in Done, position 1 of 2.'
+        );
+
+        await pressKey('[Escape]');
+        expect(liveRegion()).toHaveTextContent(
+          'Moving task "Plan" was cancelled. It is back in Todo.'
+        );
+        expect(liveRegion().textContent).not.toContain('::');
+        expect(mockDispatch).not.toHaveBeenCalled();
+      });
+    });
+  });
 });
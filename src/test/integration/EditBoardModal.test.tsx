@@ -0,0 +1,340 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { ReactNode } from 'react';
+import { useStore } from '@/store/useStore';
+import type { Board } from '@/types/types';
+
+const { mockShowToast } = vi.hoisted(() => ({ mockShowToast: vi.fn() }));
+
+vi.mock('@components/ui/Modal', () => ({
+  Modal: ({ children, open }: { children: ReactNode; open: boolean }) =>
+    open ? <div>{children}</div> : null,
+}));
+
+vi.mock('@/hooks/useUi', () => ({
+  useUi: () => ({ showToast: mockShowToast }),
+}));
+
+import { EditBoardModal } from '@/components/modals/EditBoardModal';
+
+const board: Board = {
+  id: 'board-1',
+  name: 'Roadmap',
+  labels: [
+    { name: 'ux', color: '#49c4e5' },
+    { name: 'api', color: '#635fc7' },
+  ],
+  columns: [
+    {
+      id: 'col-todo',
+      name: 'Todo',
+      tasks: [
+        { id: 'task-1', title: 'Plan', status: 'Todo', labels: ['ux', 'api'] },
+        { id: 'task-2', title: 'Design', status: 'Todo' },
+      ],
+    },
+    {
+      id: 'col-doing',
+      name: 'Doing',
+      tasks: [
+        { id: 'task-3', title: 'Build', status: 'Doing', labels: ['api'] },
+      ],
+    },
+    { id: 'col-done', name: 'Done', tasks: [] },
+  ],
+};
+
+const getBoard = () => useStore.getState().boards[0];
+const taskIds = (columnIndex: number) =>
+  getBoard().columns[columnIndex].tasks.map((t) => t.id);
+
+// Like the layout, pass the board as it is in the store.
+function LiveEditBoardModal({ onClose }: { onClose: () => void }) {
+  const current = useStore((state) => state.boards[0]);
+  return (
+    <EditBoardModal
+      open
+      onClose={onClose}
+      boardName={board.name}
+      boardIndex={0}
+      originalBoard={current}
+    />
+  );
+}
+
+function renderModal() {
+  const onClose = vi.fn();
+  render(<LiveEditBoardModal onClose={onClose} />);
+  return { onClose };
+}
+
+describe('EditBoardModal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    act(() => {
+      useStore
+        .getState()
+        .dispatch({ type: 'SET_BOARDS', payload: { boards: [board] } });
+    });
+  });
+
+  it('keeps tasks when a column is renamed', async () => {
+    const user = userEvent.setup();
+    renderModal();
+
+    const input = screen.getByDisplayValue('Todo');
+    await user.clear(input);
+    await user.type(input, 'Backlog');
+    await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+
+    const [backlog] = getBoard().columns;
+    expect(backlog).toMatchObject({ id: 'col-todo', name: 'Backlog' });
+    expect(backlog.tasks.map((t) => t.status)).toEqual(['Backlog', 'Backlog']);
+  });
+
+  it('renames the board without undoing changes made since it opened', async () => {
+    const user = userEvent.setup();
+    renderModal();
+    act(() => {
+      useStore.getState().dispatch({
+        type: 'DELETE_TASK_BY_ID',
+        payload: { boardId: 'board-1', taskId: 'task-2' },
+      });
+    });
+
+    const input = screen.getByLabelText('Board Name');
+    await user.clear(input);
+    await user.type(input, 'Launch');
+    await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+
+    expect(getBoard().name).toBe('Launch');
+    expect(taskIds(0)).toEqual(['task-1']);
+  });
+
+  it('keeps columns added elsewhere while it was open', async () => {
+    const user = userEvent.setup();
+    renderModal();
+    act(() => {
+      useStore.getState().dispatch({
+        type: 'ADD_COLUMN_BY_ID',
+        payload: {
+          boardId: 'board-1',
+          column: {
+            id: 'col-qa',
+            name: 'QA',
+            tasks: [{ id: 'task-4', title: 'Test', status: 'QA' }],
+          },
+        },
+      });
+    });
+
+    await user.click(screen.getByRole('button', { name: 'Move Done up' }));
+    await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+
+    expect(getBoard().columns.map((c) => c.id)).toEqual([
+      'col-todo',
+      'col-done',
+      'col-doing',
+      'col-qa',
+    ]);
+    expect(taskIds(3)).toEqual(['task-4']);
+  });
+
+  it('removes an empty column without asking', async () => {
+    const user = userEvent.setup();
+    renderModal();
+
+    const done = screen
+      .getByDisplayValue('Done')
+      .closest('div')!.parentElement!;
+    await user.click(within(done).getByRole('button', { name: 'Remove item' }));
+    expect(screen.queryByRole('group')).not.toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+
+    expect(getBoard().columns.map((c) => c.id)).toEqual([
+      'col-todo',
+      'col-doing',
+    ]);
+  });
+
+  it('moves the tasks of a removed column to the chosen destination', async () => {
+    const user = userEvent.setup();
+    renderModal();
+
+    const todo = screen
+      .getByDisplayValue('Todo')
+      .closest('div')!.parentElement!;
+    await user.click(within(todo).getByRole('button', { name: 'Remove item' }));
+
+    const prompt = screen.getByRole('group', { name: 'Remove Todo' });
+    expect(prompt).toHaveTextContent('Move its 2 tasks to');
+    await user.click(within(prompt).getByRole('button', { name: /Doing/ }));
+    await user.click(within(prompt).getByText('Done'));
+    await user.click(
+      within(prompt).getByRole('button', { name: 'Remove Column' })
+    );
+    await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+
+    expect(getBoard().columns.map((c) => c.id)).toEqual([
+      'col-doing',
+      'col-done',
+    ]);
+    expect(taskIds(1)).toEqual(['task-1', 'task-2']);
+    expect(getBoard().columns[1].tasks.every((t) => t.status === 'Done')).toBe(
+      true
+    );
+  });
+
+  it('deletes the tasks of a removed column when asked to', async () => {
+    const user = userEvent.setup();
+    renderModal();
+
+    const doing = screen
+      .getByDisplayValue('Doing')
+      .closest('div')!.parentElement!;
+    await user.click(
+      within(doing).getByRole('button', { name: 'Remove item' })
+    );
+    const prompt = screen.getByRole('group', { name: 'Remove Doing' });
+    await user.click(within(prompt).getByRole('button', { name: /Todo/ }));
+    await user.click(within(prompt).getByText('Delete the tasks'));
+    await user.click(
+      within(prompt).getByRole('button', { name: 'Remove Column' })
+    );
+    await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+
+    expect(getBoard().columns.map((c) => c.id)).toEqual([
+      'col-todo',
+      'col-done',
+    ]);
+    expect(taskIds(0)).toEqual(['task-1', 'task-2']);
+    expect(taskIds(1)).toEqual([]);
+  });
+
+  it('saves the new column order and undoes the edit in one step', async () => {
+    const user = userEvent.setup();
+    renderModal();
+
+    await user.click(screen.getByRole('button', { name: 'Move Done up' }));
+    await user.click(screen.getByRole('button', { name: 'Move Done up' }));
+    await user.click(screen.getByRole('button', { name: '+ Add New Column' }));
+    await user.type(
+      screen.getAllByPlaceholderText('e.g. In Progress')[3],
+      'QA'
+    );
+    await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+
+    expect(getBoard().columns.map((c) => c.name)).toEqual([
+      'Done',
+      'Todo',
+      'Doing',
+      'QA',
+    ]);
+
+    act(() => useStore.getState().undo());
+    expect(getBoard()).toEqual(board);
+  });
+
+  describe('labels', () => {
+    const taskLabels = () =>
+      getBoard().columns.flatMap((c) => c.tasks.map((t) => t.labels));
+
+    it('renames and removes labels on every task that uses them', async () => {
+      const user = userEvent.setup();
+      renderModal();
+
+      const api = screen.getByDisplayValue('api');
+      await user.clear(api);
+      await user.type(api, 'backend');
+      const ux = screen.getByDisplayValue('ux').closest('.app-label-draft')!;
+      await user.click(within(ux as HTMLElement).getByLabelText('Remove item'));
+      await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+
+      expect(getBoard().labels).toEqual([
+        { name: 'backend', color: '#635fc7' },
+      ]);
+      expect(taskLabels()).toEqual([['backend'], undefined, ['backend']]);
+    });
+
+    it('keeps labels added elsewhere while it was open', async () => {
+      const user = userEvent.setup();
+      renderModal();
+      act(() => {
+        useStore.getState().dispatch({
+          type: 'ADD_LABEL_BY_ID',
+          payload: { boardId: 'board-1', label: { name: 'qa', color: '#fff' } },
+        });
+        useStore.getState().dispatch({
+          type: 'UPDATE_TASK_BY_ID',
+          payload: {
+            boardId: 'board-1',
+            taskId: 'task-2',
+            task: { id: 'task-2', title: 'Design', labels: ['qa'] },
+          },
+        });
+      });
+
+      await user.type(screen.getByDisplayValue('api'), '2');
+      await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+
+      expect(getBoard().labels?.map((l) => l.name)).toEqual([
+        'ux',
+        'api2',
+        'qa',
+      ]);
+      expect(taskLabels()[1]).toEqual(['qa']);
+    });
+
+    it('adds a label to the catalog', async () => {
+      const user = userEvent.setup();
+      renderModal();
+
+      await user.click(screen.getByRole('button', { name: '+ Add New Label' }));
+      const [, , added] = screen.getAllByPlaceholderText('e.g. Frontend');
+      await user.type(added, 'qa');
+      await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+
+      expect(getBoard().labels?.map((l) => l.name)).toEqual([
+        'ux',
+        'api',
+        'qa',
+      ]);
+    });
+
+    it('swaps the names of two labels', async () => {
+      const user = userEvent.setup();
+      renderModal();
+
+      const ux = screen.getByDisplayValue('ux');
+      const api = screen.getByDisplayValue('api');
+      await user.clear(ux);
+      await user.type(ux, 'api');
+      await user.clear(api);
+      await user.type(api, 'ux');
+      await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+
+      expect(getBoard().labels).toEqual([
+        { name: 'api', color: '#49c4e5' },
+        { name: 'ux', color: '#635fc7' },
+      ]);
+      expect(taskLabels()).toEqual([['api', 'ux'], undefined, ['ux']]);
+    });
+
+    it('refuses two labels with the same name', async () => {
+      const user = userEvent.setup();
+      const { onClose } = renderModal();
+
+      const api = screen.getByDisplayValue('api');
+      await user.clear(api);
+      await user.type(api, 'UX');
+      await user.click(screen.getByRole('button', { name: 'Save Changes' }));
+
+      expect(screen.getByRole('alert')).toHaveTextContent(
+        'Label names must be unique.'
+      );
+      expect(onClose).not.toHaveBeenCalled();
+      expect(getBoard().labels).toEqual(board.labels);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { act, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter, useLocation } from 'react-router';
+import { GlobalSearch } from '@components/layout/GlobalSearch';
+import { useStore } from '@/store/useStore';
+
+function LocationDisplay() {
+  const { pathname } = useLocation();
+  return <div data-testid="location">{pathname}</div>;
+}
+
+const renderSearch = () =>
+  render(
+    <MemoryRouter initialEntries={['/']}>
+      <GlobalSearch />
+      <LocationDisplay />
+    </MemoryRouter>
+  );
+
+describe('GlobalSearch', () => {
+  const user = userEvent.setup();
+
+  beforeEach(() => {
+    act(() => {
+      useStore.setState({
+        boards: [
+          {
+            id: 'board-1',
+            name: 'Roadmap',
+            columns: [
+              {
+                id: 'todo',
+                name: 'Todo',
+                tasks: [
+                  {
+                    id: 'task-1',
+                    title: 'Plan launch',
+                    status: 'Todo',
+                    subtasks: [],
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            id: 'board-2',
+            name: 'Ops',
+            columns: [
+              {
+                id: 'doing',
+                name: 'Doing',
+                tasks: [
+                  {
+                    id: 'task-2',
+                    title: 'Rotate keys',
+                    status: 'Doing',
+                    subtasks: [{ title: 'Plan rollout', isCompleted: false }],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      });
+    });
+  });
+
+  afterEach(() => {
+    act(() => {
+      useStore.setState({ boards: [] });
+    });
+  });
+
+  it('groups highlighted matches by board and column', async () => {
+    renderSearch();
+    await user.click(screen.getByRole('button', { name: 'Search tasks' }));
+    await user.type(screen.getByRole('combobox'), 'plan');
+
+    expect(screen.getByRole('status')).toHaveTextContent('2 matching tasks.');
+    const roadmap = screen.getByRole('group', { name: 'Roadmap, Todo' });
+    expect(within(roadmap).getByRole('option')).toHaveTextContent(
+      'Plan launch'
+    );
+    const ops = screen.getByRole('group', { name: 'Ops, Doing' });
+    expect(within(ops).getByRole('option')).toHaveTextContent(
+      'Subtask: Plan rollout'
+    );
+    expect(
+      screen.getAllByText('Plan', { selector: 'mark' }).length
+    ).toBeGreaterThan(0);
+  });
+
+  it('opens the picked task on its board', async () => {
+    renderSearch();
+    await user.keyboard('{Control>}k{/Control}');
+    await user.type(screen.getByRole('combobox'), 'plan');
+    await user.keyboard('{ArrowDown}{Enter}');
+
+    expect(screen.getByTestId('location')).toHaveTextContent(
+      '/board/ops--board-2/task/task-2'
+    );
+    expect(screen.queryByRole('combobox')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import { useStore } from '@/store/useStore';
+import type { OutboxEntry } from '@/services/actionRequests';
+
+const { mockUiState } = vi.hoisted(() => ({
+  mockUiState: { loadingKeys: [] as string[] },
+}));
+
+vi.mock('@hooks/useUi', () => ({
+  useUi: () => ({ state: mockUiState }),
+}));
+
+import { SyncIndicator } from '@/components/ui/SyncIndicator';
+
+const entry = (id: string): OutboxEntry => ({
+  id,
+  actionId: id,
+  mutation: { type: 'deleteBoard', boardId: 'board-1' },
+  queuedAt: '2026-03-09T10:00:00.000Z',
+  offline: false,
+});
+
+describe('SyncIndicator', () => {
+  beforeEach(() => {
+    mockUiState.loadingKeys = [];
+    act(() => useStore.setState({ outbox: [], offline: false }));
+  });
+
+  it('counts pending changes while online', () => {
+    act(() => useStore.setState({ outbox: [entry('a'), entry('b')] }));
+    render(<SyncIndicator />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('2 pending changes');
+  });
+
+  it('shows the saving or offline state next to the count', () => {
+    mockUiState.loadingKeys = ['sync:outbox'];
+    act(() => useStore.setState({ outbox: [entry('a')] }));
+    const { rerender } = render(<SyncIndicator />);
+    expect(screen.getByRole('status')).toHaveTextContent(
+      'Saving… · 1 pending change'
+    );
+
+    act(() => useStore.setState({ offline: true }));
+    rerender(<SyncIndicator />);
+    expect(screen.getByRole('status')).toHaveTextContent(
+      'Offline · 1 pending change'
+    );
+  });
+});
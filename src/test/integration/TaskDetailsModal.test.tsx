@@ -1,5 +1,5 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render, screen, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import type { ReactNode } from 'react';
 
@@ -34,9 +34,11 @@ const {
 const defaultBoardData = {
   boards: [
     {
+      id: 'board-1',
       name: 'Test Board',
       columns: [
         {
+          id: 'column-todo',
           name: 'Todo',
           tasks: [
             {
@@ -49,6 +51,31 @@ const defaultBoardData = {
                 { title: 'Subtask 2', isCompleted: true },
               ],
             },
+            {
+              id: 'task-2',
+              title: 'Late Task',
+              status: 'Todo',
+              priority: 'urgent',
+              dueDate: '2020-01-15',
+              labels: ['frontend', 'ux'],
+              comments: [
+                {
+                  id: 'comment-1',
+                  authorId: 'member-me',
+                  authorName: 'Ann Lee',
+                  body: 'Mine',
+                  createdAt: '2026-03-09T10:00:00.000Z',
+                },
+                {
+                  id: 'comment-2',
+                  authorId: 'member-bo',
+                  authorName: 'Bo',
+                  body: 'Theirs',
+                  createdAt: '2026-03-09T11:00:00.000Z',
+                  editedAt: '2026-03-09T12:00:00.000Z',
+                },
+              ],
+            },
           ],
         },
       ],
@@ -106,22 +133,21 @@ vi.mock('@/components/modals/DeleteTaskModal', () => ({
   DeleteTaskModal: ({
     open,
     onClose,
-    taskTitle,
-    boardIndex,
-    columnName,
+    boardId,
+    taskId,
   }: {
     open: boolean;
     onClose: () => void;
     taskTitle: string;
-    boardIndex: number | null;
-    columnName: string | null;
+    boardId: string | null;
+    taskId: string | null;
   }) => {
     if (!open) return null;
     const handleConfirm = () => {
       mockStartLoading('deleteTask');
       mockDispatch({
-        type: 'DELETE_TASK',
-        payload: { boardIndex, columnName, taskTitle },
+        type: 'DELETE_TASK_BY_ID',
+        payload: { boardId, taskId },
       });
       mockShowToast({ type: 'success', message: 'Task deleted' });
       mockStopLoading('deleteTask');
@@ -136,6 +162,7 @@ vi.mock('@/components/modals/DeleteTaskModal', () => ({
 }));
 
 import { TaskDetailsModal } from '@/components/modals/TaskDetailsModal';
+import { useStore } from '@/store/useStore';
 
 describe('TaskDetailsModal', () => {
   const user = userEvent.setup();
@@ -143,8 +170,7 @@ describe('TaskDetailsModal', () => {
     open: true,
     onClose: vi.fn(),
     boardIndex: 0,
-    columnName: 'Todo',
-    taskTitle: 'Test Task',
+    taskId: 'task-1',
   };
 
   beforeEach(() => {
@@ -162,18 +188,34 @@ describe('TaskDetailsModal', () => {
     expect(screen.getByText('Todo')).toBeInTheDocument();
   });
 
+  it('shows priority, due date and labels only when set', () => {
+    const { unmount } = render(<TaskDetailsModal {...defaultProps} />);
+    expect(screen.queryByText('Priority')).not.toBeInTheDocument();
+    unmount();
+
+    render(<TaskDetailsModal {...defaultProps} taskId="task-2" />);
+    expect(screen.getByText('Urgent')).toHaveAttribute(
+      'data-priority',
+      'urgent'
+    );
+    const due = screen.getByText(/Overdue/);
+    expect(due).toHaveAttribute('data-overdue', 'true');
+    expect(due.querySelector('time')).toHaveAttribute('dateTime', '2020-01-15');
+    expect(screen.getByText('frontend')).toBeInTheDocument();
+    expect(screen.getByText('ux')).toBeInTheDocument();
+  });
+
   it('toggles subtask completion', async () => {
     render(<TaskDetailsModal {...defaultProps} />);
     const checkbox = screen.getByLabelText('Subtask 1');
     await user.click(checkbox);
 
     expect(mockDispatch).toHaveBeenCalledWith({
-      type: 'TOGGLE_SUBTASK',
+      type: 'TOGGLE_SUBTASK_BY_ID',
       payload: {
-        boardIndex: 0,
-        columnName: 'Todo',
-        taskTitle: 'Test Task',
-        subtaskTitle: 'Subtask 1',
+        boardId: 'board-1',
+        taskId: 'task-1',
+        subtaskIndex: 0,
       },
     });
   });
@@ -201,11 +243,10 @@ describe('TaskDetailsModal', () => {
     await user.click(confirmButton);
 
     expect(mockDispatch).toHaveBeenCalledWith({
-      type: 'DELETE_TASK',
+      type: 'DELETE_TASK_BY_ID',
       payload: {
-        boardIndex: 0,
-        columnName: 'Todo',
-        taskTitle: 'Test Task',
+        boardId: 'board-1',
+        taskId: 'task-1',
       },
     });
     expect(mockStartLoading).toHaveBeenCalledWith('deleteTask');
@@ -216,9 +257,135 @@ describe('TaskDetailsModal', () => {
     });
   });
 
+  describe('comments', () => {
+    const me = { id: 'member-me', name: 'Ann Lee', email: 'ann@example.com' };
+
+    beforeEach(() => {
+      useStore.setState({ user: me, isLoggedIn: true });
+    });
+
+    afterEach(() => {
+      act(() => {
+        useStore.setState({ user: null, isLoggedIn: false });
+      });
+    });
+
+    it('lists comments and lets only the author edit or delete', () => {
+      render(<TaskDetailsModal {...defaultProps} taskId="task-2" />);
+
+      const items = within(
+        screen.getByRole('region', { name: 'Comments' })
+      ).getAllByRole('listitem');
+      expect(items).toHaveLength(2);
+      expect(
+        within(items[0]).getByRole('button', { name: 'Edit' })
+      ).toBeInTheDocument();
+      expect(within(items[1]).queryByRole('button')).not.toBeInTheDocument();
+      expect(items[1]).toHaveTextContent('(edited)');
+      expect(items[1].querySelector('time')).toHaveAttribute(
+        'dateTime',
+        '2026-03-09T11:00:00.000Z'
+      );
+    });
+
+    it('adds a comment as the logged-in user', async () => {
+      render(<TaskDetailsModal {...defaultProps} />);
+
+      await user.type(screen.getByLabelText('Add a comment'), ' Looks good ');
+      await user.click(screen.getByRole('button', { name: 'Comment' }));
+
+      const action = mockDispatch.mock.lastCall?.[0] as {
+        type: string;
+        payload: { comment: Record<string, unknown> };
+      };
+      expect(action.type).toBe('ADD_COMMENT_BY_ID');
+      expect(action.payload.comment).toMatchObject({
+        authorId: 'member-me',
+        authorName: 'Ann Lee',
+        body: 'Looks good',
+      });
+      expect(screen.getByLabelText('Add a comment')).toHaveValue('');
+    });
+
+    it('edits and deletes your own comment', async () => {
+      render(<TaskDetailsModal {...defaultProps} taskId="task-2" />);
+
+      await user.click(screen.getByRole('button', { name: 'Edit' }));
+      const field = screen.getByLabelText('Edit comment');
+      await user.clear(field);
+      await user.type(field, 'Changed');
+      await user.click(screen.getByRole('button', { name: 'Save' }));
+      expect(mockDispatch).toHaveBeenLastCalledWith({
+        type: 'UPDATE_COMMENT_BY_ID',
+        payload: expect.objectContaining({
+          commentId: 'comment-1',
+          body: 'Changed',
+        }) as unknown,
+      });
+
+      await user.click(screen.getByRole('button', { name: 'Delete' }));
+      expect(mockDispatch).toHaveBeenLastCalledWith({
+        type: 'DELETE_COMMENT_BY_ID',
+        payload: {
+          boardId: 'board-1',
+          taskId: 'task-2',
+          commentId: 'comment-1',
+        },
+      });
+    });
+
+    it('asks to log in before commenting', () => {
+      useStore.setState({ user: null, isLoggedIn: false });
+      render(<TaskDetailsModal {...defaultProps} />);
+
+      expect(screen.getByText('Log in to comment.')).toBeInTheDocument();
+      expect(screen.queryByLabelText('Add a comment')).not.toBeInTheDocument();
+    });
+  });
+
+  it('shows who changed the task on the Activity tab', async () => {
+    useStore.setState({
+      taskActivity: [
+        {
+          id: 'action-1:task-1',
+          boardId: 'board-1',
+          taskId: 'task-1',
+          kind: 'updated',
+          actionType: 'UPDATE_TASK_BY_ID',
+          at: '2026-03-09T10:00:00.000Z',
+          actor: { id: 'member-me', name: 'Ann Lee' },
+          changes: [
+            { field: 'column', before: 'Todo', after: 'Done' },
+            { field: 'description', before: 'Old text', after: 'New text' },
+          ],
+        },
+      ],
+    });
+    render(<TaskDetailsModal {...defaultProps} />);
+
+    await user.click(screen.getByRole('tab', { name: 'Activity' }));
+
+    const panel = screen.getByRole('tabpanel');
+    expect(panel).toHaveTextContent('Ann Lee moved it from Todo to Done');
+    expect(panel).toHaveTextContent('Ann Lee changed the description');
+    expect(panel.querySelector('del')).toHaveTextContent('Old text');
+    expect(panel.querySelector('ins')).toHaveTextContent('New text');
+    expect(screen.queryByText('Subtask 1')).not.toBeInTheDocument();
+
+    await user.keyboard('{ArrowLeft}');
+    expect(screen.getByRole('tab', { name: 'Details' })).toHaveAttribute(
+      'aria-selected',
+      'true'
+    );
+    expect(screen.getByText('Subtask 1')).toBeInTheDocument();
+    act(() => {
+      useStore.setState({ taskActivity: [] });
+    });
+  });
+
   it('does not render if task not found', () => {
     const { container } = render(
-      <TaskDetailsModal {...defaultProps} taskTitle="Non-existent Task" />
+      <TaskDetailsModal {...defaultProps} taskId="task-missing" />
     );
     expect(container.firstChild).toBeNull();
   });
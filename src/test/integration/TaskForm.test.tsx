@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TaskForm, type TaskFormValues } from '@/components/modals/TaskForm';
+
+const initialValues: TaskFormValues = {
+  title: 'Ship it',
+  description: '',
+  status: 'Todo',
+  subtasks: [],
+  priority: '',
+  dueDate: '',
+  labels: [],
+  assigneeIds: [],
+};
+
+function renderForm() {
+  const onSubmit = vi.fn<(values: TaskFormValues) => void>();
+  render(
+    <TaskForm
+      mode="create"
+      initialValues={initialValues}
+      columns={[{ value: 'Todo', label: 'Todo' }]}
+      labelOptions={[
+        { name: 'backend', color: '#635fc7' },
+        { name: 'bug', color: '#ea5555' },
+        { name: 'ux', color: '#49c4e5' },
+      ]}
+      memberOptions={[
+        { id: 'member-1', name: 'Ann Lee', email: 'ann@example.com' },
+        { id: 'member-2', name: '', email: 'bo@example.com' },
+      ]}
+      onSubmit={onSubmit}
+    />
+  );
+  return { onSubmit };
+}
+
+describe('TaskForm labels', () => {
+  it('picks labels from the catalog as you type', async () => {
+    const user = userEvent.setup();
+    const { onSubmit } = renderForm();
+
+    const input = screen.getByRole('combobox', { name: 'Labels' });
+    await user.type(input, 'b');
+    expect(
+      screen.getAllByRole('option').map((option) => option.textContent)
+    ).toEqual(['backend', 'bug']);
+
+    await user.keyboard('{ArrowDown}{Enter}');
+    await user.click(screen.getByRole('option', { name: 'ux' }));
+    await user.click(screen.getByRole('button', { name: 'Create Task' }));
+
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ labels: ['bug', 'ux'] })
+    );
+  });
+
+  it('does not add text that matches no label', async () => {
+    const user = userEvent.setup();
+    const { onSubmit } = renderForm();
+
+    await user.type(
+      screen.getByRole('combobox', { name: 'Labels' }),
+      'frontend{Enter}'
+    );
+    expect(screen.getByRole('listbox')).toHaveTextContent('No matching labels');
+    await user.click(screen.getByRole('button', { name: 'Create Task' }));
+
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ labels: [] })
+    );
+  });
+});
+
+describe('TaskForm assignees', () => {
+  it('toggles any number of members', async () => {
+    const user = userEvent.setup();
+    const { onSubmit } = renderForm();
+
+    const ann = screen.getByRole('button', { name: 'Ann Lee' });
+    const bo = screen.getByRole('button', { name: 'bo@example.com' });
+    await user.click(bo);
+    await user.click(ann);
+    expect(ann).toHaveAttribute('aria-pressed', 'true');
+    await user.click(bo);
+    expect(bo).toHaveAttribute('aria-pressed', 'false');
+    await user.click(screen.getByRole('button', { name: 'Create Task' }));
+
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ assigneeIds: ['member-1'] })
+    );
+  });
+});
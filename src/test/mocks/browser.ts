@@ -0,0 +1,5 @@
+import { setupWorker } from 'msw/browser';
+import { handlers } from './handlers';
+
+// Serves the mock REST API in the browser for offline development.
+export const worker = setupWorker(...handlers);
@@ -0,0 +1,68 @@
+import type { Board, Column, RawBoard, Task } from '@/types/types';
+import { ensureIds } from '@/services/boards';
+
+// Sample data served by the static JSON endpoint and used to seed the mock
+// backend.
+export const mockBoards: RawBoard[] = [
+  {
+    name: 'Platform Launch',
+    columns: [
+      {
+        name: 'Todo',
+        tasks: [
+          {
+            title: 'Build UI for onboarding flow',
+            description: '',
+            status: 'Todo',
+            subtasks: [
+              { title: 'Sign up page', isCompleted: true },
+              { title: 'Sign in page', isCompleted: false },
+              { title: 'Welcome page', isCompleted: false },
+            ],
+          },
+        ],
+      },
+      { name: 'Doing', tasks: [] },
+      { name: 'Done', tasks: [] },
+    ],
+  },
+];
+
+/**
+ * In-memory store behind the mock REST handlers. Tests reset it after each
+ * run; the dev worker keeps it for the lifetime of the page.
+ */
+let boards: Board[] = [];
+
+export function resetMockDb(seed: RawBoard[] = mockBoards) {
+  boards = ensureIds(structuredClone(seed));
+}
+
+export function getMockBoards(): Board[] {
+  return boards;
+}
+
+export function setMockBoards(next: Board[]) {
+  boards = next;
+}
+
+export function findBoard(boardId: string): Board | undefined {
+  return boards.find((board) => board.id === boardId);
+}
+
+export function findColumn(board: Board, columnId: string): Column | undefined {
+  return board.columns.find((column) => column.id === columnId);
+}
+
+export function findTask(
+  board: Board,
+  taskId: string
+): { column: Column; index: number; task: Task } | undefined {
+  for (const column of board.columns) {
+    const index = column.tasks.findIndex((task) => task.id === taskId);
+    if (index !== -1) return { column, index, task: column.tasks[index] };
+  }
+  return undefined;
+}
+
+resetMockDb();
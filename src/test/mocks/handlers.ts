@@ -1,39 +1,267 @@
 import { http, HttpResponse } from 'msw';
+import type { Board, Column, Subtask, Task } from '@/types/types';
+import { API_BASE_URL } from '@/services/apiClient';
+import type { BoardPatch, ColumnPatch, TaskPatch } from '@/services/boards';
+import {
+  findBoard,
+  findColumn,
+  findTask,
+  getMockBoards,
+  mockBoards,
+  setMockBoards,
+} from './db';
 
-// Mock data
-const mockBoards = [
-  {
-    name: 'Platform Launch',
-    columns: [
-      {
-        name: 'Todo',
-        tasks: [
-          {
-            title: 'Build UI for onboarding flow',
-            description: '',
-            status: 'Todo',
-            subtasks: [
-              { title: 'Sign up page', isCompleted: true },
-              { title: 'Sign in page', isCompleted: false },
-              { title: 'Welcome page', isCompleted: false },
-            ],
-          },
-        ],
-      },
-      { name: 'Doing', tasks: [] },
-      { name: 'Done', tasks: [] },
-    ],
-  },
-];
+const api = `${API_BASE_URL}/api`;
+
+function notFound(what: string) {
+  return HttpResponse.json({ message: `${what} not found` }, { status: 404 });
+}
+
+function badRequest(message: string) {
+  return HttpResponse.json({ message }, { status: 400 });
+}
+
+function conflict(message: string) {
+  return HttpResponse.json({ message }, { status: 409 });
+}
+
+function clampIndex(index: number | undefined, length: number) {
+  return index === undefined ? length : Math.max(0, Math.min(index, length));
+}
+
+type BoardParams = { boardId: string };
+type ColumnParams = BoardParams & { columnId: string };
+type TaskParams = BoardParams & { taskId: string };
+type SubtaskParams = TaskParams & { index: string };
 
 export const handlers = [
   // Mock GET /api/boards.json
   http.get('/api/boards.json', () => {
-    return HttpResponse.json(mockBoards);
+    return HttpResponse.json({ boards: mockBoards });
   }),
 
   // Mock error scenario
   http.get('/api/boards-error.json', () => {
     return new HttpResponse(null, { status: 500 });
   }),
+
+  // Boards
+  http.get(`${api}/boards`, () => HttpResponse.json(getMockBoards())),
+
+  http.get<BoardParams>(`${api}/boards/:boardId`, ({ params }) => {
+    const board = findBoard(params.boardId);
+    return board ? HttpResponse.json(board) : notFound('Board');
+  }),
+
+  http.post<never, Board>(`${api}/boards`, async ({ request }) => {
+    const board = await request.json();
+    if (!board?.id || typeof board.name !== 'string') {
+      return badRequest('Board id and name are required');
+    }
+    if (findBoard(board.id)) return conflict('Board already exists');
+    setMockBoards([...getMockBoards(), board]);
+    return HttpResponse.json(board, { status: 201 });
+  }),
+
+  http.patch<BoardParams, BoardPatch>(
+    `${api}/boards/:boardId`,
+    async ({ params, request }) => {
+      const board = findBoard(params.boardId);
+      if (!board) return notFound('Board');
+      const updated = { ...board, ...(await request.json()), id: board.id };
+      setMockBoards(getMockBoards().map((b) => (b === board ? updated : b)));
+      return HttpResponse.json(updated);
+    }
+  ),
+
+  http.delete<BoardParams>(`${api}/boards/:boardId`, ({ params }) => {
+    if (!findBoard(params.boardId)) return notFound('Board');
+    setMockBoards(getMockBoards().filter((b) => b.id !== params.boardId));
+    return new HttpResponse(null, { status: 204 });
+  }),
+
+  // Columns
+  http.post<BoardParams, Column>(
+    `${api}/boards/:boardId/columns`,
+    async ({ params, request }) => {
+      const board = findBoard(params.boardId);
+      if (!board) return notFound('Board');
+      const column = await request.json();
+      if (!column?.id || typeof column.name !== 'string') {
+        return badRequest('Column id and name are required');
+      }
+      if (findColumn(board, column.id))
+        return conflict('Column already exists');
+      const created = { ...column, tasks: column.tasks ?? [] };
+      board.columns = [...board.columns, created];
+      return HttpResponse.json(created, { status: 201 });
+    }
+  ),
+
+  http.patch<ColumnParams, ColumnPatch>(
+    `${api}/boards/:boardId/columns/:columnId`,
+    async ({ params, request }) => {
+      const board = findBoard(params.boardId);
+      if (!board) return notFound('Board');
+      const column = findColumn(board, params.columnId);
+      if (!column) return notFound('Column');
+
+      const { index, ...changes } = await request.json();
+      const updated: Column = {
+        ...column,
+        ...changes,
+        tasks:
+          changes.name === undefined
+            ? column.tasks
+            : column.tasks.map((task) => ({ ...task, status: changes.name })),
+      };
+      const others = board.columns.filter((c) => c !== column);
+      const at = clampIndex(
+        index ?? board.columns.indexOf(column),
+        others.length
+      );
+      board.columns = [...others.slice(0, at), updated, ...others.slice(at)];
+      return HttpResponse.json(updated);
+    }
+  ),
+
+  http.delete<ColumnParams>(
+    `${api}/boards/:boardId/columns/:columnId`,
+    ({ params }) => {
+      const board = findBoard(params.boardId);
+      if (!board) return notFound('Board');
+      if (!findColumn(board, params.columnId)) return notFound('Column');
+      board.columns = board.columns.filter((c) => c.id !== params.columnId);
+      return new HttpResponse(null, { status: 204 });
+    }
+  ),
+
+  // Tasks
+  http.post<ColumnParams, Task>(
+    `${api}/boards/:boardId/columns/:columnId/tasks`,
+    async ({ params, request }) => {
+      const board = findBoard(params.boardId);
+      if (!board) return notFound('Board');
+      const column = findColumn(board, params.columnId);
+      if (!column) return notFound('Column');
+      const task = await request.json();
+      if (!task?.id || typeof task.title !== 'string') {
+        return badRequest('Task id and title are required');
+      }
+      if (findTask(board, task.id)) return conflict('Task already exists');
+      const created = { ...task, status: column.name };
+      column.tasks = [...column.tasks, created];
+      return HttpResponse.json(created, { status: 201 });
+    }
+  ),
+
+  http.patch<TaskParams, TaskPatch>(
+    `${api}/boards/:boardId/tasks/:taskId`,
+    async ({ params, request }) => {
+      const board = findBoard(params.boardId);
+      if (!board) return notFound('Board');
+      const found = findTask(board, params.taskId);
+      if (!found) return notFound('Task');
+
+      const { columnId, index, ...changes } = await request.json();
+      const target = columnId ? findColumn(board, columnId) : found.column;
+      if (!target) return notFound('Column');
+
+      const { priority, dueDate, ...fields } = changes;
+      const updated: Task = {
+        ...found.task,
+        ...fields,
+        priority:
+          priority === null ? undefined : (priority ?? found.task.priority),
+        dueDate: dueDate === null ? undefined : (dueDate ?? found.task.dueDate),
+        id: found.task.id,
+        status: columnId ? target.name : (changes.status ?? found.task.status),
+      };
+      found.column.tasks = found.column.tasks.filter((t) => t !== found.task);
+      const at = clampIndex(
+        index ?? (target === found.column ? found.index : undefined),
+        target.tasks.length
+      );
+      target.tasks = [
+        ...target.tasks.slice(0, at),
+        updated,
+        ...target.tasks.slice(at),
+      ];
+      return HttpResponse.json(updated);
+    }
+  ),
+
+  http.delete<TaskParams>(
+    `${api}/boards/:boardId/tasks/:taskId`,
+    ({ params }) => {
+      const board = findBoard(params.boardId);
+      if (!board) return notFound('Board');
+      const found = findTask(board, params.taskId);
+      if (!found) return notFound('Task');
+      found.column.tasks = found.column.tasks.filter((t) => t !== found.task);
+      return new HttpResponse(null, { status: 204 });
+    }
+  ),
+
+  // Subtasks
+  http.post<TaskParams, Subtask>(
+    `${api}/boards/:boardId/tasks/:taskId/subtasks`,
+    async ({ params, request }) => {
+      const board = findBoard(params.boardId);
+      const found = board && findTask(board, params.taskId);
+      if (!found) return notFound('Task');
+      const subtask = await request.json();
+      if (typeof subtask?.title !== 'string') {
+        return badRequest('Subtask title is required');
+      }
+      const updated: Task = {
+        ...found.task,
+        subtasks: [
+          ...(found.task.subtasks ?? []),
+          { title: subtask.title, isCompleted: subtask.isCompleted ?? false },
+        ],
+      };
+      found.column.tasks[found.index] = updated;
+      return HttpResponse.json(updated, { status: 201 });
+    }
+  ),
+
+  http.patch<SubtaskParams, Partial<Subtask>>(
+    `${api}/boards/:boardId/tasks/:taskId/subtasks/:index`,
+    async ({ params, request }) => {
+      const board = findBoard(params.boardId);
+      const found = board && findTask(board, params.taskId);
+      if (!found) return notFound('Task');
+      const subtasks = found.task.subtasks ?? [];
+      const index = Number(params.index);
+      if (!subtasks[index]) return notFound('Subtask');
+      const changes = await request.json();
+      const updated: Task = {
+        ...found.task,
+        subtasks: subtasks.map((s, i) =>
+          i === index ? { ...s, ...changes } : s
+        ),
+      };
+      found.column.tasks[found.index] = updated;
+      return HttpResponse.json(updated);
+    }
+  ),
+
+  http.delete<SubtaskParams>(
+    `${api}/boards/:boardId/tasks/:taskId/subtasks/:index`,
+    ({ params }) => {
+      const board = findBoard(params.boardId);
+      const found = board && findTask(board, params.taskId);
+      if (!found) return notFound('Task');
+      const subtasks = found.task.subtasks ?? [];
+      const index = Number(params.index);
+      if (!subtasks[index]) return notFound('Subtask');
+      const updated: Task = {
+        ...found.task,
+        subtasks: subtasks.filter((_, i) => i !== index),
+      };
+      found.column.tasks[found.index] = updated;
+      return HttpResponse.json(updated);
+    }
+  ),
 ];
@@ -2,6 +2,7 @@ import { expect, afterEach, beforeAll, afterAll } from 'vitest';
 import { cleanup } from '@testing-library/react';
 import * as matchers from '@testing-library/jest-dom/matchers';
 import { server } from './mocks/server';
+import { resetMockDb } from './mocks/db';
 
 expect.extend(matchers);
 
@@ -11,6 +12,9 @@ afterEach(() => {
 
 beforeAll(() => server.listen({ onUnhandledRequest: 'error' }));
 
-afterEach(() => server.resetHandlers());
+afterEach(() => {
+  server.resetHandlers();
+  resetMockDb();
+});
 
 afterAll(() => server.close());
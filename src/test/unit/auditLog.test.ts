@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { act } from '@testing-library/react';
+import type { ActionMeta, AuditLogEntry, Board } from '@/types/types';
+import { startAuditLog } from '@/store/auditLog';
+import { useStore } from '@/store/useStore';
+import { boardsReducer } from '@/utils/boardsReducer';
+import {
+  EMPTY_AUDIT_FILTERS,
+  appendAuditEntry,
+  createAuditEntry,
+  filterAuditLog,
+  toAuditCsv,
+} from '@/utils/auditLog';
+
+const meta: ActionMeta = {
+  id: 'action-1',
+  at: '2026-03-09T10:00:00.000Z',
+  actor: { id: 'member-1', name: 'Ann' },
+};
+
+const board: Board = {
+  id: 'board-1',
+  name: 'Roadmap',
+  columns: [
+    {
+      id: 'todo',
+      name: 'Todo',
+      tasks: [{ id: 'a', title: 'Plan', status: 'Todo' }],
+    },
+  ],
+};
+
+const other: Board = { id: 'board-2', name: 'Ops', columns: [] };
+
+const entry = (overrides: Partial<AuditLogEntry>): AuditLogEntry => ({
+  id: 'action-1',
+  at: '2026-03-09T10:00:00.000Z',
+  actor: { id: 'member-1', name: 'Ann' },
+  action: 'ADD_TASK_BY_ID',
+  boardId: 'board-1',
+  boardName: 'Roadmap',
+  target: 'Plan',
+  ...overrides,
+});
+
+describe('createAuditEntry', () => {
+  it('names the changed board and a deleted task from before the action', () => {
+    const action = {
+      type: 'DELETE_TASK_BY_ID',
+      payload: { boardId: 'board-1', taskId: 'a' },
+    } as const;
+    const next = boardsReducer({ boards: [board, other] }, action).boards;
+
+    expect(createAuditEntry(action, meta, [board, other], next)).toEqual({
+      id: 'action-1',
+      at: meta.at,
+      actor: meta.actor,
+      action: 'DELETE_TASK_BY_ID',
+      boardId: 'board-1',
+      boardName: 'Roadmap',
+      target: 'Plan',
+    });
+  });
+
+  it('keeps the name of a deleted board', () => {
+    const action = {
+      type: 'DELETE_BOARD_BY_ID',
+      payload: { boardId: 'board-2' },
+    } as const;
+
+    expect(
+      createAuditEntry(action, meta, [board, other], [board])
+    ).toMatchObject({ boardId: 'board-2', boardName: 'Ops', target: 'Ops' });
+  });
+});
+
+describe('appendAuditEntry', () => {
+  it('skips entries it already has', () => {
+    const log = [entry({})];
+    expect(appendAuditEntry(log, entry({}))).toBe(log);
+    expect(appendAuditEntry(log, entry({ id: 'action-2' }))).toHaveLength(2);
+  });
+});
+
+describe('filterAuditLog', () => {
+  const log = [
+    entry({ id: '1', at: '2026-03-01T12:00:00.000Z' }),
+    entry({ id: '2', actor: null, action: 'MOVE_TASK' }),
+    entry({
+      id: '3',
+      at: '2026-03-20T12:00:00.000Z',
+      action: 'MOVE_TASK_BY_ID',
+      boardId: 'board-2',
+      boardName: 'Ops',
+    }),
+  ];
+  const ids = (filters: Partial<typeof EMPTY_AUDIT_FILTERS>) =>
+    filterAuditLog(log, { ...EMPTY_AUDIT_FILTERS, ...filters }).map(
+      (e) => e.id
+    );
+
+  it('matches every entry without filters', () => {
+    expect(ids({})).toEqual(['1', '2', '3']);
+  });
+
+  it('filters by user, board, action and day', () => {
+    expect(ids({ actorId: 'anonymous' })).toEqual(['2']);
+    expect(ids({ boardId: 'board-2' })).toEqual(['3']);
+    expect(ids({ action: 'Move task' })).toEqual(['2', '3']);
+    expect(ids({ from: '2026-03-05', to: '2026-03-10' })).toEqual(['2']);
+  });
+});
+
+describe('toAuditCsv', () => {
+  it('quotes commas and quotes and defuses formulas', () => {
+    const csv = toAuditCsv([
+      entry({ target: 'Say "hi", then go', boardName: '=SUM(A1)' }),
+    ]);
+    expect(csv.split('\r\n')).toEqual([
+      'Time,User ID,User,Board ID,Board,Action,Target',
+      `2026-03-09T10:00:00.000Z,member-1,Ann,board-1,'=SUM(A1),Create task,"Say ""hi"", then go"`,
+    ]);
+  });
+});
+
+describe('startAuditLog', () => {
+  let stop: () => void;
+
+  beforeEach(() => {
+    act(() => {
+      useStore.setState({
+        user: { id: 'member-1', name: 'Ann', email: 'ann@example.com' },
+        auditLog: [],
+      });
+      useStore
+        .getState()
+        .dispatch({ type: 'SET_BOARDS', payload: { boards: [board] } });
+    });
+    stop = startAuditLog();
+  });
+
+  afterEach(() => {
+    stop();
+    act(() => {
+      useStore.setState({ user: null, auditLog: [] });
+    });
+  });
+
+  it('records edits and undo', () => {
+    act(() => {
+      useStore.getState().dispatch({
+        type: 'RENAME_COLUMN_BY_ID',
+        payload: { boardId: 'board-1', columnId: 'todo', name: 'Backlog' },
+      });
+    });
+    act(() => useStore.getState().undo());
+
+    expect(
+      useStore
+        .getState()
+        .auditLog.map((e) => [e.action, e.actor?.name, e.boardName, e.target])
+    ).toEqual([
+      ['RENAME_COLUMN_BY_ID', 'Ann', 'Roadmap', 'Backlog'],
+      ['UNDO', 'Ann', 'Roadmap', 'Todo'],
+    ]);
+  });
+
+  it('records resets but not hydration or snapshots from elsewhere', () => {
+    const replace = (boards: Board[]) =>
+      ({ type: 'SET_BOARDS', payload: { boards } }) as const;
+    act(() => {
+      const { dispatch } = useStore.getState();
+      dispatch(replace([board]), { cause: 'hydration' });
+      dispatch(replace([board, other]), { source: 'remote' });
+      dispatch(replace([other]));
+    });
+
+    expect(
+      useStore.getState().auditLog.map((e) => [e.action, e.actor?.name])
+    ).toEqual([['SET_BOARDS', 'Ann']]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import type { Active } from '@dnd-kit/core';
+import {
+  COLUMN_DND_DATA,
+  encodeColumnId,
+  encodeTaskId,
+} from '@components/board/boardDndUtils';
+import { createBoardAnnouncements } from '@components/board/boardAnnouncements';
+import type { Board } from '@/types/types';
+
+const board: Board = {
+  id: 'board-1',
+  name: 'Board',
+  columns: [
+    {
+      id: 'todo',
+      name: 'Todo',
+      tasks: [
+        { id: 'a', title: 'Plan' },
+        { id: 'b', title: 'Build' },
+      ],
+    },
+    { id: 'done', name: 'Done', tasks: [] },
+  ],
+};
+
+function activeFor(id: string, data?: Record<string, unknown>): Active {
+  return {
+    id,
+    data: { current: data },
+    rect: { current: { initial: null, translated: null } },
+  };
+}
+
+describe('createBoardAnnouncements', () => {
+  const announcements = createBoardAnnouncements(board);
+
+  it('names the task and its column when a task is picked up', () => {
+    const active = activeFor(encodeTaskId('board-1', 'todo', 'b'));
+
+    expect(announcements.onDragStart({ active })).toBe(
+      'Picked up task "Build" in Todo, position 2 of 2.'
+    );
+    expect(announcements.onDragCancel({ active, over: null })).toBe(
+      'Moving task "Build" was cancelled. It is back in Todo.'
+    );
+  });
+
+  it('names the column when a column is picked up', () => {
+    const active = activeFor(
+      encodeColumnId('board-1', 'done'),
+      COLUMN_DND_DATA
+    );
+
+    expect(announcements.onDragStart({ active })).toBe(
+      'Picked up column Done, position 2 of 2.'
+    );
+    expect(announcements.onDragEnd({ active, over: null })).toBe(
+      'Column Done was dropped back in place.'
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeColumnId,
+  encodeTaskId,
+  getTaskDropTarget,
+} from '@components/board/boardDndUtils';
+import type { Over } from '@dnd-kit/core';
+import type { Board } from '@/types/types';
+
+const board: Board = {
+  id: 'board-1',
+  name: 'Board',
+  columns: [
+    {
+      id: 'todo',
+      name: 'Todo',
+      tasks: [
+        { id: 'a', title: 'A' },
+        { id: 'b', title: 'B' },
+        { id: 'c', title: 'C' },
+      ],
+    },
+    { id: 'done', name: 'Done', tasks: [{ id: 'd', title: 'D' }] },
+  ],
+};
+
+// Whatever is under the pointer: a card spanning y = 100..180, so its middle
+// is at 140.
+function overAt(id: string, data?: Record<string, unknown>): Over {
+  return {
+    disabled: false,
+    id,
+    rect: {
+      top: 100,
+      height: 80,
+      left: 0,
+      width: 200,
+      bottom: 180,
+      right: 200,
+    },
+    data: { current: data },
+  };
+}
+
+describe('getTaskDropTarget', () => {
+  it('drops above a card when the pointer is in its upper half', () => {
+    const overId = encodeTaskId('board-1', 'done', 'd');
+    expect(getTaskDropTarget(board, 'a', overAt(overId), 120)).toEqual({
+      columnId: 'done',
+      index: 0,
+    });
+  });
+
+  it('drops below a card when the pointer is in its lower half', () => {
+    const overId = encodeTaskId('board-1', 'done', 'd');
+    expect(getTaskDropTarget(board, 'a', overAt(overId), 160)).toEqual({
+      columnId: 'done',
+      index: 1,
+    });
+  });
+
+  it('counts positions without the dragged task in its own column', () => {
+    const overId = encodeTaskId('board-1', 'todo', 'c');
+    expect(getTaskDropTarget(board, 'a', overAt(overId), 160)).toEqual({
+      columnId: 'todo',
+      index: 2,
+    });
+  });
+
+  it('appends when dropped on the column itself', () => {
+    const overId = encodeColumnId('board-1', 'todo');
+    expect(getTaskDropTarget(board, 'd', overAt(overId), 0)).toEqual({
+      columnId: 'todo',
+      index: 3,
+    });
+  });
+
+  it('keeps the current target while over the placeholder', () => {
+    const target = { columnId: 'done', index: 1 };
+    const over = overAt(encodeTaskId('board-1', 'done', 'drop-placeholder'), {
+      type: 'placeholder',
+      target,
+    });
+    expect(getTaskDropTarget(board, 'a', over, 0)).toBe(target);
+  });
+
+  it('ignores targets on other boards', () => {
+    const overId = encodeColumnId('board-2', 'todo');
+    expect(getTaskDropTarget(board, 'a', overAt(overId), 0)).toBeNull();
+  });
+});
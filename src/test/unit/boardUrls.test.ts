@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import type { Board } from '@/types/types';
+import {
+  getBoardPath,
+  getBoardRef,
+  getTaskPath,
+  resolveBoardRef,
+  slugify,
+} from '@/utils/boardUrls';
+
+const boards: Board[] = [
+  { id: 'board-a', name: 'Platform Launch', columns: [] },
+  { id: 'board-b', name: 'Marketing Plan', columns: [] },
+];
+
+describe('boardUrls', () => {
+  it('slugifies board names', () => {
+    expect(slugify('  Platform Launch! ')).toBe('platform-launch');
+    expect(slugify('Café Roadmap')).toBe('cafe-roadmap');
+    expect(slugify('!!!')).toBe('');
+  });
+
+  it('builds board and task paths from slug and id', () => {
+    expect(getBoardRef(boards[0])).toBe('platform-launch--board-a');
+    expect(getBoardPath(boards[0])).toBe('/board/platform-launch--board-a');
+    expect(getTaskPath(boards[1], 'task-1')).toBe(
+      '/board/marketing-plan--board-b/task/task-1'
+    );
+    expect(getBoardRef({ id: 'board-c', name: '???' })).toBe('board-c');
+  });
+
+  it('resolves by id even after a rename', () => {
+    expect(resolveBoardRef(boards, 'old-name--board-b')).toEqual({
+      board: boards[1],
+      index: 1,
+    });
+    expect(resolveBoardRef(boards, 'board-a')?.index).toBe(0);
+  });
+
+  it('resolves a bare slug', () => {
+    expect(resolveBoardRef(boards, 'marketing-plan')?.board).toBe(boards[1]);
+  });
+
+  it('resolves old index URLs', () => {
+    expect(resolveBoardRef(boards, '1')?.board).toBe(boards[1]);
+    expect(resolveBoardRef(boards, '5')).toBeNull();
+  });
+
+  it('returns null for unknown boards', () => {
+    expect(resolveBoardRef(boards, 'nope--board-z')).toBeNull();
+  });
+});
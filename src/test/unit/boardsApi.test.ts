@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import { server } from '../mocks/server';
+import { getMockBoards } from '../mocks/db';
+import { ApiError } from '@/services/apiClient';
+import {
+  createBoard,
+  createColumn,
+  createSubtask,
+  createTask,
+  deleteBoard,
+  deleteColumn,
+  deleteSubtask,
+  deleteTask,
+  getBoard,
+  listBoards,
+  updateBoard,
+  updateColumn,
+  updateSubtask,
+  updateTask,
+} from '@/services/boards';
+
+const newBoard = {
+  id: 'board-new',
+  name: 'Roadmap',
+  columns: [
+    { id: 'col-a', name: 'Now', tasks: [] },
+    { id: 'col-b', name: 'Later', tasks: [] },
+  ],
+};
+
+describe('boards REST client', () => {
+  it('lists the seeded boards with ids', async () => {
+    const boards = await listBoards();
+
+    expect(boards).toHaveLength(1);
+    expect(boards[0].name).toBe('Platform Launch');
+    expect(boards[0].id).toEqual(expect.any(String));
+  });
+
+  it('creates, updates and deletes a board', async () => {
+    await createBoard(newBoard);
+    expect(await getBoard('board-new')).toEqual(newBoard);
+
+    const renamed = await updateBoard('board-new', { name: 'Q3 Roadmap' });
+    expect(renamed.name).toBe('Q3 Roadmap');
+
+    await deleteBoard('board-new');
+    await expect(getBoard('board-new')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('rejects a board whose id already exists', async () => {
+    await createBoard(newBoard);
+
+    await expect(createBoard(newBoard)).rejects.toMatchObject({
+      name: 'ApiError',
+      status: 409,
+    });
+  });
+
+  it('adds, renames, reorders and deletes columns', async () => {
+    await createBoard(newBoard);
+
+    await createColumn('board-new', { id: 'col-c', name: 'Never', tasks: [] });
+    await updateColumn('board-new', 'col-c', { name: 'Someday', index: 0 });
+    await deleteColumn('board-new', 'col-b');
+
+    const board = await getBoard('board-new');
+    expect(board.columns.map((c) => c.name)).toEqual(['Someday', 'Now']);
+  });
+
+  it('creates, moves and deletes tasks', async () => {
+    await createBoard(newBoard);
+    const task = { id: 'task-1', title: 'Plan', subtasks: [] };
+
+    const created = await createTask('board-new', 'col-a', task);
+    expect(created.status).toBe('Now');
+
+    const moved = await updateTask('board-new', 'task-1', {
+      title: 'Plan it',
+      columnId: 'col-b',
+    });
+    expect(moved).toMatchObject({ title: 'Plan it', status: 'Later' });
+
+    let board = await getBoard('board-new');
+    expect(board.columns[0].tasks).toEqual([]);
+    expect(board.columns[1].tasks.map((t) => t.id)).toEqual(['task-1']);
+
+    await deleteTask('board-new', 'task-1');
+    board = await getBoard('board-new');
+    expect(board.columns[1].tasks).toEqual([]);
+  });
+
+  it('manages subtasks by position', async () => {
+    await createBoard(newBoard);
+    await createTask('board-new', 'col-a', { id: 'task-1', title: 'Plan' });
+
+    await createSubtask('board-new', 'task-1', {
+      title: 'Draft',
+      isCompleted: false,
+    });
+    await createSubtask('board-new', 'task-1', {
+      title: 'Review',
+      isCompleted: false,
+    });
+    await updateSubtask('board-new', 'task-1', 0, { isCompleted: true });
+    const task = await deleteSubtask('board-new', 'task-1', 1);
+
+    expect(task.subtasks).toEqual([{ title: 'Draft', isCompleted: true }]);
+  });
+
+  it('keeps mock backend state per test', () => {
+    expect(getMockBoards().map((b) => b.name)).toEqual(['Platform Launch']);
+  });
+
+  it('wraps network failures in an ApiError without a status', async () => {
+    server.use(http.get('/api/boards', () => HttpResponse.error()));
+
+    const error: unknown = await listBoards().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect((error as ApiError).status).toBeNull();
+  });
+});
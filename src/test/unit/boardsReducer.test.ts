@@ -15,19 +15,28 @@ describe('boardsReducer', () => {
   it('handles ADD_BOARD', () => {
     const action: BoardsAction = {
       type: 'ADD_BOARD',
-      payload: { name: 'New Board', columns: [] },
+      payload: { id: 'board-new-board', name: 'New Board', columns: [] },
     };
     const newState = boardsReducer(initialState, action);
-    expect(newState.boards).toEqual([{ name: 'New Board', columns: [] }]);
+    expect(newState.boards).toEqual([
+      { id: 'board-new-board', name: 'New Board', columns: [] },
+    ]);
   });
 
   it('handles UPDATE_BOARD', () => {
     const state: BoardsState = {
-      boards: [{ name: 'Old Board', columns: [] }],
+      boards: [{ id: 'board-old-board', name: 'Old Board', columns: [] }],
     };
     const action: BoardsAction = {
       type: 'UPDATE_BOARD',
-      payload: { boardIndex: 0, board: { name: 'Updated Board', columns: [] } },
+      payload: {
+        boardIndex: 0,
+        board: {
+          id: 'board-updated-board',
+          name: 'Updated Board',
+          columns: [],
+        },
+      },
     };
     const newState = boardsReducer(state, action);
     expect(newState.boards[0].name).toBe('Updated Board');
@@ -36,8 +45,8 @@ describe('boardsReducer', () => {
   it('handles DELETE_BOARD', () => {
     const state: BoardsState = {
       boards: [
-        { name: 'Board 1', columns: [] },
-        { name: 'Board 2', columns: [] },
+        { id: 'board-board-1', name: 'Board 1', columns: [] },
+        { id: 'board-board-2', name: 'Board 2', columns: [] },
       ],
     };
     const action: BoardsAction = {
@@ -51,7 +60,13 @@ describe('boardsReducer', () => {
 
   it('handles ADD_TASK', () => {
     const state: BoardsState = {
-      boards: [{ name: 'Board', columns: [{ name: 'Todo', tasks: [] }] }],
+      boards: [
+        {
+          id: 'board-board',
+          name: 'Board',
+          columns: [{ id: 'column-todo', name: 'Todo', tasks: [] }],
+        },
+      ],
     };
     const action: BoardsAction = {
       type: 'ADD_TASK',
@@ -75,9 +90,11 @@ describe('boardsReducer', () => {
     const state: BoardsState = {
       boards: [
         {
+          id: 'board-board',
           name: 'Board',
           columns: [
             {
+              id: 'column-todo',
               name: 'Todo',
               tasks: [
                 {
@@ -114,9 +131,11 @@ describe('boardsReducer', () => {
     const state: BoardsState = {
       boards: [
         {
+          id: 'board-board',
           name: 'Board',
           columns: [
             {
+              id: 'column-todo',
               name: 'Todo',
               tasks: [
                 {
@@ -147,9 +166,11 @@ describe('boardsReducer', () => {
     const state: BoardsState = {
       boards: [
         {
+          id: 'board-board',
           name: 'Board',
           columns: [
             {
+              id: 'column-todo',
               name: 'Todo',
               tasks: [
                 {
@@ -188,9 +209,11 @@ describe('boardsReducer', () => {
     const state: BoardsState = {
       boards: [
         {
+          id: 'board-board',
           name: 'Board',
           columns: [
             {
+              id: 'column-todo',
               name: 'Todo',
               tasks: [
                 {
@@ -201,7 +224,7 @@ describe('boardsReducer', () => {
                 },
               ],
             },
-            { name: 'Done', tasks: [] },
+            { id: 'column-done', name: 'Done', tasks: [] },
           ],
         },
       ],
@@ -225,9 +248,11 @@ describe('boardsReducer', () => {
     const state: BoardsState = {
       boards: [
         {
+          id: 'board-board',
           name: 'Board',
           columns: [
             {
+              id: 'column-todo',
               name: 'Todo',
               tasks: [
                 {
@@ -260,7 +285,7 @@ describe('boardsReducer', () => {
 
   it('handles ADD_COLUMN', () => {
     const state: BoardsState = {
-      boards: [{ name: 'Board', columns: [] }],
+      boards: [{ id: 'board-board', name: 'Board', columns: [] }],
     };
     const action: BoardsAction = {
       type: 'ADD_COLUMN',
@@ -274,9 +299,502 @@ describe('boardsReducer', () => {
   it('handles SET_BOARDS', () => {
     const action: BoardsAction = {
       type: 'SET_BOARDS',
-      payload: { boards: [{ name: 'New Boards', columns: [] }] },
+      payload: {
+        boards: [{ id: 'board-new-boards', name: 'New Boards', columns: [] }],
+      },
     };
     const newState = boardsReducer(initialState, action);
-    expect(newState.boards).toEqual([{ name: 'New Boards', columns: [] }]);
+    expect(newState.boards).toEqual([
+      { id: 'board-new-boards', name: 'New Boards', columns: [] },
+    ]);
+  });
+
+  describe('id-addressed actions', () => {
+    const idState: BoardsState = {
+      boards: [
+        {
+          id: 'board-1',
+          name: 'Board',
+          columns: [
+            {
+              id: 'column-todo',
+              name: 'Todo',
+              tasks: [
+                {
+                  id: 'task-1',
+                  title: 'Same Title',
+                  status: 'Todo',
+                  subtasks: [
+                    { title: 'Step', isCompleted: false },
+                    { title: 'Step', isCompleted: false },
+                  ],
+                },
+                { id: 'task-2', title: 'Same Title', status: 'Todo' },
+              ],
+            },
+            { id: 'column-done', name: 'Done', tasks: [] },
+          ],
+        },
+        { id: 'board-2', name: 'Other Board', columns: [] },
+      ],
+    };
+
+    it('handles UPDATE_BOARD_BY_ID', () => {
+      const newState = boardsReducer(idState, {
+        type: 'UPDATE_BOARD_BY_ID',
+        payload: {
+          boardId: 'board-2',
+          board: { id: 'board-2', name: 'Renamed', columns: [] },
+        },
+      });
+      expect(newState.boards[1].name).toBe('Renamed');
+      expect(newState.boards[0]).toBe(idState.boards[0]);
+    });
+
+    it('handles RENAME_BOARD_BY_ID and ignores blank names', () => {
+      const newState = boardsReducer(idState, {
+        type: 'RENAME_BOARD_BY_ID',
+        payload: { boardId: 'board-1', name: ' Renamed ' },
+      });
+      expect(newState.boards[0]).toEqual({
+        ...idState.boards[0],
+        name: 'Renamed',
+      });
+      expect(
+        boardsReducer(idState, {
+          type: 'RENAME_BOARD_BY_ID',
+          payload: { boardId: 'board-1', name: ' ' },
+        })
+      ).toBe(idState);
+    });
+
+    it('handles DELETE_BOARD_BY_ID', () => {
+      const newState = boardsReducer(idState, {
+        type: 'DELETE_BOARD_BY_ID',
+        payload: { boardId: 'board-1' },
+      });
+      expect(newState.boards.map((b) => b.id)).toEqual(['board-2']);
+    });
+
+    it('handles ADD_TASK_BY_ID', () => {
+      const newState = boardsReducer(idState, {
+        type: 'ADD_TASK_BY_ID',
+        payload: {
+          boardId: 'board-1',
+          columnId: 'column-done',
+          task: { id: 'task-3', title: 'New', status: 'Done' },
+        },
+      });
+      expect(newState.boards[0].columns[1].tasks[0].id).toBe('task-3');
+    });
+
+    it('updates only the addressed task when titles collide', () => {
+      const newState = boardsReducer(idState, {
+        type: 'UPDATE_TASK_BY_ID',
+        payload: {
+          boardId: 'board-1',
+          taskId: 'task-2',
+          task: { id: 'task-2', title: 'Edited', status: 'Todo' },
+        },
+      });
+      const titles = newState.boards[0].columns[0].tasks.map((t) => t.title);
+      expect(titles).toEqual(['Same Title', 'Edited']);
+    });
+
+    it('deletes only the addressed task when titles collide', () => {
+      const newState = boardsReducer(idState, {
+        type: 'DELETE_TASK_BY_ID',
+        payload: { boardId: 'board-1', taskId: 'task-1' },
+      });
+      const ids = newState.boards[0].columns[0].tasks.map((t) => t.id);
+      expect(ids).toEqual(['task-2']);
+    });
+
+    it('handles REORDER_TASK_BY_ID', () => {
+      const newState = boardsReducer(idState, {
+        type: 'REORDER_TASK_BY_ID',
+        payload: {
+          boardId: 'board-1',
+          columnId: 'column-todo',
+          fromIndex: 1,
+          toIndex: 0,
+        },
+      });
+      const ids = newState.boards[0].columns[0].tasks.map((t) => t.id);
+      expect(ids).toEqual(['task-2', 'task-1']);
+    });
+
+    it('handles MOVE_TASK_BY_ID', () => {
+      const newState = boardsReducer(idState, {
+        type: 'MOVE_TASK_BY_ID',
+        payload: {
+          boardId: 'board-1',
+          taskId: 'task-2',
+          toColumnId: 'column-done',
+        },
+      });
+      const [todo, done] = newState.boards[0].columns;
+      expect(todo.tasks.map((t) => t.id)).toEqual(['task-1']);
+      expect(done.tasks).toEqual([
+        { id: 'task-2', title: 'Same Title', status: 'Done' },
+      ]);
+    });
+
+    it('handles MOVE_TASK_TO_INDEX_BY_ID into another column', () => {
+      const state = boardsReducer(idState, {
+        type: 'MOVE_TASK_TO_INDEX_BY_ID',
+        payload: {
+          boardId: 'board-1',
+          taskId: 'task-2',
+          toColumnId: 'column-done',
+          toIndex: 0,
+        },
+      });
+      const newState = boardsReducer(state, {
+        type: 'MOVE_TASK_TO_INDEX_BY_ID',
+        payload: {
+          boardId: 'board-1',
+          taskId: 'task-1',
+          toColumnId: 'column-done',
+          toIndex: 0,
+        },
+      });
+      const [todo, done] = newState.boards[0].columns;
+      expect(todo.tasks).toEqual([]);
+      expect(done.tasks.map((t) => [t.id, t.status])).toEqual([
+        ['task-1', 'Done'],
+        ['task-2', 'Done'],
+      ]);
+    });
+
+    it('handles MOVE_TASK_TO_INDEX_BY_ID within a column', () => {
+      const newState = boardsReducer(idState, {
+        type: 'MOVE_TASK_TO_INDEX_BY_ID',
+        payload: {
+          boardId: 'board-1',
+          taskId: 'task-1',
+          toColumnId: 'column-todo',
+          toIndex: 1,
+        },
+      });
+      const ids = newState.boards[0].columns[0].tasks.map((t) => t.id);
+      expect(ids).toEqual(['task-2', 'task-1']);
+    });
+
+    it('ignores MOVE_TASK_TO_INDEX_BY_ID onto the same position', () => {
+      const newState = boardsReducer(idState, {
+        type: 'MOVE_TASK_TO_INDEX_BY_ID',
+        payload: {
+          boardId: 'board-1',
+          taskId: 'task-2',
+          toColumnId: 'column-todo',
+          toIndex: 5,
+        },
+      });
+      expect(newState).toBe(idState);
+    });
+
+    it('handles TOGGLE_SUBTASK_BY_ID by index', () => {
+      const newState = boardsReducer(idState, {
+        type: 'TOGGLE_SUBTASK_BY_ID',
+        payload: { boardId: 'board-1', taskId: 'task-1', subtaskIndex: 1 },
+      });
+      const subtasks = newState.boards[0].columns[0].tasks[0].subtasks!;
+      expect(subtasks.map((s) => s.isCompleted)).toEqual([false, true]);
+    });
+
+    it('handles ADD_COLUMN_BY_ID', () => {
+      const newState = boardsReducer(idState, {
+        type: 'ADD_COLUMN_BY_ID',
+        payload: {
+          boardId: 'board-2',
+          column: { id: 'column-new', name: 'New', tasks: [] },
+        },
+      });
+      expect(newState.boards[1].columns).toEqual([
+        { id: 'column-new', name: 'New', tasks: [] },
+      ]);
+    });
+
+    it('handles RENAME_COLUMN_BY_ID and keeps its tasks', () => {
+      const newState = boardsReducer(idState, {
+        type: 'RENAME_COLUMN_BY_ID',
+        payload: { boardId: 'board-1', columnId: 'column-todo', name: 'Next' },
+      });
+      const [next] = newState.boards[0].columns;
+      expect(next.name).toBe('Next');
+      expect(next.tasks.map((t) => [t.id, t.status])).toEqual([
+        ['task-1', 'Next'],
+        ['task-2', 'Next'],
+      ]);
+    });
+
+    it('ignores RENAME_COLUMN_BY_ID with a blank name', () => {
+      const newState = boardsReducer(idState, {
+        type: 'RENAME_COLUMN_BY_ID',
+        payload: { boardId: 'board-1', columnId: 'column-todo', name: ' ' },
+      });
+      expect(newState).toBe(idState);
+    });
+
+    it('handles REORDER_COLUMN_BY_ID', () => {
+      const newState = boardsReducer(idState, {
+        type: 'REORDER_COLUMN_BY_ID',
+        payload: { boardId: 'board-1', fromIndex: 1, toIndex: 0 },
+      });
+      expect(newState.boards[0].columns.map((c) => c.id)).toEqual([
+        'column-done',
+        'column-todo',
+      ]);
+    });
+
+    it('moves tasks to another column on DELETE_COLUMN_BY_ID', () => {
+      const newState = boardsReducer(idState, {
+        type: 'DELETE_COLUMN_BY_ID',
+        payload: {
+          boardId: 'board-1',
+          columnId: 'column-todo',
+          moveTasksTo: 'column-done',
+        },
+      });
+      const columns = newState.boards[0].columns;
+      expect(columns.map((c) => c.id)).toEqual(['column-done']);
+      expect(columns[0].tasks.map((t) => [t.id, t.status])).toEqual([
+        ['task-1', 'Done'],
+        ['task-2', 'Done'],
+      ]);
+    });
+
+    it('deletes the tasks on DELETE_COLUMN_BY_ID without a destination', () => {
+      const newState = boardsReducer(idState, {
+        type: 'DELETE_COLUMN_BY_ID',
+        payload: { boardId: 'board-1', columnId: 'column-todo' },
+      });
+      expect(newState.boards[0].columns).toEqual([
+        { id: 'column-done', name: 'Done', tasks: [] },
+      ]);
+    });
+
+    it('ignores DELETE_COLUMN_BY_ID when the destination is gone', () => {
+      const newState = boardsReducer(idState, {
+        type: 'DELETE_COLUMN_BY_ID',
+        payload: {
+          boardId: 'board-1',
+          columnId: 'column-todo',
+          moveTasksTo: 'column-missing',
+        },
+      });
+      expect(newState).toBe(idState);
+    });
+
+    describe('label catalog', () => {
+      const labelState: BoardsState = {
+        boards: [
+          {
+            id: 'board-1',
+            name: 'Board',
+            labels: [
+              { name: 'ux', color: '#49c4e5' },
+              { name: 'api', color: '#635fc7' },
+            ],
+            columns: [
+              {
+                id: 'column-todo',
+                name: 'Todo',
+                tasks: [
+                  { id: 'task-1', title: 'One', labels: ['api', 'ux'] },
+                  { id: 'task-2', title: 'Two', labels: ['api'] },
+                  { id: 'task-3', title: 'Three' },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+      const taskLabels = (state: BoardsState) =>
+        state.boards[0].columns[0].tasks.map((t) => t.labels);
+
+      it('handles ADD_LABEL_BY_ID and ignores taken names', () => {
+        const newState = boardsReducer(labelState, {
+          type: 'ADD_LABEL_BY_ID',
+          payload: {
+            boardId: 'board-1',
+            label: { name: ' qa ', color: '#f00' },
+          },
+        });
+        expect(newState.boards[0].labels?.at(-1)).toEqual({
+          name: 'qa',
+          color: '#f00',
+        });
+
+        expect(
+          boardsReducer(labelState, {
+            type: 'ADD_LABEL_BY_ID',
+            payload: {
+              boardId: 'board-1',
+              label: { name: 'UX', color: '#f00' },
+            },
+          })
+        ).toBe(labelState);
+      });
+
+      it('renames a label on every task on UPDATE_LABEL_BY_ID', () => {
+        const newState = boardsReducer(labelState, {
+          type: 'UPDATE_LABEL_BY_ID',
+          payload: {
+            boardId: 'board-1',
+            name: 'api',
+            label: { name: 'backend', color: '#000' },
+          },
+        });
+        expect(newState.boards[0].labels).toEqual([
+          { name: 'ux', color: '#49c4e5' },
+          { name: 'backend', color: '#000' },
+        ]);
+        expect(taskLabels(newState)).toEqual([
+          ['backend', 'ux'],
+          ['backend'],
+          undefined,
+        ]);
+      });
+
+      it('ignores UPDATE_LABEL_BY_ID onto another label name', () => {
+        const newState = boardsReducer(labelState, {
+          type: 'UPDATE_LABEL_BY_ID',
+          payload: {
+            boardId: 'board-1',
+            name: 'api',
+            label: { name: 'UX', color: '#000' },
+          },
+        });
+        expect(newState).toBe(labelState);
+      });
+
+      it('removes a label from every task on DELETE_LABEL_BY_ID', () => {
+        const newState = boardsReducer(labelState, {
+          type: 'DELETE_LABEL_BY_ID',
+          payload: { boardId: 'board-1', name: 'api' },
+        });
+        expect(newState.boards[0].labels).toEqual([
+          { name: 'ux', color: '#49c4e5' },
+        ]);
+        expect(taskLabels(newState)).toEqual([['ux'], [], undefined]);
+      });
+    });
+
+    describe('comments', () => {
+      const comment = {
+        id: 'comment-1',
+        authorId: 'member-1',
+        authorName: 'Ann',
+        body: 'First!',
+        createdAt: '2026-03-09T10:00:00.000Z',
+      };
+      const commentState: BoardsState = {
+        boards: [
+          {
+            id: 'board-1',
+            name: 'Board',
+            columns: [
+              {
+                id: 'column-todo',
+                name: 'Todo',
+                tasks: [{ id: 'task-1', title: 'One', comments: [comment] }],
+              },
+            ],
+          },
+        ],
+      };
+      const comments = (state: BoardsState) =>
+        state.boards[0].columns[0].tasks[0].comments;
+
+      it('appends comments on ADD_COMMENT_BY_ID and ignores blank ones', () => {
+        const reply = { ...comment, id: 'comment-2', body: 'Second' };
+        const newState = boardsReducer(commentState, {
+          type: 'ADD_COMMENT_BY_ID',
+          payload: { boardId: 'board-1', taskId: 'task-1', comment: reply },
+        });
+        expect(comments(newState)).toEqual([comment, reply]);
+
+        expect(
+          boardsReducer(commentState, {
+            type: 'ADD_COMMENT_BY_ID',
+            payload: {
+              boardId: 'board-1',
+              taskId: 'task-1',
+              comment: { ...reply, body: '  ' },
+            },
+          })
+        ).toBe(commentState);
+      });
+
+      const byAuthor = {
+        id: 'action-1',
+        at: '2026-03-09T11:00:00.000Z',
+        actor: { id: 'member-1', name: 'Ann' },
+      };
+
+      it('edits and deletes comments by id', () => {
+        const edited = boardsReducer(commentState, {
+          type: 'UPDATE_COMMENT_BY_ID',
+          payload: {
+            boardId: 'board-1',
+            taskId: 'task-1',
+            commentId: 'comment-1',
+            body: 'Edited',
+            editedAt: '2026-03-09T11:00:00.000Z',
+          },
+          meta: byAuthor,
+        });
+        expect(comments(edited)).toEqual([
+          { ...comment, body: 'Edited', editedAt: '2026-03-09T11:00:00.000Z' },
+        ]);
+
+        const deleted = boardsReducer(edited, {
+          type: 'DELETE_COMMENT_BY_ID',
+          payload: {
+            boardId: 'board-1',
+            taskId: 'task-1',
+            commentId: 'comment-1',
+          },
+          meta: byAuthor,
+        });
+        expect(comments(deleted)).toEqual([]);
+      });
+
+      it("ignores edits and deletes of someone else's comment", () => {
+        const payload = {
+          boardId: 'board-1',
+          taskId: 'task-1',
+          commentId: 'comment-1',
+        };
+        const other = { ...byAuthor, actor: { id: 'member-2', name: 'Bo' } };
+        expect(
+          boardsReducer(commentState, {
+            type: 'UPDATE_COMMENT_BY_ID',
+            payload: { ...payload, body: 'Hijacked', editedAt: byAuthor.at },
+            meta: other,
+          })
+        ).toBe(commentState);
+        expect(
+          boardsReducer(commentState, {
+            type: 'DELETE_COMMENT_BY_ID',
+            payload,
+            meta: other,
+          })
+        ).toBe(commentState);
+        expect(
+          boardsReducer(commentState, { type: 'DELETE_COMMENT_BY_ID', payload })
+        ).toBe(commentState);
+      });
+    });
+
+    it('ignores actions for unknown boards', () => {
+      const newState = boardsReducer(idState, {
+        type: 'DELETE_TASK_BY_ID',
+        payload: { boardId: 'missing', taskId: 'task-1' },
+      });
+      expect(newState).toBe(idState);
+    });
   });
 });
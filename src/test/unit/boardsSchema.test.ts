@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  BOARDS_SCHEMA_VERSION,
+  migrateBoardsData,
+  validateBoardsData,
+} from '@/utils/boardsSchema';
+import {
+  getBoards,
+  getBoardsBackupKeys,
+  setBoards,
+} from '@/utils/localStorage';
+
+const validBoards = {
+  boards: [
+    {
+      id: 'board-1',
+      name: 'Board',
+      columns: [
+        {
+          id: 'column-1',
+          name: 'Todo',
+          tasks: [{ id: 'task-1', title: 'Task', subtasks: [] }],
+        },
+      ],
+    },
+  ],
+};
+
+describe('boardsSchema', () => {
+  it('upgrades legacy unversioned data and backfills ids', () => {
+    const migrated = migrateBoardsData({
+      boards: [
+        {
+          name: 'Legacy',
+          columns: [{ name: 'Todo', tasks: [{ title: 'Old task' }] }],
+        },
+      ],
+    });
+
+    const [board] = migrated.boards;
+    expect(board.id).toEqual(expect.any(String));
+    expect(board.columns[0].id).toEqual(expect.any(String));
+    expect(board.columns[0].tasks[0].id).toEqual(expect.any(String));
+  });
+
+  it('returns current-version envelopes unchanged', () => {
+    expect(
+      migrateBoardsData({
+        version: BOARDS_SCHEMA_VERSION,
+        savedAt: '2026-01-01T00:00:00.000Z',
+        data: validBoards,
+      })
+    ).toEqual(validBoards);
+  });
+
+  it('tidies task priority, due date and labels saved at v1', () => {
+    const task = (fields: Record<string, unknown>) => ({
+      version: 1,
+      savedAt: '2026-01-01T00:00:00.000Z',
+      data: {
+        boards: [
+          {
+            ...validBoards.boards[0],
+            columns: [
+              {
+                ...validBoards.boards[0].columns[0],
+                tasks: [{ id: 'task-1', title: 'Task', ...fields }],
+              },
+            ],
+          },
+        ],
+      },
+    });
+    const migratedTask = (fields: Record<string, unknown>) =>
+      migrateBoardsData(task(fields)).boards[0].columns[0].tasks[0];
+
+    expect(migratedTask({})).toEqual({ id: 'task-1', title: 'Task' });
+    expect(
+      migratedTask({
+        priority: 'High',
+        dueDate: '2026-03-09T12:00:00.000Z',
+        labels: 'frontend, Frontend,  ,ux',
+      })
+    ).toEqual({
+      id: 'task-1',
+      title: 'Task',
+      priority: 'high',
+      dueDate: '2026-03-09',
+      labels: ['frontend', 'ux'],
+    });
+    expect(
+      migratedTask({ priority: 'someday', dueDate: '2026-02-30', labels: 3 })
+    ).toEqual({ id: 'task-1', title: 'Task' });
+  });
+
+  it('builds a label catalog from the labels tasks used at v2', () => {
+    const [board] = migrateBoardsData({
+      version: 2,
+      savedAt: '2026-01-01T00:00:00.000Z',
+      data: {
+        boards: [
+          {
+            id: 'board-1',
+            name: 'Board',
+            columns: [
+              {
+                id: 'column-1',
+                name: 'Todo',
+                tasks: [
+                  { id: 'task-1', title: 'A', labels: ['ux', 'api'] },
+                  { id: 'task-2', title: 'B', labels: ['UX'] },
+                  { id: 'task-3', title: 'C' },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    }).boards;
+
+    expect(board.labels!.map((l) => l.name)).toEqual(['ux', 'api']);
+    expect(board.labels![0].color).not.toBe(board.labels![1].color);
+    expect(board.columns[0].tasks.map((t) => t.labels)).toEqual([
+      ['ux', 'api'],
+      ['ux'],
+      undefined,
+    ]);
+  });
+
+  it('rejects data from a newer schema', () => {
+    expect(() =>
+      migrateBoardsData({
+        version: BOARDS_SCHEMA_VERSION + 1,
+        savedAt: '',
+        data: validBoards,
+      })
+    ).toThrow(/newer than supported/);
+  });
+
+  it('reports the first invalid field', () => {
+    expect(validateBoardsData(validBoards)).toBeNull();
+    expect(
+      validateBoardsData({
+        boards: [{ id: 'b', name: 'B', columns: [{ id: 'c', name: 'C' }] }],
+      })
+    ).toBe('boards[0].columns[0].tasks must be an array');
+    expect(
+      validateBoardsData({
+        boards: [
+          {
+            id: 'b',
+            name: 'B',
+            columns: [
+              {
+                id: 'c',
+                name: 'C',
+                tasks: [{ id: 't', title: 'T', dueDate: 'tomorrow' }],
+              },
+            ],
+          },
+        ],
+      })
+    ).toBe('boards[0].columns[0].tasks[0].dueDate must be a YYYY-MM-DD date');
+  });
+});
+
+describe('persisted boards', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('round-trips through a versioned envelope', () => {
+    setBoards(validBoards);
+
+    const stored = JSON.parse(localStorage.getItem('kanban_boards')!) as {
+      version: number;
+    };
+    expect(stored.version).toBe(BOARDS_SCHEMA_VERSION);
+    expect(getBoards()).toEqual(validBoards);
+  });
+
+  it('moves data that cannot be migrated to a backup key', () => {
+    localStorage.setItem('kanban_boards', '{"boards": "nope"}');
+
+    expect(getBoards()).toBeUndefined();
+    expect(localStorage.getItem('kanban_boards')).toBeNull();
+
+    const [backupKey] = getBoardsBackupKeys();
+    expect(localStorage.getItem(backupKey)).toBe('{"boards": "nope"}');
+  });
+});
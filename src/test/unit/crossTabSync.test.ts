@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { act } from '@testing-library/react';
+import { startCrossTabSync } from '@/store/crossTabSync';
+import { useStore } from '@/store/useStore';
+import type { BoardsAction } from '@/types/types';
+
+const addBoard: BoardsAction = {
+  type: 'ADD_BOARD',
+  payload: { id: 'board-1', name: 'Shared', columns: [] },
+};
+
+// Stands in for the same app running in another tab.
+function openOtherTab() {
+  const channel = new BroadcastChannel('kanban-sync');
+  const received: unknown[] = [];
+  channel.onmessage = (event: MessageEvent) => received.push(event.data);
+  return { channel, received };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('startCrossTabSync', () => {
+  let stop: () => void;
+  let otherTab: ReturnType<typeof openOtherTab>;
+
+  beforeEach(() => {
+    act(() => {
+      useStore
+        .getState()
+        .dispatch({ type: 'SET_BOARDS', payload: { boards: [] } });
+    });
+    otherTab = openOtherTab();
+    stop = startCrossTabSync();
+  });
+
+  afterEach(() => {
+    stop();
+    otherTab.channel.close();
+  });
+
+  it('broadcasts local actions to other tabs', async () => {
+    act(() => useStore.getState().dispatch(addBoard));
+    await flush();
+
+    // Stamped with who made the change, for the other tab's activity log.
+    expect(otherTab.received).toEqual([
+      {
+        type: 'action',
+        action: {
+          ...addBoard,
+          meta: expect.objectContaining({ actor: null }) as unknown,
+        },
+      },
+    ]);
+  });
+
+  it('applies actions from other tabs without recording history', async () => {
+    otherTab.channel.postMessage({ type: 'action', action: addBoard });
+    await act(flush);
+
+    const state = useStore.getState();
+    expect(state.boards.map((b) => b.id)).toEqual(['board-1']);
+    expect(state.history.past).toEqual([]);
+  });
+
+  it('does not echo remote actions back', async () => {
+    otherTab.channel.postMessage({ type: 'action', action: addBoard });
+    await act(flush);
+
+    expect(otherTab.received).toEqual([]);
+  });
+
+  it('follows theme changes made in another tab', () => {
+    localStorage.setItem('app_theme', 'dark');
+    act(() => {
+      window.dispatchEvent(new StorageEvent('storage', { key: 'app_theme' }));
+    });
+
+    expect(useStore.getState().theme).toBe('dark');
+  });
+
+  it('follows member directory changes made in another tab', () => {
+    const member = { id: 'member-1', name: 'Ann', email: 'ann@example.com' };
+    localStorage.setItem('workspace_members', JSON.stringify([member]));
+    act(() => {
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: 'workspace_members' })
+      );
+    });
+
+    expect(useStore.getState().members).toEqual([member]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HISTORY_GROUP_WINDOW_MS,
+  HISTORY_LIMIT,
+  createHistory,
+  getHistoryGroupKey,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+  type HistoryStep,
+} from '@/utils/history';
+
+const step = (boardId: string): HistoryStep => [
+  { type: 'DELETE_BOARD_BY_ID', payload: { boardId } },
+];
+
+describe('history', () => {
+  it('records undo steps and clears the redo stack', () => {
+    let history = createHistory();
+    history = { ...history, future: [step('stale')] };
+    history = recordHistory(history, step('a'), null, 1000);
+
+    expect(history.past).toEqual([step('a')]);
+    expect(history.future).toEqual([]);
+  });
+
+  it('moves replayed steps between undo and redo', () => {
+    const history = recordHistory(createHistory(), step('a'), null, 1000);
+
+    const undone = undoHistory(history, step('redo-a'));
+    expect(undone.past).toEqual([]);
+    expect(undone.future).toEqual([step('redo-a')]);
+
+    const redone = redoHistory(undone, step('a'));
+    expect(redone.past).toEqual([step('a')]);
+    expect(redone.future).toEqual([]);
+  });
+
+  it('drops steps that no longer change anything', () => {
+    const history = recordHistory(createHistory(), step('a'), null, 1000);
+    expect(undoHistory(history, []).future).toEqual([]);
+  });
+
+  it('groups rapid actions that share a group key', () => {
+    let history = recordHistory(createHistory(), step('a'), 'move:1', 1000);
+    history = recordHistory(history, step('b'), 'move:1', 1200);
+
+    // The latest change is reverted first.
+    expect(history.past).toEqual([[...step('b'), ...step('a')]]);
+
+    history = recordHistory(
+      history,
+      step('c'),
+      'move:1',
+      1200 + HISTORY_GROUP_WINDOW_MS + 1
+    );
+    expect(history.past).toHaveLength(2);
+    expect(history.past[1]).toEqual(step('c'));
+  });
+
+  it('bounds the number of undo steps', () => {
+    let history = createHistory();
+    for (let i = 0; i < HISTORY_LIMIT + 5; i++) {
+      history = recordHistory(history, step(String(i)), null, i);
+    }
+    expect(history.past).toHaveLength(HISTORY_LIMIT);
+    expect(history.past[0]).toEqual(step('5'));
+  });
+
+  it('groups drag actions per board', () => {
+    expect(
+      getHistoryGroupKey({
+        type: 'MOVE_TASK_BY_ID',
+        payload: { boardId: 'b1', taskId: 't1', toColumnId: 'c2' },
+      })
+    ).toBe('move:b1');
+    expect(
+      getHistoryGroupKey({
+        type: 'DELETE_TASK_BY_ID',
+        payload: { boardId: 'b1', taskId: 't1' },
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Board } from '@/types/types';
+import { createIndexedDbBoardsStorage } from '@/utils/indexedDbBoardsStorage';
+
+const board = (id: string, name = id): Board => ({ id, name, columns: [] });
+
+describe('createIndexedDbBoardsStorage', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    localStorage.clear();
+  });
+
+  it('round-trips saved boards in order', async () => {
+    const storage = createIndexedDbBoardsStorage();
+    await storage.load();
+    storage.save([board('b'), board('a')]);
+    await storage.flush();
+
+    const reopened = createIndexedDbBoardsStorage();
+    expect(await reopened.load()).toEqual({
+      boards: [board('b'), board('a')],
+    });
+  });
+
+  it('debounces saves to the latest boards', async () => {
+    const storage = createIndexedDbBoardsStorage({ debounceMs: 10_000 });
+    await storage.load();
+    storage.save([board('a', 'First')]);
+    storage.save([board('a', 'Second')]);
+    await storage.flush();
+
+    const reopened = createIndexedDbBoardsStorage();
+    expect((await reopened.load())?.boards).toEqual([board('a', 'Second')]);
+  });
+
+  it('applies deletes and reorders incrementally', async () => {
+    const storage = createIndexedDbBoardsStorage();
+    await storage.load();
+    const a = board('a');
+    const b = board('b');
+    const c = board('c');
+    storage.save([a, b, c]);
+    await storage.flush();
+    storage.save([c, a]);
+    await storage.flush();
+
+    const reopened = createIndexedDbBoardsStorage();
+    expect((await reopened.load())?.boards).toEqual([c, a]);
+  });
+
+  it('imports the localStorage snapshot on first run', async () => {
+    localStorage.setItem(
+      'kanban_boards',
+      JSON.stringify({
+        boards: [{ id: 'legacy', name: 'Legacy', columns: [] }],
+      })
+    );
+    const storage = createIndexedDbBoardsStorage();
+
+    const data = await storage.load();
+    expect(data?.boards).toEqual([board('legacy', 'Legacy')]);
+
+    storage.save(data!.boards);
+    await storage.flush();
+    expect(localStorage.getItem('kanban_boards')).toBeNull();
+  });
+
+  it('reports nothing stored on a fresh database', async () => {
+    expect(await createIndexedDbBoardsStorage().load()).toBeUndefined();
+  });
+});
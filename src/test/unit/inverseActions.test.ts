@@ -0,0 +1,246 @@
+import { describe, it, expect } from 'vitest';
+import { boardsReducer } from '@/utils/boardsReducer';
+import {
+  getBoardRestoreActions,
+  getInverseAction,
+} from '@/utils/inverseActions';
+import type { BoardsAction, BoardsState } from '@/types/types';
+
+const state: BoardsState = {
+  boards: [
+    {
+      id: 'board-1',
+      name: 'Board',
+      columns: [
+        {
+          id: 'column-todo',
+          name: 'Todo',
+          tasks: [
+            { id: 'task-1', title: 'First', status: 'Todo' },
+            { id: 'task-2', title: 'Second', status: 'Todo' },
+          ],
+        },
+      ],
+    },
+    { id: 'board-2', name: 'Other', columns: [] },
+  ],
+};
+
+function applyWithInverse(action: BoardsAction) {
+  const inverse = getInverseAction(state, action);
+  return { next: boardsReducer(state, action), inverse };
+}
+
+describe('getInverseAction', () => {
+  it('restores a deleted task at its original position', () => {
+    const { next, inverse } = applyWithInverse({
+      type: 'DELETE_TASK_BY_ID',
+      payload: { boardId: 'board-1', taskId: 'task-1' },
+    });
+
+    expect(inverse?.type).toBe('RESTORE_TASK');
+    const restored = boardsReducer(next, inverse!);
+    expect(restored.boards[0].columns[0].tasks.map((t) => t.id)).toEqual([
+      'task-1',
+      'task-2',
+    ]);
+  });
+
+  it('leaves later unrelated changes in place when restoring a task', () => {
+    const { next, inverse } = applyWithInverse({
+      type: 'DELETE_TASK_BY_ID',
+      payload: { boardId: 'board-1', taskId: 'task-1' },
+    });
+    const later = boardsReducer(next, {
+      type: 'ADD_TASK_BY_ID',
+      payload: {
+        boardId: 'board-1',
+        columnId: 'column-todo',
+        task: { id: 'task-3', title: 'Third', status: 'Todo' },
+      },
+    });
+
+    const restored = boardsReducer(later, inverse!);
+    expect(restored.boards[0].columns[0].tasks.map((t) => t.id)).toEqual([
+      'task-1',
+      'task-2',
+      'task-3',
+    ]);
+  });
+
+  it('restores a deleted board at its original index', () => {
+    const { next, inverse } = applyWithInverse({
+      type: 'DELETE_BOARD_BY_ID',
+      payload: { boardId: 'board-1' },
+    });
+
+    const restored = boardsReducer(next, inverse!);
+    expect(restored.boards.map((b) => b.id)).toEqual(['board-1', 'board-2']);
+  });
+
+  it('does not restore an entity twice', () => {
+    const { next, inverse } = applyWithInverse({
+      type: 'DELETE_TASK_BY_ID',
+      payload: { boardId: 'board-1', taskId: 'task-2' },
+    });
+
+    const once = boardsReducer(next, inverse!);
+    expect(boardsReducer(once, inverse!)).toBe(once);
+  });
+
+  it('moves a task back without undoing later changes to the board', () => {
+    const { next, inverse } = applyWithInverse({
+      type: 'MOVE_TASK_TO_INDEX_BY_ID',
+      payload: {
+        boardId: 'board-1',
+        taskId: 'task-1',
+        toColumnId: 'column-todo',
+        toIndex: 1,
+      },
+    });
+    const later = boardsReducer(next, {
+      type: 'RENAME_COLUMN_BY_ID',
+      payload: { boardId: 'board-1', columnId: 'column-todo', name: 'Next' },
+    });
+
+    const column = boardsReducer(later, inverse!).boards[0].columns[0];
+    expect(column.name).toBe('Next');
+    expect(column.tasks.map((t) => t.id)).toEqual(['task-1', 'task-2']);
+  });
+
+  it('puts back the previous task without touching its neighbours', () => {
+    const { next, inverse } = applyWithInverse({
+      type: 'UPDATE_TASK_BY_ID',
+      payload: {
+        boardId: 'board-1',
+        taskId: 'task-1',
+        task: { id: 'task-1', title: 'Renamed', status: 'Todo' },
+      },
+    });
+    const later = boardsReducer(next, {
+      type: 'DELETE_TASK_BY_ID',
+      payload: { boardId: 'board-1', taskId: 'task-2' },
+    });
+
+    expect(boardsReducer(later, inverse!).boards[0].columns[0].tasks).toEqual([
+      state.boards[0].columns[0].tasks[0],
+    ]);
+  });
+
+  it('reverts only the task fields an edit changed', () => {
+    const { next, inverse } = applyWithInverse({
+      type: 'UPDATE_TASK_BY_ID',
+      payload: {
+        boardId: 'board-1',
+        taskId: 'task-1',
+        task: { id: 'task-1', title: 'Renamed', status: 'Todo' },
+      },
+    });
+    expect(inverse).toEqual({
+      type: 'PATCH_TASK_BY_ID',
+      payload: {
+        boardId: 'board-1',
+        taskId: 'task-1',
+        patch: { title: 'First' },
+      },
+    });
+
+    const later = boardsReducer(next, {
+      type: 'PATCH_TASK_BY_ID',
+      payload: {
+        boardId: 'board-1',
+        taskId: 'task-1',
+        patch: { description: 'Added since', labels: ['ux'] },
+      },
+    });
+    expect(
+      boardsReducer(later, inverse!).boards[0].columns[0].tasks[0]
+    ).toEqual({
+      id: 'task-1',
+      title: 'First',
+      status: 'Todo',
+      description: 'Added since',
+      labels: ['ux'],
+    });
+  });
+
+  it('reverts comment edits and deletions', () => {
+    const meta = { id: 'a', at: '', actor: { id: 'member-1', name: 'Ann' } };
+    const comment = {
+      id: 'comment-1',
+      authorId: 'member-1',
+      authorName: 'Ann',
+      body: 'Hi',
+      createdAt: '2026-03-09T10:00:00.000Z',
+    };
+    const withComment = boardsReducer(state, {
+      type: 'ADD_COMMENT_BY_ID',
+      payload: { boardId: 'board-1', taskId: 'task-1', comment },
+    });
+    const comments = (s: BoardsState) =>
+      s.boards[0].columns[0].tasks[0].comments;
+
+    const edit: BoardsAction = {
+      type: 'UPDATE_COMMENT_BY_ID',
+      payload: {
+        boardId: 'board-1',
+        taskId: 'task-1',
+        commentId: 'comment-1',
+        body: 'Hello',
+        editedAt: '2026-03-09T11:00:00.000Z',
+      },
+      meta,
+    };
+    const undoEdit = getInverseAction(withComment, edit)!;
+    const edited = boardsReducer(withComment, edit);
+    expect(comments(boardsReducer(edited, { ...undoEdit, meta }))).toEqual([
+      comment,
+    ]);
+
+    const remove: BoardsAction = {
+      type: 'DELETE_COMMENT_BY_ID',
+      payload: { boardId: 'board-1', taskId: 'task-1', commentId: 'comment-1' },
+      meta,
+    };
+    const undoRemove = getInverseAction(withComment, remove)!;
+    expect(undoRemove.type).toBe('RESTORE_COMMENT');
+    const removed = boardsReducer(withComment, remove);
+    expect(comments(boardsReducer(removed, undoRemove))).toEqual([comment]);
+  });
+
+  it('reverts deleting a column by restoring the previous board', () => {
+    const { next, inverse } = applyWithInverse({
+      type: 'DELETE_COLUMN_BY_ID',
+      payload: { boardId: 'board-1', columnId: 'column-todo' },
+    });
+
+    expect(boardsReducer(next, inverse!).boards[0]).toBe(state.boards[0]);
+  });
+
+  it('returns null when the target no longer exists', () => {
+    expect(
+      getInverseAction(state, {
+        type: 'DELETE_TASK_BY_ID',
+        payload: { boardId: 'board-1', taskId: 'missing' },
+      })
+    ).toBeNull();
+  });
+});
+
+describe('getBoardRestoreActions', () => {
+  it('restores only the boards that changed', () => {
+    const added = { id: 'board-3', name: 'New', columns: [] };
+    const renamed = { ...state.boards[0], name: 'Renamed' };
+
+    const actions = getBoardRestoreActions(state.boards, [renamed, added]);
+    expect(actions.map((a) => a.type)).toEqual([
+      'DELETE_BOARD_BY_ID',
+      'UPDATE_BOARD_BY_ID',
+      'RESTORE_BOARD',
+    ]);
+    const restored = actions.reduce(boardsReducer, {
+      boards: [renamed, added],
+    });
+    expect(restored.boards).toEqual(state.boards);
+  });
+});
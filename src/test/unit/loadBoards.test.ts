@@ -0,0 +1,42 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { loadInitialBoards } from '@/store/loadBoards';
+import { createLocalStorageBoardsStorage } from '@/utils/boardsStorage';
+
+describe('loadInitialBoards', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('restores the persisted snapshot without fetching', async () => {
+    localStorage.setItem(
+      'kanban_boards',
+      JSON.stringify({
+        boards: [{ id: 'board-1', name: 'Saved', columns: [] }],
+      })
+    );
+
+    const result = await loadInitialBoards(createLocalStorageBoardsStorage());
+
+    expect(result.source).toBe('storage');
+    expect(result.boards).toEqual([
+      { id: 'board-1', name: 'Saved', columns: [] },
+    ]);
+  });
+
+  it('keeps an empty saved workspace empty', async () => {
+    localStorage.setItem('kanban_boards', JSON.stringify({ boards: [] }));
+
+    const result = await loadInitialBoards(createLocalStorageBoardsStorage());
+
+    expect(result).toEqual({ boards: [], source: 'storage' });
+  });
+
+  it('seeds from the sample data when nothing is stored', async () => {
+    const result = await loadInitialBoards(createLocalStorageBoardsStorage());
+
+    expect(result.source).toBe('network');
+    expect(result.boards[0].name).toBe('Platform Launch');
+    expect(result.boards[0].id).toEqual(expect.any(String));
+    expect(result.boards[0].columns[0].tasks[0].id).toEqual(expect.any(String));
+  });
+});
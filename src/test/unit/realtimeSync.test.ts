@@ -0,0 +1,183 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+  vi,
+} from 'vitest';
+import { act } from '@testing-library/react';
+import { http, passthrough } from 'msw';
+import { WebSocket as WsClient, type WebSocketServer } from 'ws';
+import { server } from '../mocks/server';
+import { startRealtimeServer } from '../../../server/realtime-server.js';
+import { startRealtimeSync, setViewingBoard } from '@/store/realtimeSync';
+import { useStore } from '@/store/useStore';
+import type { BoardsAction } from '@/types/types';
+
+const addBoard: BoardsAction = {
+  type: 'ADD_BOARD',
+  payload: { id: 'board-1', name: 'Shared', columns: [] },
+};
+
+type Peer = { socket: WsClient; messages: { type: string }[] };
+
+let wss: WebSocketServer;
+let port: number;
+let url: string;
+
+function connectPeer(name: string, boardId: string | null = null) {
+  return new Promise<Peer>((resolve) => {
+    const socket = new WsClient(url);
+    const peer: Peer = { socket, messages: [] };
+    socket.on('message', (data) => {
+      peer.messages.push(
+        JSON.parse(String(data as Buffer)) as { type: string }
+      );
+    });
+    socket.on('open', () => {
+      socket.send(
+        JSON.stringify({
+          type: 'hello',
+          clientId: name,
+          user: { id: name, name },
+        })
+      );
+      socket.send(JSON.stringify({ type: 'presence', boardId }));
+      resolve(peer);
+    });
+  });
+}
+
+beforeAll(async () => {
+  wss = startRealtimeServer({ port: 0 });
+  await new Promise((resolve) => wss.on('listening', resolve));
+  port = (wss.address() as { port: number }).port;
+  url = `ws://localhost:${port}`;
+});
+
+// Let the WebSocket handshakes through to the stand-in server.
+beforeEach(() => {
+  server.use(http.get(`http://localhost:${port}/`, () => passthrough()));
+});
+
+afterAll(() => {
+  wss.clients.forEach((client) => client.terminate());
+  wss.close();
+});
+
+describe('realtime stand-in server', () => {
+  it('relays actions to everyone but the sender', async () => {
+    const alice = await connectPeer('alice');
+    const bob = await connectPeer('bob');
+
+    alice.socket.send(JSON.stringify({ type: 'action', action: addBoard }));
+
+    await vi.waitFor(() =>
+      expect(bob.messages).toContainEqual({
+        type: 'action',
+        action: addBoard,
+        clientId: 'alice',
+      })
+    );
+    expect(alice.messages.some((m) => m.type === 'action')).toBe(false);
+
+    alice.socket.close();
+    bob.socket.close();
+  });
+
+  it('broadcasts who is viewing which board', async () => {
+    const alice = await connectPeer('alice', 'board-1');
+    const bob = await connectPeer('bob', 'board-2');
+
+    await vi.waitFor(() =>
+      expect(alice.messages.at(-1)).toEqual({
+        type: 'presence',
+        viewers: [
+          {
+            clientId: 'alice',
+            user: { id: 'alice', name: 'alice' },
+            boardId: 'board-1',
+          },
+          {
+            clientId: 'bob',
+            user: { id: 'bob', name: 'bob' },
+            boardId: 'board-2',
+          },
+        ],
+      })
+    );
+
+    alice.socket.close();
+    bob.socket.close();
+  });
+});
+
+describe('startRealtimeSync', () => {
+  beforeEach(() => {
+    // Node's `ws` client stands in for the browser WebSocket.
+    vi.stubGlobal('WebSocket', WsClient);
+    act(() => {
+      useStore
+        .getState()
+        .dispatch({ type: 'SET_BOARDS', payload: { boards: [] } });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('applies actions from other people without recording history', async () => {
+    const stop = startRealtimeSync(url);
+    const peer = await connectPeer('peer');
+    await vi.waitFor(() =>
+      expect(useStore.getState().presence.map((v) => v.clientId)).toEqual([
+        'peer',
+      ])
+    );
+
+    peer.socket.send(JSON.stringify({ type: 'action', action: addBoard }));
+
+    await vi.waitFor(() =>
+      expect(useStore.getState().boards.map((b) => b.id)).toEqual(['board-1'])
+    );
+    expect(useStore.getState().history.past).toEqual([]);
+
+    peer.socket.close();
+    stop();
+  });
+
+  it('sends local actions and presence to other people', async () => {
+    const stop = startRealtimeSync(url);
+    const peer = await connectPeer('peer');
+    await vi.waitFor(() =>
+      expect(useStore.getState().presence).toHaveLength(1)
+    );
+
+    act(() => useStore.getState().dispatch(addBoard));
+    setViewingBoard('board-1');
+
+    await vi.waitFor(() => {
+      expect(peer.messages).toContainEqual(
+        expect.objectContaining({
+          type: 'action',
+          action: expect.objectContaining(addBoard) as unknown,
+        })
+      );
+      expect(peer.messages.at(-1)).toEqual({
+        type: 'presence',
+        viewers: expect.arrayContaining([
+          expect.objectContaining({ boardId: 'board-1' }),
+        ]) as unknown,
+      });
+    });
+
+    setViewingBoard(null);
+    peer.socket.close();
+    stop();
+    expect(useStore.getState().presence).toEqual([]);
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { act } from '@testing-library/react';
+import { http, HttpResponse } from 'msw';
+import { server } from '../mocks/server';
+import { getMockBoards, setMockBoards } from '../mocks/db';
+import { startServerSync } from '@/store/serverSync';
+import { useStore } from '@/store/useStore';
+import type { Board, BoardsAction } from '@/types/types';
+
+const board: Board = {
+  id: 'board-1',
+  name: 'Roadmap',
+  columns: [
+    { id: 'col-1', name: 'Todo', tasks: [{ id: 'task-1', title: 'Plan' }] },
+    { id: 'col-2', name: 'Done', tasks: [] },
+  ],
+};
+
+const addTask: BoardsAction = {
+  type: 'ADD_TASK_BY_ID',
+  payload: {
+    boardId: 'board-1',
+    columnId: 'col-1',
+    task: { id: 'task-2', title: 'Ship' },
+  },
+};
+
+describe('startServerSync', () => {
+  const ui = {
+    startLoading: vi.fn(),
+    stopLoading: vi.fn(),
+    showToast: vi.fn(),
+  };
+  let stop: () => void;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setMockBoards([structuredClone(board)]);
+    localStorage.clear();
+    useStore.setState({ outbox: [], offline: false });
+    act(() => {
+      useStore
+        .getState()
+        .dispatch({ type: 'SET_BOARDS', payload: { boards: [board] } });
+    });
+    stop = startServerSync(ui);
+  });
+
+  afterEach(() => stop());
+
+  it('applies the change immediately and sends it in the background', async () => {
+    act(() => useStore.getState().dispatch(addTask));
+
+    expect(useStore.getState().boards[0].columns[0].tasks).toHaveLength(2);
+    expect(ui.startLoading).toHaveBeenCalledWith('sync:outbox');
+
+    await vi.waitFor(() =>
+      expect(ui.stopLoading).toHaveBeenCalledWith('sync:outbox')
+    );
+    expect(useStore.getState().outbox).toEqual([]);
+    expect(getMockBoards()[0].columns[0].tasks.map((t) => t.id)).toEqual([
+      'task-1',
+      'task-2',
+    ]);
+    expect(ui.showToast).not.toHaveBeenCalled();
+  });
+
+  it('sends moves between columns', async () => {
+    act(() =>
+      useStore.getState().dispatch({
+        type: 'MOVE_TASK_BY_ID',
+        payload: { boardId: 'board-1', taskId: 'task-1', toColumnId: 'col-2' },
+      })
+    );
+
+    await vi.waitFor(() => expect(ui.stopLoading).toHaveBeenCalled());
+    expect(getMockBoards()[0].columns[1].tasks).toEqual([
+      { id: 'task-1', title: 'Plan', status: 'Done' },
+    ]);
+  });
+
+  it('rolls back and reports a failed request', async () => {
+    server.use(
+      http.post('/api/boards/:boardId/columns/:columnId/tasks', () =>
+        HttpResponse.json({ message: 'Server unavailable' }, { status: 503 })
+      )
+    );
+
+    act(() => useStore.getState().dispatch(addTask));
+    await act(() => vi.waitFor(() => expect(ui.showToast).toHaveBeenCalled()));
+
+    const state = useStore.getState();
+    expect(state.boards[0].columns[0].tasks.map((t) => t.id)).toEqual([
+      'task-1',
+    ]);
+    // Only the original change is in the history, not its rollback.
+    expect(state.history.past).toHaveLength(1);
+    expect(ui.showToast).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'error',
+        message: expect.stringContaining('Server unavailable') as string,
+      })
+    );
+  });
+
+  it('rolls back only the rejected change', async () => {
+    server.use(
+      http.patch('/api/boards/:boardId/tasks/:taskId', () =>
+        HttpResponse.json({ message: 'Server unavailable' }, { status: 503 })
+      )
+    );
+
+    act(() =>
+      useStore.getState().dispatch({
+        type: 'UPDATE_TASK_BY_ID',
+        payload: {
+          boardId: 'board-1',
+          taskId: 'task-1',
+          task: { id: 'task-1', title: 'Plan v2' },
+        },
+      })
+    );
+    act(() => useStore.getState().dispatch(addTask));
+    await act(() => vi.waitFor(() => expect(ui.showToast).toHaveBeenCalled()));
+
+    // The task added after the rejected edit is still there.
+    expect(
+      useStore.getState().boards[0].columns[0].tasks.map((t) => t.title)
+    ).toEqual(['Plan', 'Ship']);
+  });
+
+  it('does not send actions that came from elsewhere', () => {
+    act(() => useStore.getState().dispatch(addTask, { source: 'remote' }));
+
+    expect(ui.startLoading).not.toHaveBeenCalled();
+  });
+
+  it('syncs undo as the change that reverts it', async () => {
+    act(() => useStore.getState().dispatch(addTask));
+    await vi.waitFor(() => expect(ui.stopLoading).toHaveBeenCalledTimes(1));
+
+    act(() => useStore.getState().undo());
+    await vi.waitFor(() => expect(ui.stopLoading).toHaveBeenCalledTimes(2));
+
+    expect(getMockBoards()[0].columns[0].tasks.map((t) => t.id)).toEqual([
+      'task-1',
+    ]);
+  });
+
+  it('syncs undo of a task edit as the fields it changed', async () => {
+    act(() =>
+      useStore.getState().dispatch({
+        type: 'UPDATE_TASK_BY_ID',
+        payload: {
+          boardId: 'board-1',
+          taskId: 'task-1',
+          task: { id: 'task-1', title: 'Plan v2', priority: 'high' },
+        },
+      })
+    );
+    await vi.waitFor(() => expect(ui.stopLoading).toHaveBeenCalledTimes(1));
+
+    act(() => useStore.getState().undo());
+    await vi.waitFor(() => expect(ui.stopLoading).toHaveBeenCalledTimes(2));
+
+    const [task] = getMockBoards()[0].columns[0].tasks;
+    expect(task.title).toBe('Plan');
+    expect(task.priority).toBeUndefined();
+  });
+
+  describe('offline', () => {
+    const goOffline = () =>
+      server.use(http.all('/api/*', () => HttpResponse.error()));
+
+    it('keeps changes in a persistent outbox when the network fails', async () => {
+      goOffline();
+
+      act(() => useStore.getState().dispatch(addTask));
+      await vi.waitFor(() => expect(useStore.getState().offline).toBe(true));
+
+      const { outbox, boards } = useStore.getState();
+      expect(outbox).toHaveLength(1);
+      expect(outbox[0].mutation).toMatchObject({ type: 'createTask' });
+      expect(JSON.parse(localStorage.getItem('kanban_outbox')!)).toEqual(
+        outbox
+      );
+      // The change stays applied locally.
+      expect(boards[0].columns[0].tasks).toHaveLength(2);
+      expect(ui.showToast).not.toHaveBeenCalled();
+    });
+
+    it('keeps changes another tab queued in the shared outbox', async () => {
+      goOffline();
+      const queuedElsewhere = {
+        id: 'other-tab',
+        actionId: 'other-action',
+        mutation: {
+          type: 'updateBoard',
+          boardId: 'board-1',
+          patch: { name: 'Plans' },
+        },
+        queuedAt: '2026-03-09T10:00:00.000Z',
+        offline: true,
+      };
+      localStorage.setItem('kanban_outbox', JSON.stringify([queuedElsewhere]));
+
+      act(() => useStore.getState().dispatch(addTask));
+      await vi.waitFor(() => expect(useStore.getState().offline).toBe(true));
+
+      const saved = JSON.parse(localStorage.getItem('kanban_outbox')!) as {
+        id: string;
+      }[];
+      expect(saved.map((entry) => entry.id)).toEqual([
+        'other-tab',
+        useStore.getState().outbox[1].id,
+      ]);
+    });
+
+    it('replays queued changes in order once back online', async () => {
+      goOffline();
+      act(() => useStore.getState().dispatch(addTask));
+      await vi.waitFor(() => expect(useStore.getState().offline).toBe(true));
+      act(() =>
+        useStore.getState().dispatch({
+          type: 'MOVE_TASK_BY_ID',
+          payload: {
+            boardId: 'board-1',
+            taskId: 'task-2',
+            toColumnId: 'col-2',
+          },
+        })
+      );
+      expect(useStore.getState().outbox).toHaveLength(2);
+
+      server.resetHandlers();
+      window.dispatchEvent(new Event('online'));
+
+      await vi.waitFor(() => expect(useStore.getState().outbox).toEqual([]));
+      expect(useStore.getState().offline).toBe(false);
+      expect(getMockBoards()[0].columns[1].tasks.map((t) => t.id)).toEqual([
+        'task-2',
+      ]);
+    });
+
+    it('reports conflicts from replay without rolling back', async () => {
+      goOffline();
+      act(() =>
+        useStore.getState().dispatch({
+          type: 'DELETE_TASK_BY_ID',
+          payload: { boardId: 'board-1', taskId: 'task-1' },
+        })
+      );
+      await vi.waitFor(() => expect(useStore.getState().offline).toBe(true));
+
+      // Someone else deleted the task in the meantime.
+      server.resetHandlers();
+      getMockBoards()[0].columns[0].tasks = [];
+      window.dispatchEvent(new Event('online'));
+
+      await vi.waitFor(() => expect(ui.showToast).toHaveBeenCalled());
+      expect(ui.showToast).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'error',
+          message: expect.stringContaining('Sync conflict') as string,
+        })
+      );
+      expect(useStore.getState().outbox).toEqual([]);
+      expect(useStore.getState().boards[0].columns[0].tasks).toEqual([]);
+    });
+  });
+});
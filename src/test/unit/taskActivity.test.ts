@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { act } from '@testing-library/react';
+import type { ActionMeta, Board, BoardsAction } from '@/types/types';
+import { startTaskActivityLog } from '@/store/taskActivityLog';
+import { useStore } from '@/store/useStore';
+import {
+  appendActivity,
+  collectTaskActivity,
+  describeTaskChange,
+} from '@/utils/taskActivity';
+
+const meta: ActionMeta = {
+  id: 'action-1',
+  at: '2026-03-09T10:00:00.000Z',
+  actor: { id: 'member-1', name: 'Ann' },
+};
+
+const board: Board = {
+  id: 'board-1',
+  name: 'Board',
+  columns: [
+    {
+      id: 'todo',
+      name: 'Todo',
+      tasks: [
+        {
+          id: 'a',
+          title: 'Plan',
+          status: 'Todo',
+          subtasks: [{ title: 'Draft', isCompleted: false }],
+        },
+        { id: 'b', title: 'Build', status: 'Todo' },
+      ],
+    },
+    { id: 'done', name: 'Done', tasks: [] },
+  ],
+};
+
+const move: BoardsAction = {
+  type: 'MOVE_TASK_TO_INDEX_BY_ID',
+  payload: { boardId: 'board-1', taskId: 'a', toColumnId: 'done', toIndex: 0 },
+};
+
+const noName = (id: string) => id;
+
+describe('collectTaskActivity', () => {
+  it('records a move as a column change by the actor', () => {
+    const [todo, done] = board.columns;
+    const next: Board = {
+      ...board,
+      columns: [
+        { ...todo, tasks: [todo.tasks[1]] },
+        { ...done, tasks: [{ ...todo.tasks[0], status: 'Done' }] },
+      ],
+    };
+
+    expect(collectTaskActivity(move, meta, [board], [next])).toEqual([
+      {
+        id: 'action-1:a',
+        boardId: 'board-1',
+        taskId: 'a',
+        kind: 'updated',
+        actionType: 'MOVE_TASK_TO_INDEX_BY_ID',
+        at: meta.at,
+        actor: meta.actor,
+        changes: [{ field: 'column', before: 'Todo', after: 'Done' }],
+      },
+    ]);
+  });
+
+  it('does not read a column rename as tasks moving', () => {
+    const next: Board = {
+      ...board,
+      columns: [
+        {
+          ...board.columns[0],
+          name: 'Backlog',
+          tasks: board.columns[0].tasks.map((t) => ({
+            ...t,
+            status: 'Backlog',
+          })),
+        },
+        board.columns[1],
+      ],
+    };
+
+    expect(collectTaskActivity(move, meta, [board], [next])).toEqual([]);
+  });
+
+  it('records created and deleted tasks but not whole boards', () => {
+    const [todo] = board.columns;
+    const next: Board = {
+      ...board,
+      columns: [
+        { ...todo, tasks: [todo.tasks[0], { id: 'c', title: 'Ship' }] },
+        board.columns[1],
+      ],
+    };
+    const other: Board = { id: 'board-2', name: 'Other', columns: [] };
+
+    expect(
+      collectTaskActivity(move, meta, [board], [next, other]).map((e) => [
+        e.taskId,
+        e.kind,
+      ])
+    ).toEqual([
+      ['c', 'created'],
+      ['b', 'deleted'],
+    ]);
+  });
+
+  it('skips entries it already has and keeps the newest', () => {
+    const entries = collectTaskActivity(
+      move,
+      meta,
+      [board],
+      [{ ...board, columns: [] }]
+    );
+    const log = appendActivity([], entries);
+
+    expect(appendActivity(log, entries)).toBe(log);
+  });
+});
+
+describe('describeTaskChange', () => {
+  it('describes subtask, label and assignee changes', () => {
+    expect(
+      describeTaskChange(
+        {
+          field: 'subtasks',
+          before: [
+            { title: 'Draft', isCompleted: false },
+            { title: 'Old', isCompleted: false },
+          ],
+          after: [
+            { title: 'Draft', isCompleted: true },
+            { title: 'New', isCompleted: false },
+          ],
+        },
+        noName
+      )
+    ).toBe(
+      'completed subtask "Draft", added subtask "New", removed subtask "Old"'
+    );
+    expect(
+      describeTaskChange(
+        { field: 'labels', before: ['api'], after: ['ux'] },
+        noName
+      )
+    ).toBe('added label ux, removed label api');
+    expect(
+      describeTaskChange(
+        { field: 'assigneeIds', before: [], after: ['member-1'] },
+        (id) => (id === 'member-1' ? 'Ann' : id)
+      )
+    ).toBe('assigned Ann');
+    expect(
+      describeTaskChange({ field: 'priority', after: 'urgent' }, noName)
+    ).toBe('set the priority to Urgent');
+  });
+});
+
+describe('startTaskActivityLog', () => {
+  let stop: () => void;
+
+  beforeEach(() => {
+    act(() => {
+      useStore.setState({
+        user: { id: 'member-1', name: 'Ann', email: 'ann@example.com' },
+        taskActivity: [],
+      });
+      useStore
+        .getState()
+        .dispatch({ type: 'SET_BOARDS', payload: { boards: [board] } });
+    });
+    stop = startTaskActivityLog();
+  });
+
+  afterEach(() => {
+    stop();
+    act(() => {
+      useStore.setState({ user: null, taskActivity: [] });
+    });
+  });
+
+  it('records local actions and undo under the logged-in user', () => {
+    act(() => {
+      useStore.getState().dispatch({
+        type: 'TOGGLE_SUBTASK_BY_ID',
+        payload: { boardId: 'board-1', taskId: 'a', subtaskIndex: 0 },
+      });
+    });
+    act(() => useStore.getState().undo());
+
+    const activity = useStore.getState().taskActivity;
+    expect(activity.map((e) => [e.actionType, e.actor?.name])).toEqual([
+      ['TOGGLE_SUBTASK_BY_ID', 'Ann'],
+      ['TOGGLE_SUBTASK_BY_ID', 'Ann'],
+    ]);
+    expect(
+      activity.map((e) => describeTaskChange(e.changes[0], noName))
+    ).toEqual(['completed subtask "Draft"', 'reopened subtask "Draft"']);
+  });
+
+  it('skips rollbacks of changes the server rejected', () => {
+    act(() => {
+      useStore.getState().dispatch(
+        {
+          type: 'DELETE_TASK_BY_ID',
+          payload: { boardId: 'board-1', taskId: 'b' },
+        },
+        { cause: 'rollback' }
+      );
+    });
+
+    expect(useStore.getState().taskActivity).toEqual([]);
+  });
+
+  it('keeps the actor of actions replayed from elsewhere', () => {
+    act(() => {
+      useStore.getState().dispatch(
+        {
+          type: 'DELETE_TASK_BY_ID',
+          payload: { boardId: 'board-1', taskId: 'b' },
+          meta: { ...meta, actor: { id: 'member-2', name: 'Bo' } },
+        },
+        { source: 'remote' }
+      );
+    });
+
+    expect(useStore.getState().taskActivity).toMatchObject([
+      { id: 'action-1:b', kind: 'deleted', actor: { name: 'Bo' } },
+    ]);
+  });
+});
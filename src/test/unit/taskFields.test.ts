@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isDueDate,
+  isOverdue,
+  normalizeLabels,
+  toTaskFields,
+} from '@/utils/taskFields';
+
+describe('taskFields', () => {
+  it('accepts only real YYYY-MM-DD days as due dates', () => {
+    expect(isDueDate('2026-02-28')).toBe(true);
+    expect(isDueDate('2024-02-29')).toBe(true);
+    expect(isDueDate('2026-02-29')).toBe(false);
+    expect(isDueDate('2026-2-28')).toBe(false);
+    expect(isDueDate('2026-02-28T00:00:00Z')).toBe(false);
+    expect(isDueDate(undefined)).toBe(false);
+  });
+
+  it('treats only days before today as overdue', () => {
+    expect(isOverdue('2026-03-08', '2026-03-09')).toBe(true);
+    expect(isOverdue('2026-03-09', '2026-03-09')).toBe(false);
+    expect(isOverdue('2026-03-10', '2026-03-09')).toBe(false);
+    expect(isOverdue(undefined, '2026-03-09')).toBe(false);
+  });
+
+  it('trims labels and drops blanks and duplicates', () => {
+    expect(normalizeLabels([' ux ', 'UX', '', 'api'])).toEqual(['ux', 'api']);
+  });
+
+  it('turns empty form values into unset fields', () => {
+    expect(
+      toTaskFields({
+        priority: '',
+        dueDate: '',
+        labels: [' '],
+        assigneeIds: [],
+      })
+    ).toEqual({
+      priority: undefined,
+      dueDate: undefined,
+      labels: undefined,
+      assigneeIds: undefined,
+    });
+    expect(
+      toTaskFields({
+        priority: 'high',
+        dueDate: '2026-03-09',
+        labels: ['ux'],
+        assigneeIds: ['member-1'],
+      })
+    ).toEqual({
+      priority: 'high',
+      dueDate: '2026-03-09',
+      labels: ['ux'],
+      assigneeIds: ['member-1'],
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import type { Board } from '@/types/types';
+import { boardsReducer } from '@/utils/boardsReducer';
+import {
+  createTaskSearchIndex,
+  getSearchTerms,
+  getSnippet,
+  groupSearchMatches,
+  searchTasks,
+  splitHighlights,
+} from '@/utils/taskSearch';
+
+const boards: Board[] = [
+  {
+    id: 'board-1',
+    name: 'Roadmap',
+    columns: [
+      {
+        id: 'todo',
+        name: 'Todo',
+        tasks: [
+          {
+            id: 'a',
+            title: 'Plan launch',
+            description: 'Agree on the launch date with marketing',
+            status: 'Todo',
+            subtasks: [{ title: 'Draft press release', isCompleted: false }],
+          },
+          { id: 'b', title: 'Build API', status: 'Todo' },
+        ],
+      },
+      {
+        id: 'done',
+        name: 'Done',
+        tasks: [{ id: 'c', title: 'Launch checklist', status: 'Done' }],
+      },
+    ],
+  },
+  {
+    id: 'board-2',
+    name: 'Ops',
+    columns: [
+      {
+        id: 'ops-todo',
+        name: 'Todo',
+        tasks: [
+          {
+            id: 'd',
+            title: 'Rotate keys',
+            status: 'Todo',
+            subtasks: [{ title: 'Plan the launch window', isCompleted: true }],
+          },
+        ],
+      },
+    ],
+  },
+];
+
+const titles = (found: ReturnType<typeof searchTasks>) =>
+  found.map((m) => m.task.title);
+
+describe('searchTasks', () => {
+  it('matches titles, descriptions and subtasks on every board', () => {
+    const index = createTaskSearchIndex();
+    expect(titles(searchTasks(index, boards, ['launch']))).toEqual([
+      'Plan launch',
+      'Launch checklist',
+      'Rotate keys',
+    ]);
+    expect(titles(searchTasks(index, boards, ['marketing']))).toEqual([
+      'Plan launch',
+    ]);
+  });
+
+  it('requires every term and reports where they matched', () => {
+    const [match, ...rest] = searchTasks(
+      createTaskSearchIndex(),
+      boards,
+      getSearchTerms('PRESS  plan')
+    );
+    expect(rest).toEqual([]);
+    expect(match).toMatchObject({
+      task: { id: 'a' },
+      descriptionMatched: false,
+      subtasks: ['Draft press release'],
+    });
+  });
+
+  it('picks up edits to the boards it has indexed', () => {
+    const index = createTaskSearchIndex();
+    expect(searchTasks(index, boards, ['keys'])).toHaveLength(1);
+
+    const { boards: next } = boardsReducer(
+      { boards },
+      {
+        type: 'UPDATE_TASK_BY_ID',
+        payload: {
+          boardId: 'board-2',
+          taskId: 'd',
+          task: { ...boards[1].columns[0].tasks[0], title: 'Rotate secrets' },
+        },
+      }
+    );
+    expect(searchTasks(index, next, ['keys'])).toEqual([]);
+    expect(titles(searchTasks(index, next, ['secrets']))).toEqual([
+      'Rotate secrets',
+    ]);
+  });
+});
+
+describe('groupSearchMatches', () => {
+  it('nests matches under their board and column', () => {
+    const groups = groupSearchMatches(
+      searchTasks(createTaskSearchIndex(), boards, ['launch'])
+    );
+    expect(
+      groups.map(({ board, columns }) => [
+        board.name,
+        columns.map(({ column, matches }) => [column.name, matches.length]),
+      ])
+    ).toEqual([
+      [
+        'Roadmap',
+        [
+          ['Todo', 1],
+          ['Done', 1],
+        ],
+      ],
+      ['Ops', [['Todo', 1]]],
+    ]);
+  });
+});
+
+describe('splitHighlights', () => {
+  it('marks every match, merging overlaps', () => {
+    expect(splitHighlights('Plan launch', ['lau', 'aunch', 'plan'])).toEqual([
+      { text: 'Plan', match: true },
+      { text: ' ', match: false },
+      { text: 'launch', match: true },
+    ]);
+  });
+});
+
+describe('getSnippet', () => {
+  it('cuts around the first match', () => {
+    const text = `${'a'.repeat(60)} needle ${'b'.repeat(100)}`;
+    const snippet = getSnippet(text, ['needle'], 10);
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('needle');
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { act } from '@testing-library/react';
 import type { User } from '@/types/types';
+import { createHistory } from '@/utils/history';
 
 const { mockGetTheme, mockSetTheme, mockGetAuth, mockSetAuth } = vi.hoisted(
   () => ({
@@ -11,20 +12,55 @@ const { mockGetTheme, mockSetTheme, mockGetAuth, mockSetAuth } = vi.hoisted(
   })
 );
 
+const { mockGetOutbox, mockSetOutbox } = vi.hoisted(() => ({
+  mockGetOutbox: vi.fn(() => []),
+  mockSetOutbox: vi.fn(),
+}));
+
+const { mockGetMembers, mockSetMembers } = vi.hoisted(() => ({
+  mockGetMembers: vi.fn(() => []),
+  mockSetMembers: vi.fn(),
+}));
+
+const { mockGetTaskActivity, mockSetTaskActivity } = vi.hoisted(() => ({
+  mockGetTaskActivity: vi.fn(() => []),
+  mockSetTaskActivity: vi.fn(),
+}));
+
+const { mockGetAuditLog, mockSetAuditLog } = vi.hoisted(() => ({
+  mockGetAuditLog: vi.fn(() => []),
+  mockSetAuditLog: vi.fn(),
+}));
+
 vi.mock('@/utils/localStorage', () => ({
   getTheme: mockGetTheme,
   setTheme: mockSetTheme,
   getAuth: mockGetAuth,
   setAuth: mockSetAuth,
+  getOutbox: mockGetOutbox,
+  setOutbox: mockSetOutbox,
+  getMembers: mockGetMembers,
+  setMembers: mockSetMembers,
+  getTaskActivity: mockGetTaskActivity,
+  setTaskActivity: mockSetTaskActivity,
+  getAuditLog: mockGetAuditLog,
+  setAuditLog: mockSetAuditLog,
 }));
 
 import { useStore } from '@/store/useStore';
 
 const getInitialState = () => ({
   boards: [],
+  history: createHistory(),
   theme: 'light' as const,
   user: null,
   isLoggedIn: false,
+  members: [],
+  taskActivity: [],
+  auditLog: [],
+  outbox: [],
+  offline: false,
+  presence: [],
   loadingKeys: [],
   toasts: [],
 });
@@ -37,9 +73,18 @@ describe('useStore', () => {
       {
         ...getInitialState(),
         dispatch: state.dispatch,
+        undo: state.undo,
+        redo: state.redo,
         setTheme: state.setTheme,
         login: state.login,
         logout: state.logout,
+        addMember: state.addMember,
+        removeMember: state.removeMember,
+        recordTaskActivity: state.recordTaskActivity,
+        recordAuditEntry: state.recordAuditEntry,
+        updateOutbox: state.updateOutbox,
+        setOffline: state.setOffline,
+        setPresence: state.setPresence,
         addLoadingKey: state.addLoadingKey,
         removeLoadingKey: state.removeLoadingKey,
         addToast: state.addToast,
@@ -55,9 +100,18 @@ describe('useStore', () => {
       {
         ...getInitialState(),
         dispatch: state.dispatch,
+        undo: state.undo,
+        redo: state.redo,
         setTheme: state.setTheme,
         login: state.login,
         logout: state.logout,
+        addMember: state.addMember,
+        removeMember: state.removeMember,
+        recordTaskActivity: state.recordTaskActivity,
+        recordAuditEntry: state.recordAuditEntry,
+        updateOutbox: state.updateOutbox,
+        setOffline: state.setOffline,
+        setPresence: state.setPresence,
         addLoadingKey: state.addLoadingKey,
         removeLoadingKey: state.removeLoadingKey,
         addToast: state.addToast,
@@ -83,12 +137,111 @@ describe('useStore', () => {
     act(() => {
       dispatch({
         type: 'ADD_BOARD',
-        payload: { name: 'Test Board', columns: [] },
+        payload: { id: 'board-test-board', name: 'Test Board', columns: [] },
       });
     });
 
     const state = useStore.getState();
-    expect(state.boards).toEqual([{ name: 'Test Board', columns: [] }]);
+    expect(state.boards).toEqual([
+      { id: 'board-test-board', name: 'Test Board', columns: [] },
+    ]);
+  });
+
+  it('undoes and redoes board changes', () => {
+    const { dispatch } = useStore.getState();
+
+    act(() => {
+      dispatch({
+        type: 'ADD_BOARD',
+        payload: { id: 'board-1', name: 'First', columns: [] },
+      });
+      dispatch({
+        type: 'DELETE_BOARD_BY_ID',
+        payload: { boardId: 'board-1' },
+      });
+    });
+    expect(useStore.getState().boards).toEqual([]);
+
+    act(() => useStore.getState().undo());
+    expect(useStore.getState().boards.map((b) => b.id)).toEqual(['board-1']);
+
+    act(() => useStore.getState().redo());
+    expect(useStore.getState().boards).toEqual([]);
+  });
+
+  it('undoes actions sharing a history group in one step', () => {
+    const { dispatch } = useStore.getState();
+
+    act(() => {
+      dispatch({
+        type: 'ADD_BOARD',
+        payload: { id: 'board-1', name: 'First', columns: [] },
+      });
+      dispatch(
+        {
+          type: 'ADD_BOARD',
+          payload: { id: 'board-2', name: 'Second', columns: [] },
+        },
+        { historyGroup: 'batch' }
+      );
+      dispatch(
+        {
+          type: 'ADD_BOARD',
+          payload: { id: 'board-3', name: 'Third', columns: [] },
+        },
+        { historyGroup: 'batch' }
+      );
+    });
+
+    act(() => useStore.getState().undo());
+    expect(useStore.getState().boards.map((b) => b.id)).toEqual(['board-1']);
+  });
+
+  it('undoes only its own change, keeping changes from elsewhere', () => {
+    const { dispatch } = useStore.getState();
+
+    act(() => {
+      dispatch({
+        type: 'ADD_BOARD',
+        payload: { id: 'board-1', name: 'First', columns: [] },
+      });
+      dispatch(
+        {
+          type: 'ADD_BOARD',
+          payload: { id: 'board-2', name: 'Second', columns: [] },
+        },
+        { source: 'remote' }
+      );
+      // A snapshot from the server keeps the history too.
+      dispatch(
+        { type: 'SET_BOARDS', payload: { boards: useStore.getState().boards } },
+        { source: 'remote' }
+      );
+    });
+
+    act(() => useStore.getState().undo());
+    expect(useStore.getState().boards.map((b) => b.id)).toEqual(['board-2']);
+
+    // Redo puts the board back where it was.
+    act(() => useStore.getState().redo());
+    expect(useStore.getState().boards.map((b) => b.id)).toEqual([
+      'board-1',
+      'board-2',
+    ]);
+  });
+
+  it('starts a fresh history when boards are replaced', () => {
+    const { dispatch } = useStore.getState();
+
+    act(() => {
+      dispatch({
+        type: 'ADD_BOARD',
+        payload: { id: 'board-1', name: 'First', columns: [] },
+      });
+      dispatch({ type: 'SET_BOARDS', payload: { boards: [] } });
+    });
+
+    expect(useStore.getState().history.past).toEqual([]);
   });
 
   it('sets theme and persists it', () => {
@@ -124,6 +277,35 @@ describe('useStore', () => {
     });
   });
 
+  it('adds the user to the member directory on login', () => {
+    const testUser: User = { id: '1', name: 'Ann', email: 'ann@example.com' };
+    const other: User = { id: '2', name: 'Bo', email: 'bo@example.com' };
+    useStore.setState({ members: [other] });
+
+    act(() => {
+      useStore.getState().login(testUser);
+    });
+    act(() => {
+      useStore.getState().login(testUser);
+    });
+
+    expect(useStore.getState().members).toEqual([other, testUser]);
+    expect(mockSetMembers).toHaveBeenCalledTimes(1);
+    expect(mockSetMembers).toHaveBeenCalledWith([other, testUser]);
+  });
+
+  it('removes members', () => {
+    const member: User = { id: '2', name: 'Bo', email: 'bo@example.com' };
+    useStore.setState({ members: [member] });
+
+    act(() => {
+      useStore.getState().removeMember('2');
+    });
+
+    expect(useStore.getState().members).toEqual([]);
+    expect(mockSetMembers).toHaveBeenCalledWith([]);
+  });
+
   it('logs out user and clears auth', () => {
     const { logout } = useStore.getState();
 
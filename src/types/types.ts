@@ -11,6 +11,9 @@ export type Auth = {
 
 export type User = StoredUser;
 
+/** Someone in the workspace that tasks can be assigned to. */
+export type Member = StoredUser;
+
 export type AuthContextType = {
   user: User | null;
   isLoggedIn: boolean;
@@ -18,6 +21,12 @@ export type AuthContextType = {
   logout: () => void;
 };
 
+export type MembersContextType = {
+  members: Member[];
+  addMember: (member: Member) => void;
+  removeMember: (id: string) => void;
+};
+
 export type ThemeContextType = {
   theme: 'light' | 'dark';
   setTheme: (theme: 'light' | 'dark') => void;
@@ -27,8 +36,7 @@ export type TaskDetailsModalProps = {
   open: boolean;
   onClose: () => void;
   boardIndex: number | null;
-  columnName: string | null;
-  taskTitle: string | null;
+  taskId: string | null;
 };
 
 export type Subtask = {
@@ -36,28 +44,96 @@ export type Subtask = {
   isCompleted: boolean;
 };
 
+export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export type TaskComment = {
+  id: string;
+  /** The member who wrote the comment. */
+  authorId: string;
+  /** The author's name when they wrote it, kept in case they leave. */
+  authorName: string;
+  body: string;
+  /** ISO timestamp. */
+  createdAt: string;
+  /** ISO timestamp of the last edit, if any. */
+  editedAt?: string;
+};
+
 export type Task = {
   id: string;
   title: string;
   description?: string;
   status?: string;
   subtasks?: Subtask[];
+  priority?: TaskPriority;
+  /** Calendar day the task is due, as `YYYY-MM-DD`. */
+  dueDate?: string;
+  /** Names of labels from the board's catalog. */
+  labels?: string[];
+  /** Ids of the workspace members the task is assigned to. */
+  assigneeIds?: string[];
+  /** Oldest first. */
+  comments?: TaskComment[];
 };
 
 export type RawTask = Omit<Task, 'id'> & { id?: string };
 
+function generateId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
 export function generateTaskId(): string {
-  return `task-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+  return generateId('task');
+}
+
+export function generateColumnId(): string {
+  return generateId('column');
+}
+
+export function generateBoardId(): string {
+  return generateId('board');
+}
+
+export function generateMemberId(): string {
+  return generateId('member');
+}
+
+export function generateCommentId(): string {
+  return generateId('comment');
+}
+
+export function generateActionId(): string {
+  return generateId('action');
 }
 
 export type Column = {
+  id: string;
   name: string;
   tasks: Task[];
 };
 
+/** An entry in a board's label catalog. Names are unique per board. */
+export type BoardLabel = {
+  name: string;
+  /** A CSS hex color, e.g. `#49c4e5`. */
+  color: string;
+};
+
 export type Board = {
+  id: string;
   name: string;
   columns: Column[];
+  labels?: BoardLabel[];
+};
+
+export type RawColumn = Omit<Column, 'id' | 'tasks'> & {
+  id?: string;
+  tasks: RawTask[];
+};
+
+export type RawBoard = Omit<Board, 'id' | 'columns'> & {
+  id?: string;
+  columns: RawColumn[];
 };
 
 export type BoardsData = {
@@ -73,7 +149,18 @@ export type BoardsContextType = {
   dispatch: React.Dispatch<BoardsAction>;
 };
 
-export type BoardsAction =
+/** Who dispatched an action and when. Stamped by the store's `dispatch`. */
+export type ActionMeta = {
+  id: string;
+  /** ISO timestamp. */
+  at: string;
+  /** Null when nobody was logged in. */
+  actor: Pick<User, 'id' | 'name'> | null;
+};
+
+export type BoardsAction = BoardsActionBody & { meta?: ActionMeta };
+
+type BoardsActionBody =
   | { type: 'ADD_BOARD'; payload: Board }
   | { type: 'UPDATE_BOARD'; payload: { boardIndex: number; board: Board } }
   | { type: 'DELETE_BOARD'; payload: { boardIndex: number } }
@@ -125,12 +212,208 @@ export type BoardsAction =
   | {
       type: 'ADD_COLUMN';
       payload: { boardIndex: number; columnName: string };
+    }
+  // Id-addressed actions. Prefer these over the index/name/title variants
+  // above, which cannot tell apart two tasks with the same title.
+  | {
+      type: 'UPDATE_BOARD_BY_ID';
+      payload: { boardId: string; board: Board };
+    }
+  | {
+      type: 'RENAME_BOARD_BY_ID';
+      payload: { boardId: string; name: string };
+    }
+  | { type: 'DELETE_BOARD_BY_ID'; payload: { boardId: string } }
+  | {
+      type: 'ADD_TASK_BY_ID';
+      payload: { boardId: string; columnId: string; task: Task };
+    }
+  | {
+      type: 'UPDATE_TASK_BY_ID';
+      payload: { boardId: string; taskId: string; task: Task };
+    }
+  | {
+      type: 'PATCH_TASK_BY_ID';
+      /**
+       * Sets only the fields in `patch` and keeps the rest of the task as it
+       * is now; a field set to `undefined` is cleared. Used by undo.
+       */
+      payload: {
+        boardId: string;
+        taskId: string;
+        patch: Partial<Omit<Task, 'id' | 'status' | 'comments'>>;
+      };
+    }
+  | { type: 'DELETE_TASK_BY_ID'; payload: { boardId: string; taskId: string } }
+  | {
+      type: 'REORDER_TASK_BY_ID';
+      payload: {
+        boardId: string;
+        columnId: string;
+        fromIndex: number;
+        toIndex: number;
+      };
+    }
+  | {
+      type: 'MOVE_TASK_BY_ID';
+      payload: { boardId: string; taskId: string; toColumnId: string };
+    }
+  | {
+      type: 'MOVE_TASK_TO_INDEX_BY_ID';
+      /**
+       * Moves a task to `toIndex` in `toColumnId`, which may be the column it
+       * is already in. `toIndex` counts the target column's tasks with the
+       * moved task taken out.
+       */
+      payload: {
+        boardId: string;
+        taskId: string;
+        toColumnId: string;
+        toIndex: number;
+      };
+    }
+  | {
+      type: 'TOGGLE_SUBTASK_BY_ID';
+      payload: { boardId: string; taskId: string; subtaskIndex: number };
+    }
+  | {
+      type: 'ADD_COLUMN_BY_ID';
+      payload: { boardId: string; column: Column };
+    }
+  | {
+      type: 'RENAME_COLUMN_BY_ID';
+      payload: { boardId: string; columnId: string; name: string };
+    }
+  | {
+      type: 'REORDER_COLUMN_BY_ID';
+      payload: { boardId: string; fromIndex: number; toIndex: number };
+    }
+  | {
+      type: 'DELETE_COLUMN_BY_ID';
+      /**
+       * `moveTasksTo` is the id of the column that takes over the deleted
+       * column's tasks; without it the tasks are deleted along with it.
+       */
+      payload: { boardId: string; columnId: string; moveTasksTo?: string };
+    }
+  | {
+      type: 'ADD_LABEL_BY_ID';
+      payload: { boardId: string; label: BoardLabel };
+    }
+  | {
+      type: 'UPDATE_LABEL_BY_ID';
+      /**
+       * Replaces the catalog label called `name`; a new name is carried over
+       * to every task that has the label.
+       */
+      payload: { boardId: string; name: string; label: BoardLabel };
+    }
+  | {
+      type: 'DELETE_LABEL_BY_ID';
+      /** Removes the label from the catalog and from every task. */
+      payload: { boardId: string; name: string };
+    }
+  | {
+      type: 'ADD_COMMENT_BY_ID';
+      payload: { boardId: string; taskId: string; comment: TaskComment };
+    }
+  | {
+      type: 'UPDATE_COMMENT_BY_ID';
+      payload: {
+        boardId: string;
+        taskId: string;
+        commentId: string;
+        body: string;
+        /** Left out when undo puts back a comment that was never edited. */
+        editedAt?: string;
+      };
+    }
+  | {
+      type: 'DELETE_COMMENT_BY_ID';
+      payload: { boardId: string; taskId: string; commentId: string };
+    }
+  // Re-insert a deleted entity at its original position (used by undo).
+  | { type: 'RESTORE_BOARD'; payload: { index: number; board: Board } }
+  | {
+      type: 'RESTORE_TASK';
+      payload: {
+        boardId: string;
+        columnId: string;
+        index: number;
+        task: Task;
+      };
+    }
+  | {
+      type: 'RESTORE_COMMENT';
+      payload: {
+        boardId: string;
+        taskId: string;
+        index: number;
+        comment: TaskComment;
+      };
     };
 
+/** One field of a task as it was before and after a change. */
+export type TaskActivityChange =
+  | {
+      field: 'title' | 'description' | 'priority' | 'dueDate' | 'column';
+      before?: string;
+      after?: string;
+    }
+  | { field: 'labels' | 'assigneeIds'; before: string[]; after: string[] }
+  | { field: 'subtasks'; before: Subtask[]; after: Subtask[] };
+
+/** An entry in a task's activity history. */
+export type TaskActivityEntry = {
+  id: string;
+  boardId: string;
+  taskId: string;
+  kind: 'created' | 'updated' | 'deleted';
+  /** The `BoardsAction` type that made the change. */
+  actionType: BoardsAction['type'];
+  at: string;
+  actor: ActionMeta['actor'];
+  /** Empty for `created` and `deleted`. */
+  changes: TaskActivityChange[];
+};
+
+/** What an audit log entry records: a board action, or an undo or redo. */
+export type AuditAction = BoardsAction['type'] | 'UNDO' | 'REDO';
+
+/** One change to the workspace's boards, for the admin audit log. */
+export type AuditLogEntry = {
+  /** The id of the action's `meta`. */
+  id: string;
+  at: string;
+  actor: ActionMeta['actor'];
+  action: AuditAction;
+  /** Null when the change spans several boards. */
+  boardId: string | null;
+  boardName: string | null;
+  /** What was changed, such as a task title or column name. */
+  target: string | null;
+};
+
+/** Someone else connected to the realtime channel. */
+export type PresenceViewer = {
+  clientId: string;
+  user: Pick<User, 'id' | 'name'> | null;
+  /** The board they have open, if any. */
+  boardId: string | null;
+};
+
+export type UiToastAction = {
+  label: string;
+  onAction: () => void;
+};
+
 export type UiToast = {
   id: string;
   type: 'success' | 'error' | 'info';
   message: string;
+  action?: UiToastAction;
+  /** Auto-dismiss delay in ms; 0 keeps the toast until it is dismissed. */
+  duration?: number;
 };
 
 export type UiState = {
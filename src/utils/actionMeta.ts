@@ -0,0 +1,13 @@
+import { generateActionId, type ActionMeta, type User } from '@/types/types';
+
+/** Stamps an action as done by `user` (if anyone is logged in) right now. */
+export function createActionMeta(
+  user: User | null,
+  now = new Date()
+): ActionMeta {
+  return {
+    id: generateActionId(),
+    at: now.toISOString(),
+    actor: user ? { id: user.id, name: user.name } : null,
+  };
+}
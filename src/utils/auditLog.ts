@@ -0,0 +1,299 @@
+import type {
+  ActionMeta,
+  AuditAction,
+  AuditLogEntry,
+  Board,
+  BoardsAction,
+  Task,
+} from '@/types/types';
+import { getToday } from '@/utils/taskFields';
+
+/** Older entries are dropped once the log holds this many. */
+export const MAX_AUDIT_ENTRIES = 2000;
+
+/**
+ * What each action did, in words. Legacy and id-addressed variants share a
+ * label so the log can be filtered by what happened rather than how.
+ */
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  ADD_BOARD: 'Create board',
+  UPDATE_BOARD: 'Edit board',
+  UPDATE_BOARD_BY_ID: 'Edit board',
+  RENAME_BOARD_BY_ID: 'Rename board',
+  DELETE_BOARD: 'Delete board',
+  DELETE_BOARD_BY_ID: 'Delete board',
+  RESTORE_BOARD: 'Restore board',
+  SET_BOARDS: 'Replace boards',
+  ADD_TASK: 'Create task',
+  ADD_TASK_BY_ID: 'Create task',
+  UPDATE_TASK: 'Edit task',
+  UPDATE_TASK_BY_ID: 'Edit task',
+  PATCH_TASK_BY_ID: 'Edit task',
+  DELETE_TASK: 'Delete task',
+  DELETE_TASK_BY_ID: 'Delete task',
+  RESTORE_TASK: 'Restore task',
+  REORDER_TASK: 'Move task',
+  REORDER_TASK_BY_ID: 'Move task',
+  MOVE_TASK: 'Move task',
+  MOVE_TASK_BY_ID: 'Move task',
+  MOVE_TASK_TO_INDEX_BY_ID: 'Move task',
+  TOGGLE_SUBTASK: 'Toggle subtask',
+  TOGGLE_SUBTASK_BY_ID: 'Toggle subtask',
+  ADD_COLUMN: 'Add column',
+  ADD_COLUMN_BY_ID: 'Add column',
+  RENAME_COLUMN_BY_ID: 'Rename column',
+  REORDER_COLUMN_BY_ID: 'Reorder columns',
+  DELETE_COLUMN_BY_ID: 'Delete column',
+  ADD_LABEL_BY_ID: 'Add label',
+  UPDATE_LABEL_BY_ID: 'Edit label',
+  DELETE_LABEL_BY_ID: 'Delete label',
+  ADD_COMMENT_BY_ID: 'Add comment',
+  UPDATE_COMMENT_BY_ID: 'Edit comment',
+  DELETE_COMMENT_BY_ID: 'Delete comment',
+  RESTORE_COMMENT: 'Restore comment',
+  UNDO: 'Undo',
+  REDO: 'Redo',
+};
+
+/** The distinct labels, for picking which kind of change to show. */
+export const AUDIT_ACTION_NAMES = [
+  ...new Set(Object.values(AUDIT_ACTION_LABELS)),
+];
+
+/** The one board an action changed, or null when it changed none or several. */
+function findChangedBoard(
+  previousBoards: Board[],
+  nextBoards: Board[]
+): Board | null {
+  const previousById = new Map(previousBoards.map((b) => [b.id, b]));
+  const nextIds = new Set(nextBoards.map((b) => b.id));
+  const changed = [
+    ...nextBoards.filter((b) => previousById.get(b.id) !== b),
+    ...previousBoards.filter((b) => !nextIds.has(b.id)),
+  ];
+  return changed.length === 1 ? changed[0] : null;
+}
+
+function findTask(boards: Board[], taskId: string): Task | undefined {
+  for (const board of boards) {
+    for (const column of board.columns) {
+      const task = column.tasks.find((t) => t.id === taskId);
+      if (task) return task;
+    }
+  }
+}
+
+function findColumnName(boards: Board[], columnId: string) {
+  for (const board of boards) {
+    const column = board.columns.find((c) => c.id === columnId);
+    if (column) return column.name;
+  }
+}
+
+/**
+ * What an action was applied to, looked up in the boards from before and
+ * after it so deleted tasks and renamed columns still have a name.
+ */
+function getAuditTarget(
+  action: BoardsAction,
+  boards: Board[],
+  board: Board | null
+): string | null {
+  const task = (taskId: string) => findTask(boards, taskId)?.title ?? null;
+  switch (action.type) {
+    case 'ADD_BOARD':
+    case 'UPDATE_BOARD':
+    case 'UPDATE_BOARD_BY_ID':
+    case 'RENAME_BOARD_BY_ID':
+    case 'DELETE_BOARD':
+    case 'DELETE_BOARD_BY_ID':
+    case 'RESTORE_BOARD':
+      return board?.name ?? null;
+    case 'ADD_TASK':
+    case 'ADD_TASK_BY_ID':
+    case 'UPDATE_TASK_BY_ID':
+    case 'RESTORE_TASK':
+      return action.payload.task.title;
+    case 'UPDATE_TASK':
+    case 'DELETE_TASK':
+    case 'MOVE_TASK':
+    case 'TOGGLE_SUBTASK':
+      return action.payload.taskTitle;
+    case 'PATCH_TASK_BY_ID':
+    case 'DELETE_TASK_BY_ID':
+    case 'MOVE_TASK_BY_ID':
+    case 'MOVE_TASK_TO_INDEX_BY_ID':
+    case 'TOGGLE_SUBTASK_BY_ID':
+    case 'ADD_COMMENT_BY_ID':
+    case 'UPDATE_COMMENT_BY_ID':
+    case 'DELETE_COMMENT_BY_ID':
+    case 'RESTORE_COMMENT':
+      return task(action.payload.taskId);
+    case 'ADD_COLUMN':
+    case 'REORDER_TASK':
+      return action.payload.columnName;
+    case 'ADD_COLUMN_BY_ID':
+      return action.payload.column.name;
+    case 'RENAME_COLUMN_BY_ID':
+      return action.payload.name;
+    case 'REORDER_TASK_BY_ID':
+    case 'DELETE_COLUMN_BY_ID':
+      return findColumnName(boards, action.payload.columnId) ?? null;
+    case 'ADD_LABEL_BY_ID':
+    case 'UPDATE_LABEL_BY_ID':
+      return action.payload.label.name;
+    case 'DELETE_LABEL_BY_ID':
+      return action.payload.name;
+    case 'REORDER_COLUMN_BY_ID':
+    case 'SET_BOARDS':
+      return null;
+  }
+}
+
+/**
+ * The audit log entry for one action. `type` overrides what is recorded as
+ * having happened, for the actions undo and redo replay.
+ */
+export function createAuditEntry(
+  action: BoardsAction,
+  meta: ActionMeta,
+  previousBoards: Board[],
+  nextBoards: Board[],
+  type: AuditAction = action.type
+): AuditLogEntry {
+  const board = findChangedBoard(previousBoards, nextBoards);
+  return {
+    id: meta.id,
+    at: meta.at,
+    actor: meta.actor,
+    action: type,
+    boardId: board?.id ?? null,
+    boardName: board?.name ?? null,
+    target: getAuditTarget(action, [...nextBoards, ...previousBoards], board),
+  };
+}
+
+/**
+ * Adds `entry` to `log` unless it is already there, and keeps only the
+ * newest `MAX_AUDIT_ENTRIES`.
+ */
+export function appendAuditEntry(
+  log: AuditLogEntry[],
+  entry: AuditLogEntry
+): AuditLogEntry[] {
+  if (log.some((e) => e.id === entry.id)) return log;
+  return [...log, entry].slice(-MAX_AUDIT_ENTRIES);
+}
+
+/** Stands for entries made while nobody was logged in. */
+export const ANONYMOUS_ACTOR = 'anonymous';
+
+/** Empty fields match everything. Dates are local `YYYY-MM-DD` days. */
+export type AuditLogFilters = {
+  actorId: string;
+  boardId: string;
+  /** One of `AUDIT_ACTION_NAMES`. */
+  action: string;
+  from: string;
+  to: string;
+};
+
+export const EMPTY_AUDIT_FILTERS: AuditLogFilters = {
+  actorId: '',
+  boardId: '',
+  action: '',
+  from: '',
+  to: '',
+};
+
+export function filterAuditLog(
+  log: AuditLogEntry[],
+  filters: AuditLogFilters
+): AuditLogEntry[] {
+  return log.filter((entry) => {
+    const day = getToday(new Date(entry.at));
+    const actorId = entry.actor?.id ?? ANONYMOUS_ACTOR;
+    return (
+      (!filters.actorId || actorId === filters.actorId) &&
+      (!filters.boardId || entry.boardId === filters.boardId) &&
+      (!filters.action ||
+        AUDIT_ACTION_LABELS[entry.action] === filters.action) &&
+      // Both are YYYY-MM-DD, so string order is date order.
+      (!filters.from || day >= filters.from) &&
+      (!filters.to || day <= filters.to)
+    );
+  });
+}
+
+type AuditFilterOption = { value: string; label: string };
+
+/** Everyone who appears in the log, by their latest name. */
+export function getAuditActorOptions(
+  log: AuditLogEntry[]
+): AuditFilterOption[] {
+  const names = new Map<string, string>();
+  for (const entry of log) {
+    names.set(
+      entry.actor?.id ?? ANONYMOUS_ACTOR,
+      entry.actor?.name ?? 'Anonymous'
+    );
+  }
+  return [...names].map(([value, label]) => ({ value, label }));
+}
+
+/**
+ * The current boards followed by deleted ones that still appear in the log,
+ * under the name they last had there.
+ */
+export function getAuditBoardOptions(
+  log: AuditLogEntry[],
+  boards: Board[]
+): AuditFilterOption[] {
+  const names = new Map(boards.map((b) => [b.id, b.name]));
+  for (const entry of log) {
+    if (
+      entry.boardId &&
+      entry.boardName &&
+      !boards.some((b) => b.id === entry.boardId)
+    ) {
+      names.set(entry.boardId, entry.boardName);
+    }
+  }
+  return [...names].map(([value, label]) => ({ value, label }));
+}
+
+const CSV_COLUMNS = [
+  'Time',
+  'User ID',
+  'User',
+  'Board ID',
+  'Board',
+  'Action',
+  'Target',
+];
+
+function escapeCsv(value: string): string {
+  // Names are user input; keep spreadsheets from running them as formulas.
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** The entries as CSV with a header row, one entry per line. */
+export function toAuditCsv(log: AuditLogEntry[]): string {
+  const rows = log.map((entry) => [
+    entry.at,
+    entry.actor?.id ?? '',
+    entry.actor?.name ?? '',
+    entry.boardId ?? '',
+    entry.boardName ?? '',
+    AUDIT_ACTION_LABELS[entry.action],
+    entry.target ?? '',
+  ]);
+  return [CSV_COLUMNS, ...rows]
+    .map((row) => row.map(escapeCsv).join(','))
+    .join('\r\n');
+}
+
+export function toAuditJson(log: AuditLogEntry[]): string {
+  return JSON.stringify(log, null, 2);
+}
@@ -0,0 +1,41 @@
+import type { Board, BoardLabel, Task } from '@/types/types';
+
+/** Colors handed out to new labels in turn. */
+export const LABEL_COLORS = [
+  '#49c4e5',
+  '#635fc7',
+  '#67e2ae',
+  '#e5a449',
+  '#ea5555',
+  '#2a3fdb',
+  '#c36e6e',
+  '#828fa3',
+];
+
+/** Shown for a task label that is missing from the catalog. */
+const FALLBACK_LABEL_COLOR = '#828fa3';
+
+/** The color for the `index`th label of a catalog. */
+export function getLabelColor(index: number): string {
+  return LABEL_COLORS[index % LABEL_COLORS.length];
+}
+
+/** Finds a catalog label by name, ignoring case. */
+export function findLabel(
+  labels: BoardLabel[] | undefined,
+  name: string
+): BoardLabel | undefined {
+  const key = name.trim().toLowerCase();
+  return labels?.find((label) => label.name.toLowerCase() === key);
+}
+
+/** A task's labels with their catalog colors, in the task's order. */
+export function getTaskLabels(
+  board: Pick<Board, 'labels'>,
+  task: Pick<Task, 'labels'>
+): BoardLabel[] {
+  return (task.labels ?? []).map(
+    (name) =>
+      findLabel(board.labels, name) ?? { name, color: FALLBACK_LABEL_COLOR }
+  );
+}
@@ -0,0 +1,55 @@
+import type { Board } from '@/types/types';
+
+// Board URLs look like /board/platform-launch--board-1700000000000-abc1234:
+// a readable slug of the name followed by the stable id. Only the id is used
+// to find the board, so renaming a board keeps old links working.
+const REF_SEPARATOR = '--';
+
+export function slugify(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/** The `:boardId` URL segment for `board`. */
+export function getBoardRef(board: Pick<Board, 'id' | 'name'>): string {
+  const slug = slugify(board.name);
+  return slug ? `${slug}${REF_SEPARATOR}${board.id}` : board.id;
+}
+
+export function getBoardPath(board: Pick<Board, 'id' | 'name'>): string {
+  return `/board/${encodeURIComponent(getBoardRef(board))}`;
+}
+
+export function getTaskPath(
+  board: Pick<Board, 'id' | 'name'>,
+  taskId: string
+): string {
+  return `${getBoardPath(board)}/task/${encodeURIComponent(taskId)}`;
+}
+
+/**
+ * Finds the board a `:boardId` URL segment refers to. Accepts the canonical
+ * `slug--id` form, a bare id, a bare slug, and (for old bookmarks) an array
+ * index.
+ */
+export function resolveBoardRef(
+  boards: Board[],
+  ref: string
+): { board: Board; index: number } | null {
+  const separatorAt = ref.lastIndexOf(REF_SEPARATOR);
+  const id =
+    separatorAt === -1 ? ref : ref.slice(separatorAt + REF_SEPARATOR.length);
+
+  let index = boards.findIndex((b) => b.id === id || b.id === ref);
+  if (index === -1) index = boards.findIndex((b) => slugify(b.name) === ref);
+  if (index === -1 && /^\d+$/.test(ref)) {
+    const legacyIndex = parseInt(ref, 10);
+    if (legacyIndex < boards.length) index = legacyIndex;
+  }
+
+  return index === -1 ? null : { board: boards[index], index };
+}
@@ -1,4 +1,79 @@
-import type { BoardsAction, BoardsState } from '@/types/types';
+import type { Board, BoardsAction, BoardsState, Task } from '@/types/types';
+import { generateColumnId } from '@/types/types';
+import { findLabel } from '@/utils/boardLabels';
+
+function updateBoardById(
+  state: BoardsState,
+  boardId: string,
+  update: (board: Board) => Board
+): BoardsState {
+  if (!state.boards.some((board) => board.id === boardId)) return state;
+  return {
+    ...state,
+    boards: state.boards.map((board) =>
+      board.id === boardId ? update(board) : board
+    ),
+  };
+}
+
+function updateTaskById(
+  board: Board,
+  taskId: string,
+  update: (task: Task) => Task
+): Board {
+  return {
+    ...board,
+    columns: board.columns.map((column) =>
+      column.tasks.some((task) => task.id === taskId)
+        ? {
+            ...column,
+            tasks: column.tasks.map((task) =>
+              task.id === taskId ? update(task) : task
+            ),
+          }
+        : column
+    ),
+  };
+}
+
+/** Applies `update` to the labels of every task that has `name`. */
+function updateTaskLabels(
+  board: Board,
+  name: string,
+  update: (labels: string[]) => string[]
+): Board {
+  return {
+    ...board,
+    columns: board.columns.map((column) => ({
+      ...column,
+      tasks: column.tasks.map((task) =>
+        task.labels?.includes(name)
+          ? { ...task, labels: update(task.labels) }
+          : task
+      ),
+    })),
+  };
+}
+
+/**
+ * Only the author may edit or delete a comment. Checked here rather than
+ * just in the UI so actions from other tabs and clients obey it too.
+ */
+function isCommentAuthor(
+  state: BoardsState,
+  action: BoardsAction,
+  boardId: string,
+  taskId: string,
+  commentId: string
+): boolean {
+  const board = state.boards.find((b) => b.id === boardId);
+  for (const column of board?.columns ?? []) {
+    const task = column.tasks.find((t) => t.id === taskId);
+    const comment = task?.comments?.find((c) => c.id === commentId);
+    if (comment) return action.meta?.actor?.id === comment.authorId;
+  }
+  return false;
+}
 
 export function boardsReducer(
   state: BoardsState,
@@ -211,7 +286,10 @@ export function boardsReducer(
           index === boardIndex
             ? {
                 ...board,
-                columns: [...board.columns, { name: columnName, tasks: [] }],
+                columns: [
+                  ...board.columns,
+                  { id: generateColumnId(), name: columnName, tasks: [] },
+                ],
               }
             : board
         ),
@@ -222,6 +300,396 @@ export function boardsReducer(
         ...state,
         boards: action.payload.boards,
       };
+    case 'UPDATE_BOARD_BY_ID':
+      return updateBoardById(
+        state,
+        action.payload.boardId,
+        () => action.payload.board
+      );
+    case 'RENAME_BOARD_BY_ID': {
+      const name = action.payload.name.trim();
+      if (!name) return state;
+      return updateBoardById(state, action.payload.boardId, (board) => ({
+        ...board,
+        name,
+      }));
+    }
+    case 'DELETE_BOARD_BY_ID':
+      return {
+        ...state,
+        boards: state.boards.filter(
+          (board) => board.id !== action.payload.boardId
+        ),
+      };
+    case 'ADD_TASK_BY_ID': {
+      const { boardId, columnId, task } = action.payload;
+      return updateBoardById(state, boardId, (board) => ({
+        ...board,
+        columns: board.columns.map((column) =>
+          column.id === columnId
+            ? { ...column, tasks: [...column.tasks, task] }
+            : column
+        ),
+      }));
+    }
+    case 'UPDATE_TASK_BY_ID': {
+      const { boardId, taskId, task } = action.payload;
+      return updateBoardById(state, boardId, (board) =>
+        updateTaskById(board, taskId, () => task)
+      );
+    }
+    case 'PATCH_TASK_BY_ID': {
+      const { boardId, taskId, patch } = action.payload;
+      return updateBoardById(state, boardId, (board) =>
+        updateTaskById(board, taskId, (task) => ({ ...task, ...patch }))
+      );
+    }
+    case 'DELETE_TASK_BY_ID': {
+      const { boardId, taskId } = action.payload;
+      return updateBoardById(state, boardId, (board) => ({
+        ...board,
+        columns: board.columns.map((column) =>
+          column.tasks.some((task) => task.id === taskId)
+            ? {
+                ...column,
+                tasks: column.tasks.filter((task) => task.id !== taskId),
+              }
+            : column
+        ),
+      }));
+    }
+    case 'REORDER_TASK_BY_ID': {
+      const { boardId, columnId, fromIndex, toIndex } = action.payload;
+
+      if (fromIndex === toIndex) return state;
+
+      return updateBoardById(state, boardId, (board) => ({
+        ...board,
+        columns: board.columns.map((column) => {
+          if (column.id !== columnId) return column;
+
+          const tasks = [...column.tasks];
+          if (
+            fromIndex < 0 ||
+            fromIndex >= tasks.length ||
+            toIndex < 0 ||
+            toIndex >= tasks.length
+          ) {
+            return column;
+          }
+
+          const [moved] = tasks.splice(fromIndex, 1);
+          tasks.splice(toIndex, 0, moved);
+
+          return { ...column, tasks };
+        }),
+      }));
+    }
+    case 'MOVE_TASK_BY_ID': {
+      const { boardId, taskId, toColumnId } = action.payload;
+
+      const board = state.boards.find((b) => b.id === boardId);
+      const fromCol = board?.columns.find((c) =>
+        c.tasks.some((t) => t.id === taskId)
+      );
+      const toCol = board?.columns.find((c) => c.id === toColumnId);
+      if (!fromCol || !toCol || fromCol.id === toCol.id) return state;
+
+      const taskToMove = fromCol.tasks.find((t) => t.id === taskId)!;
+
+      return updateBoardById(state, boardId, (board) => ({
+        ...board,
+        columns: board.columns.map((column) => {
+          if (column.id === fromCol.id) {
+            return {
+              ...column,
+              tasks: column.tasks.filter((t) => t.id !== taskId),
+            };
+          }
+          if (column.id === toCol.id) {
+            return {
+              ...column,
+              tasks: [...column.tasks, { ...taskToMove, status: toCol.name }],
+            };
+          }
+          return column;
+        }),
+      }));
+    }
+    case 'MOVE_TASK_TO_INDEX_BY_ID': {
+      const { boardId, taskId, toColumnId, toIndex } = action.payload;
+
+      const board = state.boards.find((b) => b.id === boardId);
+      const fromCol = board?.columns.find((c) =>
+        c.tasks.some((t) => t.id === taskId)
+      );
+      const toCol = board?.columns.find((c) => c.id === toColumnId);
+      if (!fromCol || !toCol) return state;
+
+      const fromIndex = fromCol.tasks.findIndex((t) => t.id === taskId);
+      const remaining = toCol.tasks.filter((t) => t.id !== taskId);
+      const at = Math.min(Math.max(toIndex, 0), remaining.length);
+      if (fromCol.id === toCol.id && fromIndex === at) return state;
+
+      const task = { ...fromCol.tasks[fromIndex], status: toCol.name };
+
+      return updateBoardById(state, boardId, (board) => ({
+        ...board,
+        columns: board.columns.map((column) => {
+          if (column.id === toCol.id) {
+            return {
+              ...column,
+              tasks: [...remaining.slice(0, at), task, ...remaining.slice(at)],
+            };
+          }
+          if (column.id === fromCol.id) {
+            return {
+              ...column,
+              tasks: column.tasks.filter((t) => t.id !== taskId),
+            };
+          }
+          return column;
+        }),
+      }));
+    }
+    case 'TOGGLE_SUBTASK_BY_ID': {
+      const { boardId, taskId, subtaskIndex } = action.payload;
+      return updateBoardById(state, boardId, (board) =>
+        updateTaskById(board, taskId, (task) => ({
+          ...task,
+          subtasks: task.subtasks?.map((subtask, index) =>
+            index === subtaskIndex
+              ? { ...subtask, isCompleted: !subtask.isCompleted }
+              : subtask
+          ),
+        }))
+      );
+    }
+    case 'ADD_COLUMN_BY_ID': {
+      const { boardId, column } = action.payload;
+
+      if (!column.name.trim()) return state;
+
+      return updateBoardById(state, boardId, (board) => ({
+        ...board,
+        columns: [...board.columns, column],
+      }));
+    }
+    case 'RENAME_COLUMN_BY_ID': {
+      const { boardId, columnId } = action.payload;
+      const name = action.payload.name.trim();
+
+      if (!name) return state;
+
+      return updateBoardById(state, boardId, (board) => ({
+        ...board,
+        columns: board.columns.map((column) =>
+          column.id === columnId
+            ? {
+                ...column,
+                name,
+                tasks: column.tasks.map((task) => ({ ...task, status: name })),
+              }
+            : column
+        ),
+      }));
+    }
+    case 'REORDER_COLUMN_BY_ID': {
+      const { boardId, fromIndex, toIndex } = action.payload;
+
+      if (fromIndex === toIndex) return state;
+
+      return updateBoardById(state, boardId, (board) => {
+        const columns = [...board.columns];
+        if (
+          fromIndex < 0 ||
+          fromIndex >= columns.length ||
+          toIndex < 0 ||
+          toIndex >= columns.length
+        ) {
+          return board;
+        }
+
+        const [moved] = columns.splice(fromIndex, 1);
+        columns.splice(toIndex, 0, moved);
+
+        return { ...board, columns };
+      });
+    }
+    case 'DELETE_COLUMN_BY_ID': {
+      const { boardId, columnId, moveTasksTo } = action.payload;
+
+      const board = state.boards.find((b) => b.id === boardId);
+      const deleted = board?.columns.find((c) => c.id === columnId);
+      const target = board?.columns.find((c) => c.id === moveTasksTo);
+      if (!deleted || target?.id === columnId) return state;
+      // A destination that is gone (a stale or replayed action) must not
+      // turn a move into deleting the tasks.
+      if (moveTasksTo !== undefined && !target) return state;
+
+      return updateBoardById(state, boardId, (board) => ({
+        ...board,
+        columns: board.columns
+          .filter((column) => column.id !== columnId)
+          .map((column) =>
+            column.id === target?.id
+              ? {
+                  ...column,
+                  tasks: [
+                    ...column.tasks,
+                    ...deleted.tasks.map((task) => ({
+                      ...task,
+                      status: column.name,
+                    })),
+                  ],
+                }
+              : column
+          ),
+      }));
+    }
+    case 'ADD_LABEL_BY_ID': {
+      const { boardId } = action.payload;
+      const label = { ...action.payload.label };
+      label.name = label.name.trim();
+
+      const board = state.boards.find((b) => b.id === boardId);
+      if (!label.name || findLabel(board?.labels, label.name)) return state;
+
+      return updateBoardById(state, boardId, (board) => ({
+        ...board,
+        labels: [...(board.labels ?? []), label],
+      }));
+    }
+    case 'UPDATE_LABEL_BY_ID': {
+      const { boardId, name } = action.payload;
+      const label = { ...action.payload.label };
+      label.name = label.name.trim();
+
+      const board = state.boards.find((b) => b.id === boardId);
+      const existing = findLabel(board?.labels, label.name);
+      if (
+        !label.name ||
+        !board?.labels?.some((l) => l.name === name) ||
+        (existing && existing.name !== name)
+      ) {
+        return state;
+      }
+
+      return updateBoardById(state, boardId, (board) => {
+        const labels = board.labels?.map((l) => (l.name === name ? label : l));
+        const renamed =
+          label.name === name
+            ? board
+            : updateTaskLabels(board, name, (names) =>
+                names.map((n) => (n === name ? label.name : n))
+              );
+        return { ...renamed, labels };
+      });
+    }
+    case 'DELETE_LABEL_BY_ID': {
+      const { boardId, name } = action.payload;
+
+      const board = state.boards.find((b) => b.id === boardId);
+      if (!board?.labels?.some((l) => l.name === name)) return state;
+
+      return updateBoardById(state, boardId, (board) => ({
+        ...updateTaskLabels(board, name, (names) =>
+          names.filter((n) => n !== name)
+        ),
+        labels: board.labels?.filter((l) => l.name !== name),
+      }));
+    }
+    case 'ADD_COMMENT_BY_ID': {
+      const { boardId, taskId, comment } = action.payload;
+      if (!comment.body.trim()) return state;
+      return updateBoardById(state, boardId, (board) =>
+        updateTaskById(board, taskId, (task) => ({
+          ...task,
+          comments: [...(task.comments ?? []), comment],
+        }))
+      );
+    }
+    case 'UPDATE_COMMENT_BY_ID': {
+      const { boardId, taskId, commentId, body, editedAt } = action.payload;
+      if (!body.trim()) return state;
+      if (!isCommentAuthor(state, action, boardId, taskId, commentId)) {
+        return state;
+      }
+      return updateBoardById(state, boardId, (board) =>
+        updateTaskById(board, taskId, (task) => ({
+          ...task,
+          comments: task.comments?.map((comment) =>
+            comment.id === commentId ? { ...comment, body, editedAt } : comment
+          ),
+        }))
+      );
+    }
+    case 'DELETE_COMMENT_BY_ID': {
+      const { boardId, taskId, commentId } = action.payload;
+      if (!isCommentAuthor(state, action, boardId, taskId, commentId)) {
+        return state;
+      }
+      return updateBoardById(state, boardId, (board) =>
+        updateTaskById(board, taskId, (task) => ({
+          ...task,
+          comments: task.comments?.filter((c) => c.id !== commentId),
+        }))
+      );
+    }
+    case 'RESTORE_BOARD': {
+      const { index, board } = action.payload;
+      if (state.boards.some((b) => b.id === board.id)) return state;
+
+      const boards = [...state.boards];
+      boards.splice(Math.min(Math.max(index, 0), boards.length), 0, board);
+      return { ...state, boards };
+    }
+    case 'RESTORE_TASK': {
+      const { boardId, columnId, index, task } = action.payload;
+
+      const board = state.boards.find((b) => b.id === boardId);
+      const exists = board?.columns.some((c) =>
+        c.tasks.some((t) => t.id === task.id)
+      );
+      if (!board || exists) return state;
+
+      return updateBoardById(state, boardId, (board) => ({
+        ...board,
+        columns: board.columns.map((column) => {
+          if (column.id !== columnId) return column;
+
+          const tasks = [...column.tasks];
+          tasks.splice(Math.min(Math.max(index, 0), tasks.length), 0, {
+            ...task,
+            status: column.name,
+          });
+          return { ...column, tasks };
+        }),
+      }));
+    }
+    case 'RESTORE_COMMENT': {
+      const { boardId, taskId, index, comment } = action.payload;
+
+      const task = state.boards
+        .find((b) => b.id === boardId)
+        ?.columns.flatMap((c) => c.tasks)
+        .find((t) => t.id === taskId);
+      if (!task || task.comments?.some((c) => c.id === comment.id)) {
+        return state;
+      }
+
+      return updateBoardById(state, boardId, (board) =>
+        updateTaskById(board, taskId, (task) => {
+          const comments = [...(task.comments ?? [])];
+          comments.splice(
+            Math.min(Math.max(index, 0), comments.length),
+            0,
+            comment
+          );
+          return { ...task, comments };
+        })
+      );
+    }
     default:
       return state;
   }
@@ -0,0 +1,267 @@
+import type { BoardLabel, BoardsData, RawBoard } from '@/types/types';
+import { ensureIds } from '@/services/boards';
+import { findLabel, getLabelColor } from '@/utils/boardLabels';
+import { isDueDate, isTaskPriority, normalizeLabels } from '@/utils/taskFields';
+
+/**
+ * Version of the persisted boards shape. Bump it together with a new entry in
+ * `migrations` whenever a change would break data saved by older builds.
+ */
+export const BOARDS_SCHEMA_VERSION = 3;
+
+export type PersistedBoards = {
+  version: number;
+  savedAt: string;
+  data: BoardsData;
+};
+
+type Migration = (data: unknown) => unknown;
+
+// migrations[n] upgrades data saved at version n to version n + 1.
+const migrations: Record<number, Migration> = {
+  // v0: the unversioned `{ boards }` snapshot, written before boards and
+  // columns had ids.
+  0: (data) => {
+    const boards = (data as { boards?: unknown }).boards;
+    if (!Array.isArray(boards)) {
+      throw new Error('Expected a boards array');
+    }
+    return { boards: ensureIds(boards as RawBoard[]) };
+  },
+  // v1: tasks gained optional priority, dueDate and labels. Older data has
+  // none, but hand-edited or imported files may carry loose variants of them
+  // ("High", a full timestamp, a comma-separated string), so tidy those up
+  // and drop anything that cannot be read.
+  1: (data) => {
+    const { boards } = data as { boards: Record<string, unknown>[] };
+    return {
+      boards: boards.map((board) => ({
+        ...board,
+        columns: (board.columns as Record<string, unknown>[]).map((column) => ({
+          ...column,
+          tasks: (column.tasks as Record<string, unknown>[]).map(
+            migrateTaskFields
+          ),
+        })),
+      })),
+    };
+  },
+  // v2: boards gained a label catalog. Build it from the labels their tasks
+  // already use, and spell each task label the way the catalog does.
+  2: (data) => {
+    const { boards } = data as BoardsData;
+    return {
+      boards: boards.map((board) => {
+        const labels: BoardLabel[] = [];
+        for (const column of board.columns) {
+          for (const task of column.tasks) {
+            for (const name of task.labels ?? []) {
+              if (findLabel(labels, name)) continue;
+              labels.push({ name, color: getLabelColor(labels.length) });
+            }
+          }
+        }
+        return {
+          ...board,
+          ...(labels.length > 0 && { labels }),
+          columns: board.columns.map((column) => ({
+            ...column,
+            tasks: column.tasks.map((task) =>
+              task.labels
+                ? {
+                    ...task,
+                    labels: normalizeLabels(
+                      task.labels.map((n) => findLabel(labels, n)!.name)
+                    ),
+                  }
+                : task
+            ),
+          })),
+        };
+      }),
+    };
+  },
+};
+
+function migrateTaskFields(task: Record<string, unknown>) {
+  const { priority, dueDate, labels, ...rest } = task;
+
+  const nextPriority =
+    typeof priority === 'string' ? priority.trim().toLowerCase() : priority;
+  const nextDueDate =
+    typeof dueDate === 'string' ? dueDate.trim().slice(0, 10) : dueDate;
+  const nextLabels =
+    typeof labels === 'string'
+      ? labels.split(',')
+      : Array.isArray(labels)
+        ? labels.filter((label) => typeof label === 'string')
+        : [];
+
+  return {
+    ...rest,
+    ...(isTaskPriority(nextPriority) && { priority: nextPriority }),
+    ...(isDueDate(nextDueDate) && { dueDate: nextDueDate }),
+    ...(nextLabels.length > 0 && { labels: normalizeLabels(nextLabels) }),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === 'string';
+}
+
+/** Returns a description of the first problem found, or null if valid. */
+export function validateBoardsData(value: unknown): string | null {
+  if (!isRecord(value) || !Array.isArray(value.boards)) {
+    return 'boards must be an array';
+  }
+
+  for (const [b, board] of value.boards.entries()) {
+    if (!isRecord(board)) return `boards[${b}] must be an object`;
+    if (typeof board.id !== 'string') return `boards[${b}].id is missing`;
+    if (typeof board.name !== 'string') return `boards[${b}].name is missing`;
+    if (!Array.isArray(board.columns)) {
+      return `boards[${b}].columns must be an array`;
+    }
+    if (board.labels !== undefined) {
+      if (!Array.isArray(board.labels)) {
+        return `boards[${b}].labels must be an array`;
+      }
+      const invalid = board.labels.findIndex(
+        (l) =>
+          !isRecord(l) ||
+          typeof l.name !== 'string' ||
+          typeof l.color !== 'string'
+      );
+      if (invalid !== -1) return `boards[${b}].labels[${invalid}] is invalid`;
+    }
+
+    for (const [c, column] of board.columns.entries()) {
+      const path = `boards[${b}].columns[${c}]`;
+      if (!isRecord(column)) return `${path} must be an object`;
+      if (typeof column.id !== 'string') return `${path}.id is missing`;
+      if (typeof column.name !== 'string') return `${path}.name is missing`;
+      if (!Array.isArray(column.tasks)) return `${path}.tasks must be an array`;
+
+      for (const [t, task] of column.tasks.entries()) {
+        const taskPath = `${path}.tasks[${t}]`;
+        if (!isRecord(task)) return `${taskPath} must be an object`;
+        if (typeof task.id !== 'string') return `${taskPath}.id is missing`;
+        if (typeof task.title !== 'string') {
+          return `${taskPath}.title is missing`;
+        }
+        if (!isOptionalString(task.description)) {
+          return `${taskPath}.description must be a string`;
+        }
+        if (!isOptionalString(task.status)) {
+          return `${taskPath}.status must be a string`;
+        }
+        if (task.priority !== undefined && !isTaskPriority(task.priority)) {
+          return `${taskPath}.priority is invalid`;
+        }
+        if (task.dueDate !== undefined && !isDueDate(task.dueDate)) {
+          return `${taskPath}.dueDate must be a YYYY-MM-DD date`;
+        }
+        if (
+          task.labels !== undefined &&
+          (!Array.isArray(task.labels) ||
+            task.labels.some((label) => typeof label !== 'string'))
+        ) {
+          return `${taskPath}.labels must be an array of strings`;
+        }
+        if (
+          task.assigneeIds !== undefined &&
+          (!Array.isArray(task.assigneeIds) ||
+            task.assigneeIds.some((id) => typeof id !== 'string'))
+        ) {
+          return `${taskPath}.assigneeIds must be an array of strings`;
+        }
+        if (task.comments !== undefined) {
+          if (!Array.isArray(task.comments)) {
+            return `${taskPath}.comments must be an array`;
+          }
+          const invalid = task.comments.findIndex(
+            (comment) =>
+              !isRecord(comment) ||
+              typeof comment.id !== 'string' ||
+              typeof comment.authorId !== 'string' ||
+              typeof comment.authorName !== 'string' ||
+              typeof comment.body !== 'string' ||
+              typeof comment.createdAt !== 'string' ||
+              !isOptionalString(comment.editedAt)
+          );
+          if (invalid !== -1) {
+            return `${taskPath}.comments[${invalid}] is invalid`;
+          }
+        }
+        if (task.subtasks !== undefined) {
+          if (!Array.isArray(task.subtasks)) {
+            return `${taskPath}.subtasks must be an array`;
+          }
+          const invalid = task.subtasks.findIndex(
+            (s) =>
+              !isRecord(s) ||
+              typeof s.title !== 'string' ||
+              typeof s.isCompleted !== 'boolean'
+          );
+          if (invalid !== -1) {
+            return `${taskPath}.subtasks[${invalid}] is invalid`;
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+export function createBoardsEnvelope(data: BoardsData): PersistedBoards {
+  return {
+    version: BOARDS_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    data,
+  };
+}
+
+/**
+ * Upgrades a parsed snapshot (versioned envelope or legacy raw data) to the
+ * current schema step by step, then validates it. Throws if the data cannot
+ * be migrated.
+ */
+export function migrateBoardsData(persisted: unknown): BoardsData {
+  let version: number;
+  let data: unknown;
+
+  if (
+    isRecord(persisted) &&
+    typeof persisted.version === 'number' &&
+    'data' in persisted
+  ) {
+    version = persisted.version;
+    data = persisted.data;
+  } else {
+    version = 0;
+    data = persisted;
+  }
+
+  if (version > BOARDS_SCHEMA_VERSION) {
+    throw new Error(
+      `Saved boards use schema v${version}, newer than supported v${BOARDS_SCHEMA_VERSION}`
+    );
+  }
+
+  while (version < BOARDS_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`No migration from schema v${version}`);
+    data = migrate(data);
+    version += 1;
+  }
+
+  const problem = validateBoardsData(data);
+  if (problem) throw new Error(`Invalid saved boards: ${problem}`);
+
+  return data as BoardsData;
+}
@@ -0,0 +1,28 @@
+import { getBoards, setBoards } from '@/utils/localStorage';
+import { createIndexedDbBoardsStorage } from '@/utils/indexedDbBoardsStorage';
+import {
+  createDebouncedSave,
+  type BoardsStorage,
+  type BoardsStorageOptions,
+} from '@/utils/storageAdapter';
+
+export function createLocalStorageBoardsStorage(
+  options: BoardsStorageOptions = {}
+): BoardsStorage {
+  return {
+    load: () => Promise.resolve(getBoards()),
+    ...createDebouncedSave((boards) => {
+      setBoards({ boards });
+      return Promise.resolve();
+    }, options),
+  };
+}
+
+/** Prefers IndexedDB and falls back to localStorage where it is missing. */
+export function createBoardsStorage(
+  options: BoardsStorageOptions = {}
+): BoardsStorage {
+  return typeof indexedDB !== 'undefined'
+    ? createIndexedDbBoardsStorage(options)
+    : createLocalStorageBoardsStorage(options);
+}
@@ -0,0 +1,15 @@
+/** Saves `content` as a file through the browser's download prompt. */
+export function downloadFile(
+  filename: string,
+  content: string,
+  mimeType: string
+) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,115 @@
+import type { BoardsAction } from '@/types/types';
+
+export const HISTORY_LIMIT = 50;
+export const HISTORY_GROUP_WINDOW_MS = 1000;
+
+/**
+ * The actions that replay one undo or redo step, in order. Steps hold
+ * targeted actions rather than snapshots, so undoing only reverts what the
+ * step changed and leaves edits made since, here or elsewhere, alone.
+ */
+export type HistoryStep = BoardsAction[];
+
+export type BoardsHistory = {
+  past: HistoryStep[];
+  future: HistoryStep[];
+  lastGroupKey: string | null;
+  lastRecordedAt: number;
+};
+
+export function createHistory(): BoardsHistory {
+  return { past: [], future: [], lastGroupKey: null, lastRecordedAt: 0 };
+}
+
+/**
+ * Actions that tend to arrive in quick bursts (a drag can reorder and move
+ * the same task several times) share a group key so they undo as one step.
+ */
+export function getHistoryGroupKey(action: BoardsAction): string | null {
+  switch (action.type) {
+    case 'REORDER_TASK':
+    case 'MOVE_TASK':
+      return `move:${action.payload.boardIndex}`;
+    case 'REORDER_TASK_BY_ID':
+    case 'MOVE_TASK_BY_ID':
+    case 'MOVE_TASK_TO_INDEX_BY_ID':
+      return `move:${action.payload.boardId}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Records a change as an undo step: `revert` holds the actions that undo it.
+ * A change that joins the current group is undone first, along with the
+ * rest of the group.
+ */
+export function recordHistory(
+  history: BoardsHistory,
+  revert: HistoryStep,
+  groupKey: string | null,
+  now: number
+): BoardsHistory {
+  const joinsGroup =
+    groupKey !== null &&
+    groupKey === history.lastGroupKey &&
+    now - history.lastRecordedAt <= HISTORY_GROUP_WINDOW_MS &&
+    history.past.length > 0;
+
+  if (joinsGroup) {
+    return {
+      ...history,
+      past: [
+        ...history.past.slice(0, -1),
+        [...revert, ...history.past.at(-1)!],
+      ],
+      future: [],
+      lastRecordedAt: now,
+    };
+  }
+
+  return {
+    past: [...history.past, revert].slice(-HISTORY_LIMIT),
+    future: [],
+    lastGroupKey: groupKey,
+    lastRecordedAt: now,
+  };
+}
+
+/**
+ * Takes the last undo step off the history once it has been replayed;
+ * `redo` holds the actions that make the change again.
+ */
+export function undoHistory(
+  history: BoardsHistory,
+  redo: HistoryStep
+): BoardsHistory {
+  return {
+    past: history.past.slice(0, -1),
+    future:
+      redo.length > 0
+        ? [redo, ...history.future].slice(0, HISTORY_LIMIT)
+        : history.future,
+    lastGroupKey: null,
+    lastRecordedAt: 0,
+  };
+}
+
+/**
+ * Takes the first redo step off the history once it has been replayed;
+ * `revert` holds the actions that undo it again.
+ */
+export function redoHistory(
+  history: BoardsHistory,
+  revert: HistoryStep
+): BoardsHistory {
+  return {
+    past:
+      revert.length > 0
+        ? [...history.past, revert].slice(-HISTORY_LIMIT)
+        : history.past,
+    future: history.future.slice(1),
+    lastGroupKey: null,
+    lastRecordedAt: 0,
+  };
+}
@@ -0,0 +1,162 @@
+import type { Board, BoardsData } from '@/types/types';
+import { BOARDS_SCHEMA_VERSION, migrateBoardsData } from '@/utils/boardsSchema';
+import { clearBoards, getBoards } from '@/utils/localStorage';
+import {
+  StorageQuotaError,
+  createDebouncedSave,
+  isQuotaExceededError,
+  type BoardsStorage,
+  type BoardsStorageOptions,
+} from '@/utils/storageAdapter';
+
+const DB_NAME = 'kanban';
+const DB_VERSION = 1;
+const BOARDS_STORE = 'boards';
+const META_STORE = 'meta';
+const BACKUPS_STORE = 'backups';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+type BoardRecord = { id: string; order: number; board: Board };
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(BOARDS_STORE, { keyPath: 'id' });
+      db.createObjectStore(META_STORE);
+      db.createObjectStore(BACKUPS_STORE, { autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('open failed'));
+  });
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('transaction aborted'));
+  });
+}
+
+/**
+ * Stores each board as its own record so a change only rewrites the boards
+ * that actually changed, instead of serializing the whole workspace.
+ */
+export function createIndexedDbBoardsStorage(
+  options: BoardsStorageOptions = {}
+): BoardsStorage {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => (dbPromise ??= openDatabase());
+
+  // What is currently on disk, keyed by board id.
+  let saved = new Map<string, { board: Board; order: number }>();
+  let importedFromLocalStorage = false;
+
+  async function load(): Promise<BoardsData | undefined> {
+    const db = await getDb();
+    const tx = db.transaction([BOARDS_STORE, META_STORE], 'readonly');
+    const [records, version] = await Promise.all([
+      requestResult(
+        tx.objectStore(BOARDS_STORE).getAll() as IDBRequest<BoardRecord[]>
+      ),
+      requestResult(
+        tx.objectStore(META_STORE).get(SCHEMA_VERSION_KEY) as IDBRequest<
+          number | undefined
+        >
+      ),
+    ]);
+
+    if (version === undefined) {
+      // First run with IndexedDB: carry over the localStorage snapshot.
+      const legacy = getBoards();
+      importedFromLocalStorage = legacy !== undefined;
+      return legacy;
+    }
+
+    const boards = records
+      .sort((a, b) => a.order - b.order)
+      .map((record) => record.board);
+
+    try {
+      const data = migrateBoardsData({
+        version,
+        savedAt: '',
+        data: { boards },
+      });
+      // Migrated boards differ from what is on disk, so rewrite them all.
+      if (version === BOARDS_SCHEMA_VERSION) {
+        saved = new Map(
+          data.boards.map((board, order) => [board.id, { board, order }])
+        );
+      }
+      return data;
+    } catch (error) {
+      console.error(
+        'Stored boards could not be loaded, moving them aside:',
+        error
+      );
+      await quarantine(db, version, boards);
+      return undefined;
+    }
+  }
+
+  async function quarantine(db: IDBDatabase, version: number, boards: Board[]) {
+    const tx = db.transaction(
+      [BOARDS_STORE, META_STORE, BACKUPS_STORE],
+      'readwrite'
+    );
+    tx.objectStore(BACKUPS_STORE).add({
+      backedUpAt: new Date().toISOString(),
+      version,
+      boards,
+    });
+    tx.objectStore(BOARDS_STORE).clear();
+    tx.objectStore(META_STORE).delete(SCHEMA_VERSION_KEY);
+    await transactionDone(tx);
+  }
+
+  async function write(boards: Board[]) {
+    const db = await getDb();
+    const tx = db.transaction([BOARDS_STORE, META_STORE], 'readwrite');
+    const store = tx.objectStore(BOARDS_STORE);
+
+    const next = new Map<string, { board: Board; order: number }>();
+    boards.forEach((board, order) => {
+      next.set(board.id, { board, order });
+      const previous = saved.get(board.id);
+      if (previous?.board !== board || previous.order !== order) {
+        const record: BoardRecord = { id: board.id, order, board };
+        store.put(record);
+      }
+    });
+    saved.forEach((_, id) => {
+      if (!next.has(id)) store.delete(id);
+    });
+    tx.objectStore(META_STORE).put(BOARDS_SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+
+    try {
+      await transactionDone(tx);
+    } catch (error) {
+      if (isQuotaExceededError(error)) throw new StorageQuotaError();
+      throw error;
+    }
+    saved = next;
+
+    if (importedFromLocalStorage) {
+      importedFromLocalStorage = false;
+      clearBoards();
+    }
+  }
+
+  return { load, ...createDebouncedSave(write, options) };
+}
@@ -0,0 +1,304 @@
+import type {
+  Board,
+  BoardsAction,
+  BoardsState,
+  Column,
+  Task,
+} from '@/types/types';
+import { findLabel } from '@/utils/boardLabels';
+
+/** Where a task sits on its board, if it exists. */
+function locateTask(
+  state: BoardsState,
+  boardId: string,
+  taskId: string
+): { column: Column; index: number; task: Task } | null {
+  const board = state.boards.find((b) => b.id === boardId);
+  for (const column of board?.columns ?? []) {
+    const index = column.tasks.findIndex((t) => t.id === taskId);
+    if (index !== -1) return { column, index, task: column.tasks[index] };
+  }
+  return null;
+}
+
+/** Task fields an edit can change, besides its column and its comments. */
+const EDITABLE_TASK_FIELDS = [
+  'title',
+  'description',
+  'subtasks',
+  'priority',
+  'dueDate',
+  'labels',
+  'assigneeIds',
+] as const;
+
+/**
+ * The previous values of the fields that differ between `before` and
+ * `after`, so undoing an edit keeps whatever else changed since.
+ */
+function getTaskRevert(
+  before: Task,
+  after: Task
+): Partial<Pick<Task, (typeof EDITABLE_TASK_FIELDS)[number]>> {
+  const revert: Partial<Pick<Task, (typeof EDITABLE_TASK_FIELDS)[number]>> = {};
+  for (const field of EDITABLE_TASK_FIELDS) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      Object.assign(revert, { [field]: before[field] });
+    }
+  }
+  return revert;
+}
+
+/**
+ * Returns an action that reverts `action` when applied after it, computed
+ * from the state *before* `action` ran. The inverse only touches what
+ * `action` changed, so later, unrelated changes are left alone: deletions
+ * restore the entity at its original position, edits put back the previous
+ * value of each task field, column, label or comment they changed. Only
+ * deleting a column or a label and replacing a whole board fall back to
+ * restoring the previous board.
+ */
+export function getInverseAction(
+  state: BoardsState,
+  action: BoardsAction
+): BoardsAction | null {
+  switch (action.type) {
+    case 'ADD_BOARD':
+      return {
+        type: 'DELETE_BOARD_BY_ID',
+        payload: { boardId: action.payload.id },
+      };
+    case 'DELETE_BOARD_BY_ID': {
+      const index = state.boards.findIndex(
+        (b) => b.id === action.payload.boardId
+      );
+      if (index === -1) return null;
+      return {
+        type: 'RESTORE_BOARD',
+        payload: { index, board: state.boards[index] },
+      };
+    }
+    case 'RENAME_BOARD_BY_ID': {
+      const board = state.boards.find((b) => b.id === action.payload.boardId);
+      if (!board) return null;
+      return {
+        type: 'RENAME_BOARD_BY_ID',
+        payload: { boardId: board.id, name: board.name },
+      };
+    }
+    case 'ADD_TASK_BY_ID':
+      return {
+        type: 'DELETE_TASK_BY_ID',
+        payload: {
+          boardId: action.payload.boardId,
+          taskId: action.payload.task.id,
+        },
+      };
+    case 'DELETE_TASK_BY_ID': {
+      const { boardId, taskId } = action.payload;
+      const found = locateTask(state, boardId, taskId);
+      if (!found) return null;
+      return {
+        type: 'RESTORE_TASK',
+        payload: {
+          boardId,
+          columnId: found.column.id,
+          index: found.index,
+          task: found.task,
+        },
+      };
+    }
+    case 'RESTORE_TASK':
+      return {
+        type: 'DELETE_TASK_BY_ID',
+        payload: {
+          boardId: action.payload.boardId,
+          taskId: action.payload.task.id,
+        },
+      };
+    case 'UPDATE_TASK_BY_ID':
+    case 'PATCH_TASK_BY_ID': {
+      const { boardId, taskId } = action.payload;
+      const found = locateTask(state, boardId, taskId);
+      if (!found) return null;
+      const edited =
+        action.type === 'PATCH_TASK_BY_ID'
+          ? { ...found.task, ...action.payload.patch }
+          : action.payload.task;
+      return {
+        type: 'PATCH_TASK_BY_ID',
+        payload: { boardId, taskId, patch: getTaskRevert(found.task, edited) },
+      };
+    }
+    case 'TOGGLE_SUBTASK_BY_ID':
+      return { type: action.type, payload: action.payload };
+    case 'REORDER_TASK_BY_ID': {
+      const { fromIndex, toIndex } = action.payload;
+      return {
+        type: 'REORDER_TASK_BY_ID',
+        payload: { ...action.payload, fromIndex: toIndex, toIndex: fromIndex },
+      };
+    }
+    case 'REORDER_COLUMN_BY_ID': {
+      const { fromIndex, toIndex } = action.payload;
+      return {
+        type: 'REORDER_COLUMN_BY_ID',
+        payload: { ...action.payload, fromIndex: toIndex, toIndex: fromIndex },
+      };
+    }
+    case 'MOVE_TASK_BY_ID':
+    case 'MOVE_TASK_TO_INDEX_BY_ID': {
+      const { boardId, taskId } = action.payload;
+      const found = locateTask(state, boardId, taskId);
+      if (!found) return null;
+      return {
+        type: 'MOVE_TASK_TO_INDEX_BY_ID',
+        payload: {
+          boardId,
+          taskId,
+          toColumnId: found.column.id,
+          toIndex: found.index,
+        },
+      };
+    }
+    case 'ADD_COLUMN_BY_ID':
+      return {
+        type: 'DELETE_COLUMN_BY_ID',
+        payload: {
+          boardId: action.payload.boardId,
+          columnId: action.payload.column.id,
+        },
+      };
+    case 'RENAME_COLUMN_BY_ID': {
+      const { boardId, columnId } = action.payload;
+      const column = state.boards
+        .find((b) => b.id === boardId)
+        ?.columns.find((c) => c.id === columnId);
+      if (!column) return null;
+      return {
+        type: 'RENAME_COLUMN_BY_ID',
+        payload: { boardId, columnId, name: column.name },
+      };
+    }
+    case 'ADD_LABEL_BY_ID': {
+      const { boardId, label } = action.payload;
+      const board = state.boards.find((b) => b.id === boardId);
+      // Adding a name the board already has changed nothing to revert.
+      if (!board || findLabel(board.labels, label.name)) return null;
+      return {
+        type: 'DELETE_LABEL_BY_ID',
+        payload: { boardId, name: label.name.trim() },
+      };
+    }
+    case 'UPDATE_LABEL_BY_ID': {
+      const { boardId, name, label } = action.payload;
+      const previous = state.boards
+        .find((b) => b.id === boardId)
+        ?.labels?.find((l) => l.name === name);
+      if (!previous) return null;
+      return {
+        type: 'UPDATE_LABEL_BY_ID',
+        payload: { boardId, name: label.name.trim(), label: previous },
+      };
+    }
+    case 'ADD_COMMENT_BY_ID': {
+      const { boardId, taskId, comment } = action.payload;
+      return {
+        type: 'DELETE_COMMENT_BY_ID',
+        payload: { boardId, taskId, commentId: comment.id },
+      };
+    }
+    case 'UPDATE_COMMENT_BY_ID':
+    case 'DELETE_COMMENT_BY_ID': {
+      const { boardId, taskId, commentId } = action.payload;
+      const comments = locateTask(state, boardId, taskId)?.task.comments ?? [];
+      const index = comments.findIndex((c) => c.id === commentId);
+      if (index === -1) return null;
+      const comment = comments[index];
+      if (action.type === 'DELETE_COMMENT_BY_ID') {
+        return {
+          type: 'RESTORE_COMMENT',
+          payload: { boardId, taskId, index, comment },
+        };
+      }
+      return {
+        type: 'UPDATE_COMMENT_BY_ID',
+        payload: {
+          boardId,
+          taskId,
+          commentId,
+          body: comment.body,
+          editedAt: comment.editedAt,
+        },
+      };
+    }
+    case 'RESTORE_COMMENT': {
+      const { boardId, taskId, comment } = action.payload;
+      return {
+        type: 'DELETE_COMMENT_BY_ID',
+        payload: { boardId, taskId, commentId: comment.id },
+      };
+    }
+    case 'UPDATE_BOARD_BY_ID':
+    case 'DELETE_COLUMN_BY_ID':
+    case 'DELETE_LABEL_BY_ID': {
+      const board = state.boards.find((b) => b.id === action.payload.boardId);
+      if (!board) return null;
+      return {
+        type: 'UPDATE_BOARD_BY_ID',
+        payload: { boardId: board.id, board },
+      };
+    }
+    case 'RESTORE_BOARD':
+      return {
+        type: 'DELETE_BOARD_BY_ID',
+        payload: { boardId: action.payload.board.id },
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Actions that turn `nextBoards` back into `previousBoards` one board at a
+ * time, for changes without a targeted inverse such as replacing every
+ * board. Boards the change left alone are not touched.
+ */
+export function getBoardRestoreActions(
+  previousBoards: Board[],
+  nextBoards: Board[]
+): BoardsAction[] {
+  const previousIds = new Set(previousBoards.map((b) => b.id));
+  const nextById = new Map(nextBoards.map((b) => [b.id, b]));
+  const actions: BoardsAction[] = nextBoards
+    .filter((board) => !previousIds.has(board.id))
+    .map((board) => ({
+      type: 'DELETE_BOARD_BY_ID',
+      payload: { boardId: board.id },
+    }));
+  previousBoards.forEach((board, index) => {
+    const next = nextById.get(board.id);
+    if (!next) {
+      actions.push({ type: 'RESTORE_BOARD', payload: { index, board } });
+    } else if (next !== board) {
+      actions.push({
+        type: 'UPDATE_BOARD_BY_ID',
+        payload: { boardId: board.id, board },
+      });
+    }
+  });
+  return actions;
+}
+
+/**
+ * The actions that revert `action`, given the state before it and the
+ * boards after it: its inverse when it has one, or else the changed boards.
+ */
+export function getRevertActions(
+  state: BoardsState,
+  action: BoardsAction,
+  nextBoards: Board[]
+): BoardsAction[] {
+  const inverse = getInverseAction(state, action);
+  return inverse ? [inverse] : getBoardRestoreActions(state.boards, nextBoards);
+}
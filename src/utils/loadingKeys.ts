@@ -0,0 +1,10 @@
+/**
+ * Loading keys with this prefix track work that runs in the background, such
+ * as saving to the server. They drive small inline indicators instead of the
+ * blocking `LoadingOverlay`.
+ */
+export const BACKGROUND_LOADING_PREFIX = 'sync:';
+
+export function isBackgroundLoadingKey(key: string): boolean {
+  return key.startsWith(BACKGROUND_LOADING_PREFIX);
+}
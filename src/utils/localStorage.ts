@@ -1,8 +1,35 @@
-import type { Auth, BoardsData } from '@/types/types';
+import type {
+  AuditLogEntry,
+  Auth,
+  BoardsData,
+  Member,
+  TaskActivityEntry,
+} from '@/types/types';
+import type { OutboxEntry } from '@/services/actionRequests';
+import { createBoardsEnvelope, migrateBoardsData } from '@/utils/boardsSchema';
+import {
+  StorageQuotaError,
+  isQuotaExceededError,
+} from '@/utils/storageAdapter';
 
 const AUTH = 'user_auth';
 const THEME = 'app_theme';
 const BOARDS = 'kanban_boards';
+const BOARDS_BACKUP_PREFIX = 'kanban_boards_backup_';
+const OUTBOX = 'kanban_outbox';
+const MEMBERS = 'workspace_members';
+const TASK_ACTIVITY = 'kanban_task_activity';
+const AUDIT_LOG = 'kanban_audit_log';
+
+/** Keys other tabs may change; see the `storage` event. */
+export const STORAGE_KEYS = {
+  auth: AUTH,
+  theme: THEME,
+  members: MEMBERS,
+  taskActivity: TASK_ACTIVITY,
+  auditLog: AUDIT_LOG,
+  outbox: OUTBOX,
+};
 
 const THEMES = ['light', 'dark'] as const;
 export type StoredTheme = (typeof THEMES)[number];
@@ -47,19 +74,151 @@ export function setTheme(theme: StoredTheme) {
 }
 
 export function getBoards(): BoardsData | undefined {
+  let raw: string | null;
   try {
-    const raw = localStorage.getItem(BOARDS);
-    return raw ? (JSON.parse(raw) as BoardsData) : undefined;
+    raw = localStorage.getItem(BOARDS);
   } catch (error) {
     console.error('Error getting boards from localStorage:', error);
     return undefined;
   }
+  if (!raw) return undefined;
+
+  try {
+    return migrateBoardsData(JSON.parse(raw));
+  } catch (error) {
+    console.error(
+      'Stored boards could not be loaded, moving them aside:',
+      error
+    );
+    quarantineBoards(raw);
+    return undefined;
+  }
 }
 
+/** Throws a `StorageQuotaError` when the snapshot does not fit. */
 export function setBoards(boards: BoardsData) {
   try {
-    localStorage.setItem(BOARDS, JSON.stringify(boards));
+    localStorage.setItem(BOARDS, JSON.stringify(createBoardsEnvelope(boards)));
   } catch (error) {
+    if (isQuotaExceededError(error)) throw new StorageQuotaError();
     console.error('Error setting boards in localStorage:', error);
   }
 }
+
+export function clearBoards() {
+  try {
+    localStorage.removeItem(BOARDS);
+  } catch (error) {
+    console.error('Error removing boards from localStorage:', error);
+  }
+}
+
+/**
+ * Keeps a copy of data that failed to load under a timestamped backup key,
+ * so a fresh start never destroys the user's only copy.
+ */
+function quarantineBoards(raw: string) {
+  try {
+    localStorage.setItem(`${BOARDS_BACKUP_PREFIX}${Date.now()}`, raw);
+    localStorage.removeItem(BOARDS);
+  } catch (error) {
+    console.error('Error backing up boards in localStorage:', error);
+  }
+}
+
+export function getBoardsBackupKeys(): string[] {
+  try {
+    return Object.keys(localStorage).filter((key) =>
+      key.startsWith(BOARDS_BACKUP_PREFIX)
+    );
+  } catch {
+    return [];
+  }
+}
+
+export function getOutbox(): OutboxEntry[] {
+  try {
+    const raw = localStorage.getItem(OUTBOX);
+    return raw ? (JSON.parse(raw) as OutboxEntry[]) : [];
+  } catch (error) {
+    console.error('Error getting outbox from localStorage:', error);
+    return [];
+  }
+}
+
+export function setOutbox(outbox: OutboxEntry[]) {
+  try {
+    if (outbox.length === 0) {
+      localStorage.removeItem(OUTBOX);
+    } else {
+      localStorage.setItem(OUTBOX, JSON.stringify(outbox));
+    }
+  } catch (error) {
+    console.error('Error setting outbox in localStorage:', error);
+  }
+}
+
+export function getMembers(): Member[] {
+  try {
+    const raw = localStorage.getItem(MEMBERS);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (m): m is Member =>
+        typeof m === 'object' &&
+        m !== null &&
+        typeof (m as Member).id === 'string' &&
+        typeof (m as Member).name === 'string' &&
+        typeof (m as Member).email === 'string'
+    );
+  } catch (error) {
+    console.error('Error getting members from localStorage:', error);
+    return [];
+  }
+}
+
+export function setMembers(members: Member[]) {
+  try {
+    localStorage.setItem(MEMBERS, JSON.stringify(members));
+  } catch (error) {
+    console.error('Error setting members in localStorage:', error);
+  }
+}
+
+export function getTaskActivity(): TaskActivityEntry[] {
+  try {
+    const raw = localStorage.getItem(TASK_ACTIVITY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as TaskActivityEntry[]) : [];
+  } catch (error) {
+    console.error('Error getting task activity from localStorage:', error);
+    return [];
+  }
+}
+
+export function setTaskActivity(activity: TaskActivityEntry[]) {
+  try {
+    localStorage.setItem(TASK_ACTIVITY, JSON.stringify(activity));
+  } catch (error) {
+    console.error('Error setting task activity in localStorage:', error);
+  }
+}
+
+export function getAuditLog(): AuditLogEntry[] {
+  try {
+    const raw = localStorage.getItem(AUDIT_LOG);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as AuditLogEntry[]) : [];
+  } catch (error) {
+    console.error('Error getting audit log from localStorage:', error);
+    return [];
+  }
+}
+
+export function setAuditLog(log: AuditLogEntry[]) {
+  try {
+    localStorage.setItem(AUDIT_LOG, JSON.stringify(log));
+  } catch (error) {
+    console.error('Error setting audit log in localStorage:', error);
+  }
+}
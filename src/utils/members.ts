@@ -0,0 +1,43 @@
+import type { Member, Task } from '@/types/types';
+
+/**
+ * The name shown for a member, falling back to their email the same way the
+ * account menu does when the name is blank.
+ */
+export function getMemberDisplayName(member: Member): string {
+  return member.name.trim() || member.email.trim() || 'Member';
+}
+
+/**
+ * One capital letter for avatars: the first letter of the name, else of the
+ * email. This is what the account menu shows for the logged-in user.
+ */
+export function getMemberInitial(member: Member): string {
+  const source = member.name.trim() || member.email.trim();
+  return source.charAt(0).toUpperCase() || '?';
+}
+
+/** Adds `member`, or refreshes their details if they are already listed. */
+export function upsertMember(members: Member[], member: Member): Member[] {
+  const index = members.findIndex((m) => m.id === member.id);
+  if (index === -1) return [...members, member];
+  const current = members[index];
+  if (current.name === member.name && current.email === member.email) {
+    return members;
+  }
+  return members.map((m, i) => (i === index ? member : m));
+}
+
+/**
+ * The members a task is assigned to, in the task's order. Ids of members who
+ * have since left the workspace are skipped.
+ */
+export function getTaskAssignees(
+  members: Member[],
+  task: Pick<Task, 'assigneeIds'>
+): Member[] {
+  return (task.assigneeIds ?? []).flatMap((id) => {
+    const member = members.find((m) => m.id === id);
+    return member ? [member] : [];
+  });
+}
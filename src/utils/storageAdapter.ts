@@ -0,0 +1,71 @@
+import type { Board, BoardsData } from '@/types/types';
+
+export const SAVE_DEBOUNCE_MS = 500;
+
+/** A storage backend for the boards snapshot. */
+export type BoardsStorage = {
+  load: () => Promise<BoardsData | undefined>;
+  /** Queues `boards` to be written; writes are debounced and batched. */
+  save: (boards: Board[]) => void;
+  /** Writes any queued boards now. */
+  flush: () => Promise<void>;
+};
+
+export type BoardsStorageOptions = {
+  /** Called when a queued write fails, e.g. with a `StorageQuotaError`. */
+  onError?: (error: Error) => void;
+  debounceMs?: number;
+};
+
+export class StorageQuotaError extends Error {
+  constructor(message = 'Browser storage is full') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+export function isQuotaExceededError(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' ||
+      error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+  );
+}
+
+/**
+ * Coalesces rapid saves into a single `write` of the latest boards and runs
+ * writes one at a time so they land in order.
+ */
+export function createDebouncedSave(
+  write: (boards: Board[]) => Promise<void>,
+  { onError, debounceMs = SAVE_DEBOUNCE_MS }: BoardsStorageOptions
+): Pick<BoardsStorage, 'save' | 'flush'> {
+  let pending: Board[] | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const boards = pending;
+    pending = null;
+    if (!boards) return writing;
+
+    writing = writing
+      .then(() => write(boards))
+      .catch((error: unknown) => {
+        onError?.(error instanceof Error ? error : new Error(String(error)));
+      });
+    return writing;
+  };
+
+  const save = (boards: Board[]) => {
+    pending = boards;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => void flush(), debounceMs);
+  };
+
+  return { save, flush };
+}
@@ -0,0 +1,246 @@
+import type {
+  ActionMeta,
+  Board,
+  BoardsAction,
+  Column,
+  Subtask,
+  Task,
+  TaskActivityChange,
+  TaskActivityEntry,
+} from '@/types/types';
+import {
+  PRIORITY_LABELS,
+  formatDueDate,
+  isTaskPriority,
+} from '@/utils/taskFields';
+
+/** Older entries are dropped once the log holds this many. */
+export const MAX_ACTIVITY_ENTRIES = 1000;
+
+type PlacedTask = { task: Task; column: Column };
+
+function indexTasks(board: Board): Map<string, PlacedTask> {
+  const tasks = new Map<string, PlacedTask>();
+  for (const column of board.columns) {
+    for (const task of column.tasks) tasks.set(task.id, { task, column });
+  }
+  return tasks;
+}
+
+function sameList<T>(a: T[] = [], b: T[] = [], same = Object.is): boolean {
+  return a.length === b.length && a.every((item, i) => same(item, b[i]));
+}
+
+const sameSubtask = (a: Subtask, b: Subtask) =>
+  a.title === b.title && a.isCompleted === b.isCompleted;
+
+const TEXT_FIELDS = ['title', 'description', 'priority', 'dueDate'] as const;
+
+/**
+ * What changed between two versions of a task. The status is left out
+ * because it follows the column, which is compared by id so renaming a
+ * column does not read as every task in it moving.
+ */
+function diffTask(before: PlacedTask, after: PlacedTask): TaskActivityChange[] {
+  const changes: TaskActivityChange[] = [];
+  for (const field of TEXT_FIELDS) {
+    if ((before.task[field] ?? '') !== (after.task[field] ?? '')) {
+      changes.push({
+        field,
+        before: before.task[field] || undefined,
+        after: after.task[field] || undefined,
+      });
+    }
+  }
+  if (before.column.id !== after.column.id) {
+    changes.push({
+      field: 'column',
+      before: before.column.name,
+      after: after.column.name,
+    });
+  }
+  for (const field of ['labels', 'assigneeIds'] as const) {
+    if (!sameList(before.task[field], after.task[field])) {
+      changes.push({
+        field,
+        before: before.task[field] ?? [],
+        after: after.task[field] ?? [],
+      });
+    }
+  }
+  if (!sameList(before.task.subtasks, after.task.subtasks, sameSubtask)) {
+    changes.push({
+      field: 'subtasks',
+      before: before.task.subtasks ?? [],
+      after: after.task.subtasks ?? [],
+    });
+  }
+  return changes;
+}
+
+/**
+ * One entry per task an action created, changed or deleted. Only boards
+ * that exist before and after are compared, so adding or deleting a whole
+ * board does not list every task in it.
+ */
+export function collectTaskActivity(
+  action: BoardsAction,
+  meta: ActionMeta,
+  previousBoards: Board[],
+  nextBoards: Board[]
+): TaskActivityEntry[] {
+  const entries: TaskActivityEntry[] = [];
+  const previousById = new Map(previousBoards.map((b) => [b.id, b]));
+
+  for (const board of nextBoards) {
+    const previous = previousById.get(board.id);
+    if (!previous || previous === board) continue;
+
+    const before = indexTasks(previous);
+    const after = indexTasks(board);
+    const entry = (
+      taskId: string,
+      kind: TaskActivityEntry['kind'],
+      changes: TaskActivityChange[] = []
+    ): TaskActivityEntry => ({
+      // Every tab that replays the action derives the same id.
+      id: `${meta.id}:${taskId}`,
+      boardId: board.id,
+      taskId,
+      kind,
+      actionType: action.type,
+      at: meta.at,
+      actor: meta.actor,
+      changes,
+    });
+
+    for (const [taskId, placed] of after) {
+      const old = before.get(taskId);
+      if (!old) {
+        entries.push(entry(taskId, 'created'));
+      } else if (
+        old.task !== placed.task ||
+        old.column.id !== placed.column.id
+      ) {
+        const changes = diffTask(old, placed);
+        if (changes.length > 0) entries.push(entry(taskId, 'updated', changes));
+      }
+    }
+    for (const taskId of before.keys()) {
+      if (!after.has(taskId)) entries.push(entry(taskId, 'deleted'));
+    }
+  }
+  return entries;
+}
+
+/**
+ * Adds `entries` to `log`, skipping ids it already has, and keeps only the
+ * newest `MAX_ACTIVITY_ENTRIES`.
+ */
+export function appendActivity(
+  log: TaskActivityEntry[],
+  entries: TaskActivityEntry[]
+): TaskActivityEntry[] {
+  const known = new Set(log.map((e) => e.id));
+  const fresh = entries.filter((e) => !known.has(e.id));
+  if (fresh.length === 0) return log;
+  return [...log, ...fresh].slice(-MAX_ACTIVITY_ENTRIES);
+}
+
+const quote = (text: string) => `"${text}"`;
+
+function describeListChange(
+  before: string[],
+  after: string[],
+  added: string,
+  removed: string,
+  name: (value: string) => string
+): string {
+  return [
+    ...after
+      .filter((v) => !before.includes(v))
+      .map((v) => `${added} ${name(v)}`),
+    ...before
+      .filter((v) => !after.includes(v))
+      .map((v) => `${removed} ${name(v)}`),
+  ].join(', ');
+}
+
+function describeSubtaskChange(before: Subtask[], after: Subtask[]): string {
+  const parts: string[] = [];
+  for (const subtask of after) {
+    const old = before.find((s) => s.title === subtask.title);
+    if (!old) parts.push(`added subtask ${quote(subtask.title)}`);
+    else if (!old.isCompleted && subtask.isCompleted) {
+      parts.push(`completed subtask ${quote(subtask.title)}`);
+    } else if (old.isCompleted && !subtask.isCompleted) {
+      parts.push(`reopened subtask ${quote(subtask.title)}`);
+    }
+  }
+  for (const subtask of before) {
+    if (!after.some((s) => s.title === subtask.title)) {
+      parts.push(`removed subtask ${quote(subtask.title)}`);
+    }
+  }
+  return parts.join(', ') || 'reordered the subtasks';
+}
+
+/**
+ * One change as a phrase that follows the actor's name, e.g. "moved it from
+ * Todo to Done". `memberName` turns assignee ids into names.
+ */
+export function describeTaskChange(
+  change: TaskActivityChange,
+  memberName: (id: string) => string
+): string {
+  switch (change.field) {
+    case 'title':
+      return `renamed it from ${quote(change.before ?? '')} to ${quote(change.after ?? '')}`;
+    case 'description':
+      if (!change.after) return 'removed the description';
+      return change.before ? 'changed the description' : 'added a description';
+    case 'priority':
+      return isTaskPriority(change.after)
+        ? `set the priority to ${PRIORITY_LABELS[change.after]}`
+        : 'cleared the priority';
+    case 'dueDate':
+      return change.after
+        ? `set the due date to ${formatDueDate(change.after)}`
+        : 'cleared the due date';
+    case 'column':
+      return `moved it from ${change.before} to ${change.after}`;
+    case 'labels':
+      return describeListChange(
+        change.before,
+        change.after,
+        'added label',
+        'removed label',
+        (name) => name
+      );
+    case 'assigneeIds':
+      return describeListChange(
+        change.before,
+        change.after,
+        'assigned',
+        'unassigned',
+        memberName
+      );
+    case 'subtasks':
+      return describeSubtaskChange(change.before, change.after);
+  }
+}
+
+/** What happened to the task as a whole, for entries without changes. */
+export function describeTaskActivityKind(entry: TaskActivityEntry): string {
+  switch (entry.kind) {
+    case 'created':
+      return entry.actionType === 'ADD_TASK' ||
+        entry.actionType === 'ADD_TASK_BY_ID'
+        ? 'created the task'
+        : 'restored the task';
+    case 'deleted':
+      return 'deleted the task';
+    case 'updated':
+      return 'updated the task';
+  }
+}
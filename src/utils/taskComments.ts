@@ -0,0 +1,17 @@
+import { generateCommentId, type TaskComment, type User } from '@/types/types';
+import { getMemberDisplayName } from '@/utils/members';
+
+/** A new comment by `author`, stamped with the current time. */
+export function createComment(
+  author: User,
+  body: string,
+  now = new Date()
+): TaskComment {
+  return {
+    id: generateCommentId(),
+    authorId: author.id,
+    authorName: getMemberDisplayName(author),
+    body: body.trim(),
+    createdAt: now.toISOString(),
+  };
+}
@@ -0,0 +1,85 @@
+import type { Task, TaskPriority } from '@/types/types';
+
+/** Lowest to highest. */
+export const TASK_PRIORITIES: TaskPriority[] = [
+  'low',
+  'medium',
+  'high',
+  'urgent',
+];
+
+export const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+export function isTaskPriority(value: unknown): value is TaskPriority {
+  return TASK_PRIORITIES.includes(value as TaskPriority);
+}
+
+const DUE_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** Whether `value` is a real calendar day written as `YYYY-MM-DD`. */
+export function isDueDate(value: unknown): value is string {
+  const match = typeof value === 'string' && DUE_DATE_PATTERN.exec(value);
+  if (!match) return false;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+/** Today in the local time zone, as `YYYY-MM-DD`. */
+export function getToday(now = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/** Due before today; a task due today is not overdue yet. */
+export function isOverdue(dueDate: string | undefined, today = getToday()) {
+  // Both are YYYY-MM-DD, so string order is date order.
+  return !!dueDate && dueDate < today;
+}
+
+/** "2026-03-09" → "Mar 9, 2026" in the user's locale. */
+export function formatDueDate(dueDate: string): string {
+  const [year, month, day] = dueDate.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+/** Trims, drops blanks and removes case-insensitive duplicates. */
+export function normalizeLabels(labels: string[]): string[] {
+  const seen = new Set<string>();
+  return labels
+    .map((label) => label.trim())
+    .filter((label) => {
+      const key = label.toLowerCase();
+      if (!label || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * The optional task fields as edited in the task form, where empty means
+ * unset. Unset fields come back as `undefined` so they replace old values.
+ */
+export function toTaskFields(values: {
+  priority: TaskPriority | '';
+  dueDate: string;
+  labels: string[];
+  assigneeIds: string[];
+}): Pick<Task, 'priority' | 'dueDate' | 'labels' | 'assigneeIds'> {
+  const labels = normalizeLabels(values.labels);
+  return {
+    priority: values.priority || undefined,
+    dueDate: values.dueDate || undefined,
+    labels: labels.length > 0 ? labels : undefined,
+    assigneeIds: values.assigneeIds.length > 0 ? values.assigneeIds : undefined,
+  };
+}
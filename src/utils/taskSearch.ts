@@ -0,0 +1,173 @@
+import type { Board, Column, Task } from '@/types/types';
+
+/** At most this many matches are listed; the rest are only counted. */
+export const MAX_SEARCH_RESULTS = 50;
+
+/** A task's searchable text, lowercased once when the task is indexed. */
+type TaskText = { title: string; description: string; subtasks: string[] };
+
+type IndexedTask = { column: Column; task: Task; text: TaskText };
+
+/**
+ * The searchable text of every task, cached by object identity. The store
+ * replaces a board and a task whenever they change and keeps everything
+ * else as it was, so after an edit only the edited task is indexed again.
+ */
+export type TaskSearchIndex = {
+  boards: WeakMap<Board, IndexedTask[]>;
+  tasks: WeakMap<Task, TaskText>;
+};
+
+export function createTaskSearchIndex(): TaskSearchIndex {
+  return { boards: new WeakMap(), tasks: new WeakMap() };
+}
+
+function indexBoard(index: TaskSearchIndex, board: Board): IndexedTask[] {
+  const cached = index.boards.get(board);
+  if (cached) return cached;
+
+  const tasks: IndexedTask[] = [];
+  for (const column of board.columns) {
+    for (const task of column.tasks) {
+      let text = index.tasks.get(task);
+      if (!text) {
+        text = {
+          title: task.title.toLowerCase(),
+          description: (task.description ?? '').toLowerCase(),
+          subtasks: (task.subtasks ?? []).map((s) => s.title.toLowerCase()),
+        };
+        index.tasks.set(task, text);
+      }
+      tasks.push({ column, task, text });
+    }
+  }
+  index.boards.set(board, tasks);
+  return tasks;
+}
+
+/** The distinct lowercased words of a query. */
+export function getSearchTerms(query: string): string[] {
+  return [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))];
+}
+
+export type TaskSearchMatch = {
+  board: Board;
+  column: Column;
+  task: Task;
+  descriptionMatched: boolean;
+  /** Titles of the subtasks that contain a search term. */
+  subtasks: string[];
+};
+
+/**
+ * Tasks on any board whose title, description and subtask titles contain
+ * every term between them, in board and column order.
+ */
+export function searchTasks(
+  index: TaskSearchIndex,
+  boards: Board[],
+  terms: string[]
+): TaskSearchMatch[] {
+  if (terms.length === 0) return [];
+  const matches: TaskSearchMatch[] = [];
+  for (const board of boards) {
+    for (const { column, task, text } of indexBoard(index, board)) {
+      const found = terms.every(
+        (term) =>
+          text.title.includes(term) ||
+          text.description.includes(term) ||
+          text.subtasks.some((s) => s.includes(term))
+      );
+      if (!found) continue;
+      matches.push({
+        board,
+        column,
+        task,
+        descriptionMatched: terms.some((t) => text.description.includes(t)),
+        subtasks: (task.subtasks ?? [])
+          .filter((_, i) => terms.some((t) => text.subtasks[i].includes(t)))
+          .map((s) => s.title),
+      });
+    }
+  }
+  return matches;
+}
+
+export type TaskSearchGroup = {
+  board: Board;
+  columns: { column: Column; matches: TaskSearchMatch[] }[];
+};
+
+/** Nests matches under their board and column, keeping their order. */
+export function groupSearchMatches(
+  matches: TaskSearchMatch[]
+): TaskSearchGroup[] {
+  const groups: TaskSearchGroup[] = [];
+  for (const match of matches) {
+    let group = groups.at(-1);
+    if (group?.board !== match.board) {
+      group = { board: match.board, columns: [] };
+      groups.push(group);
+    }
+    let column = group.columns.at(-1);
+    if (column?.column !== match.column) {
+      column = { column: match.column, matches: [] };
+      group.columns.push(column);
+    }
+    column.matches.push(match);
+  }
+  return groups;
+}
+
+export type HighlightPart = { text: string; match: boolean };
+
+/** Splits `text` into the parts that match one of `terms` and the rest. */
+export function splitHighlights(
+  text: string,
+  terms: string[]
+): HighlightPart[] {
+  const lower = text.toLowerCase();
+  // Some characters change length when lowercased; skip highlighting then
+  // rather than marking the wrong letters.
+  if (lower.length !== text.length || terms.length === 0) {
+    return [{ text, match: false }];
+  }
+
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    for (let at = lower.indexOf(term); at !== -1; ) {
+      ranges.push([at, at + term.length]);
+      at = lower.indexOf(term, at + term.length);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const parts: HighlightPart[] = [];
+  let end = 0;
+  for (const [from, to] of ranges) {
+    if (to <= end) continue;
+    const start = Math.max(from, end);
+    if (start > end) parts.push({ text: text.slice(end, start), match: false });
+    const last = parts.at(-1);
+    if (last?.match && start === end) last.text += text.slice(start, to);
+    else parts.push({ text: text.slice(start, to), match: true });
+    end = to;
+  }
+  if (end < text.length) parts.push({ text: text.slice(end), match: false });
+  return parts;
+}
+
+/**
+ * A short excerpt of `text` around the first match of any term, with
+ * ellipses where it was cut.
+ */
+export function getSnippet(text: string, terms: string[], radius = 40) {
+  const lower = text.toLowerCase();
+  const positions = terms.map((t) => lower.indexOf(t)).filter((i) => i >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, first - radius);
+  const end = Math.min(text.length, first + radius * 2);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${
+    end < text.length ? '…' : ''
+  }`;
+}
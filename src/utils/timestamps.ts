@@ -0,0 +1,10 @@
+/** "2026-03-09T14:05:00Z" → "Mar 9, 2026, 2:05 PM" in the user's locale. */
+export function formatTimestamp(timestamp: string): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}